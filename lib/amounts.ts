@@ -0,0 +1,77 @@
+// -----------------------------------------------------------------------------
+// Token bedragen exact rekenen: bigint raw units + decimals. Number(raw)
+// verliest precisie boven 2^53 raw units (9 decimalen + biljoenen supply).
+// -----------------------------------------------------------------------------
+
+export type RawAmount = bigint | string;
+
+// percentages in fixed point met zoveel decimalen
+export const PCT_DECIMALS = 6;
+
+/**
+ * Exacte decimale string, bv. ("1234500000", 6) -> "1234.5". Geen
+ * exponent-notatie en geen trailing zeros.
+ */
+export function formatUnits(raw: RawAmount, decimals: number): string {
+  const value = BigInt(raw);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString();
+  if (decimals <= 0) return (negative ? "-" : "") + digits;
+
+  const padded = digits.padStart(decimals + 1, "0");
+  const whole = padded.slice(0, -decimals);
+  const fraction = padded.slice(-decimals).replace(/0+$/, "");
+  return (negative ? "-" : "") + whole + (fraction ? `.${fraction}` : "");
+}
+
+/**
+ * Het bedrag als number, voor sorteren en filters. Via de exacte string,
+ * dus de dichtstbijzijnde double i.p.v. een afrondingsfout per stap.
+ */
+export function toUiNumber(raw: RawAmount, decimals: number): number {
+  return Number(formatUnits(raw, decimals));
+}
+
+/**
+ * Omgekeerde van formatUnits: "1.5" met 9 decimals -> 1500000000n. Geeft
+ * null bij ongeldige invoer of meer decimalen dan de mint heeft.
+ */
+export function parseUnits(value: string, decimals: number): bigint | null {
+  const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (!match[2] && !match[3])) return null;
+  const [, sign, whole, fraction = ""] = match;
+  if (fraction.length > Math.max(decimals, 0)) return null;
+
+  const raw = BigInt(
+    (whole || "0") + fraction.padEnd(Math.max(decimals, 0), "0")
+  );
+  return sign ? -raw : raw;
+}
+
+/**
+ * `part` als percentage van `whole`, geschaald met 10^digits (afgekapt
+ * richting 0, dus -0.5 wordt 0 en niet -1). Handig om verschillen exact te
+ * rekenen. whole <= 0 geeft 0.
+ */
+export function pctOfScaled(
+  part: RawAmount,
+  whole: RawAmount,
+  digits = PCT_DECIMALS
+): bigint {
+  const total = BigInt(whole);
+  if (total <= 0n) return 0n;
+  return (BigInt(part) * 100n * 10n ** BigInt(digits)) / total;
+}
+
+/** Zoals pctOfScaled, als number met `digits` decimalen. */
+export function pctOf(
+  part: RawAmount,
+  whole: RawAmount,
+  digits = PCT_DECIMALS
+): number {
+  return toUiNumber(pctOfScaled(part, whole, digits), digits);
+}
+
+export function sumRaw(values: RawAmount[]): bigint {
+  return values.reduce<bigint>((acc, v) => acc + BigInt(v), 0n);
+}
@@ -0,0 +1,352 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// -----------------------------------------------------------------------------
+// API keys, token buckets per client en usage tellers. Keys komen uit
+// API_KEYS (env, JSON) en/of een lokaal bestand; zonder key ben je anoniem
+// met een lage limiet (of krijg je een 401 als API_AUTH=required).
+// -----------------------------------------------------------------------------
+
+export type RateLimit = {
+  // bijvullen per minuut
+  ratePerMinute: number;
+  // maximale inhoud van de bucket (= grootste burst)
+  burst: number;
+};
+
+export type ApiKey = {
+  // stabiel id voor usage en logs; de key zelf gaat nooit naar buiten
+  id: string;
+  name: string;
+  // sha256 hex van de key
+  keyHash: string;
+  limit: RateLimit;
+  admin: boolean;
+  // browser origins die deze key mogen gebruiken; null = alle
+  origins: string[] | null;
+};
+
+export type ApiClient = {
+  // "key:<id>" of "anon:<ip>"
+  id: string;
+  key: ApiKey | null;
+  limit: RateLimit;
+};
+
+export const API_KEYS_FILE =
+  process.env.API_KEYS_FILE ||
+  path.join(__dirname, "..", "data", "api-keys.json");
+
+export const ANONYMOUS_LIMIT: RateLimit = {
+  ratePerMinute: Number(process.env.ANON_RATE_PER_MINUTE || 30),
+  burst: Number(process.env.ANON_BURST || 10),
+};
+
+const DEFAULT_KEY_LIMIT: RateLimit = {
+  ratePerMinute: Number(process.env.API_KEY_RATE_PER_MINUTE || 600),
+  burst: Number(process.env.API_KEY_BURST || 120),
+};
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function positive(value: unknown, fallback: number, what: string): number {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!isFinite(n) || n <= 0) throw new Error(`${what} must be > 0`);
+  return n;
+}
+
+/**
+ * Eén entry uit API_KEYS of het keys bestand:
+ * `{ name, key | keyHash, ratePerMinute?, burst?, admin?, origins? }`.
+ * Met keyHash (sha256 hex) hoeft de key zelf niet in de config te staan.
+ */
+export function parseApiKey(raw: any, where: string): ApiKey {
+  if (typeof raw?.name !== "string" || !raw.name) {
+    throw new Error(`${where}.name must be a non-empty string`);
+  }
+  let keyHash: string;
+  if (typeof raw.keyHash === "string" && /^[0-9a-f]{64}$/i.test(raw.keyHash)) {
+    keyHash = raw.keyHash.toLowerCase();
+  } else if (typeof raw.key === "string" && raw.key.length >= 16) {
+    keyHash = hashApiKey(raw.key);
+  } else {
+    throw new Error(
+      `${where} needs a key (>= 16 characters) or a sha256 keyHash`
+    );
+  }
+  if (
+    raw.origins !== undefined &&
+    (!Array.isArray(raw.origins) ||
+      !raw.origins.every((o: unknown) => typeof o === "string"))
+  ) {
+    throw new Error(`${where}.origins must be an array of strings`);
+  }
+
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : keyHash.slice(0, 12),
+    name: raw.name,
+    keyHash,
+    limit: {
+      ratePerMinute: positive(
+        raw.ratePerMinute,
+        DEFAULT_KEY_LIMIT.ratePerMinute,
+        `${where}.ratePerMinute`
+      ),
+      burst: positive(raw.burst, DEFAULT_KEY_LIMIT.burst, `${where}.burst`),
+    },
+    admin: raw.admin === true,
+    origins: raw.origins ?? null,
+  };
+}
+
+function parseKeyList(json: string, where: string): ApiKey[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error(`${where} must be a JSON array`);
+  }
+  if (!Array.isArray(raw)) throw new Error(`${where} must be a JSON array`);
+  return raw.map((entry, idx) => parseApiKey(entry, `${where}[${idx}]`));
+}
+
+/** Keys uit API_KEYS (env) plus het lokale bestand, als dat bestaat. */
+export function loadApiKeys(
+  env: NodeJS.ProcessEnv = process.env,
+  file = API_KEYS_FILE
+): ApiKey[] {
+  const keys: ApiKey[] = env.API_KEYS
+    ? parseKeyList(env.API_KEYS, "API_KEYS")
+    : [];
+
+  try {
+    keys.push(...parseKeyList(fs.readFileSync(file, "utf8"), file));
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") throw e;
+  }
+
+  const ids = new Set<string>();
+  for (const key of keys) {
+    if (ids.has(key.id)) {
+      throw new Error(`API key id "${key.id}" is used twice`);
+    }
+    ids.add(key.id);
+  }
+  return keys;
+}
+
+export function createApiKeyRegistry(keys: ApiKey[]) {
+  const byHash = new Map(keys.map((k) => [k.keyHash, k]));
+
+  return {
+    // opzoeken via de hash, dus geen string-vergelijking op de key zelf
+    lookup: (key: string): ApiKey | null => byHash.get(hashApiKey(key)) ?? null,
+    size: () => byHash.size,
+    list: () => keys,
+  };
+}
+
+export type ApiKeyRegistry = ReturnType<typeof createApiKeyRegistry>;
+
+// -----------------------------------------------------------------------------
+// Token buckets
+// -----------------------------------------------------------------------------
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // seconden tot de bucket weer vol is
+  resetSeconds: number;
+  // bij een weigering: seconden tot `cost` tokens beschikbaar zijn
+  retryAfterSeconds: number | null;
+};
+
+type Bucket = { tokens: number; updatedAt: number; limit: RateLimit };
+
+export function createTokenBuckets(now: () => number = Date.now) {
+  const buckets = new Map<string, Bucket>();
+
+  function refill(bucket: Bucket, at: number) {
+    const perMs = bucket.limit.ratePerMinute / 60_000;
+    bucket.tokens = Math.min(
+      bucket.limit.burst,
+      bucket.tokens + (at - bucket.updatedAt) * perMs
+    );
+    bucket.updatedAt = at;
+  }
+
+  const secondsFor = (tokens: number, limit: RateLimit) =>
+    Math.ceil(Math.max(0, tokens) / (limit.ratePerMinute / 60));
+
+  /**
+   * Haalt `cost` tokens uit de bucket van `clientId`. Een request dat meer
+   * kost dan de hele burst mag alleen met een volle bucket, en leegt hem.
+   */
+  function take(clientId: string, limit: RateLimit, cost: number) {
+    const at = now();
+    let bucket = buckets.get(clientId);
+    if (!bucket) {
+      bucket = { tokens: limit.burst, updatedAt: at, limit };
+      buckets.set(clientId, bucket);
+    }
+    bucket.limit = limit;
+    refill(bucket, at);
+
+    const needed = Math.min(cost, limit.burst);
+    const allowed = bucket.tokens >= needed;
+    if (allowed) bucket.tokens = Math.max(0, bucket.tokens - cost);
+
+    const result: RateLimitResult = {
+      allowed,
+      limit: limit.burst,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: secondsFor(limit.burst - bucket.tokens, limit),
+      retryAfterSeconds: allowed
+        ? null
+        : Math.max(1, secondsFor(needed - bucket.tokens, limit)),
+    };
+    return result;
+  }
+
+  // volle buckets zijn gelijk aan geen bucket; opruimen houdt de Map klein
+  function prune() {
+    const at = now();
+    buckets.forEach((bucket, id) => {
+      refill(bucket, at);
+      if (bucket.tokens >= bucket.limit.burst) buckets.delete(id);
+    });
+  }
+
+  return { take, prune, size: () => buckets.size };
+}
+
+export type TokenBuckets = ReturnType<typeof createTokenBuckets>;
+
+// -----------------------------------------------------------------------------
+// Usage per client (bestand onder data/, periodiek weggeschreven)
+// -----------------------------------------------------------------------------
+
+export type ClientUsage = {
+  requests: number;
+  // som van de route kosten van toegestane requests
+  cost: number;
+  limited: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  routes: Record<string, number>;
+};
+
+export const API_USAGE_FILE =
+  process.env.API_USAGE_FILE ||
+  path.join(__dirname, "..", "data", "api-usage.json");
+
+const USAGE_FLUSH_MS = Number(process.env.API_USAGE_FLUSH_MS || 60_000);
+
+export function createUsageMeter(file = API_USAGE_FILE) {
+  let usage: Record<string, ClientUsage> = {};
+  try {
+    usage = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") {
+      console.error("api usage load error:", e?.message || e);
+    }
+  }
+  let dirty = false;
+
+  function record(
+    clientId: string,
+    route: string,
+    cost: number,
+    limited: boolean
+  ) {
+    const at = new Date().toISOString();
+    const u = (usage[clientId] ??= {
+      requests: 0,
+      cost: 0,
+      limited: 0,
+      firstSeenAt: at,
+      lastSeenAt: at,
+      routes: {},
+    });
+    u.requests += 1;
+    u.lastSeenAt = at;
+    u.routes[route] = (u.routes[route] ?? 0) + 1;
+    if (limited) u.limited += 1;
+    else u.cost += cost;
+    dirty = true;
+  }
+
+  // tmp + rename, zelfde aanpak als de webhook store
+  async function flush() {
+    if (!dirty) return;
+    dirty = false;
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(usage));
+      await fs.promises.rename(`${file}.tmp`, file);
+    } catch (e: any) {
+      dirty = true;
+      console.error("api usage save error:", e?.message || e);
+    }
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+
+  return {
+    record,
+    flush,
+    start(intervalMs = USAGE_FLUSH_MS) {
+      if (timer) return;
+      timer = setInterval(flush, intervalMs);
+      timer.unref();
+    },
+    report: () => usage,
+  };
+}
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+// -----------------------------------------------------------------------------
+// Request helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Key uit `X-API-Key`, `Authorization: Bearer ...` of, met `fromQuery`, de
+ * `apiKey` query param (alleen voor de stream: EventSource kan geen headers
+ * zetten, en elders belandt de key zo in logs en Referer headers).
+ */
+export function apiKeyFrom(
+  req: {
+    headers: Record<string, string | string[] | undefined>;
+    query: Record<string, unknown>;
+  },
+  fromQuery = false
+): string | null {
+  const header = req.headers["x-api-key"];
+  if (typeof header === "string" && header.trim()) return header.trim();
+
+  const auth = req.headers["authorization"];
+  if (typeof auth === "string") {
+    const match = /^Bearer\s+(.+)$/i.exec(auth.trim());
+    if (match) return match[1].trim();
+  }
+
+  const param = req.query.apiKey;
+  return fromQuery && typeof param === "string" && param.trim()
+    ? param.trim()
+    : null;
+}
+
+/** CORS_ORIGINS, komma-gescheiden; leeg of "*" = alle origins. */
+export function parseCorsOrigins(value: string | undefined): string[] | null {
+  const origins = (value || "")
+    .split(",")
+    .map((o) => o.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+  return origins.length === 0 || origins.includes("*") ? null : origins;
+}
@@ -0,0 +1,1370 @@
+import { Commitment } from "@solana/web3.js";
+import { JsonSchema, Schema, s } from "./schema";
+import { ApiRoute, RouteResponse, defineRoute } from "./openapi";
+import { RPC_COMMITMENTS, RpcEndpointStatus } from "./rpc-pool";
+import { BATCH_MAX_ITEMS, BatchItem } from "./rpc-batch";
+import { HISTORY_DEFAULT_LIMIT, HISTORY_MAX_LIMIT } from "./wallet-history";
+import { WalletTransaction } from "./wallet-history";
+import { VALUATION_MIN_LIQUIDITY_USD, WalletValuation } from "./valuation";
+import { AUDIT_MAX_MINTS } from "./wallet-audit";
+import { STREAM_MAX_KEYS } from "./live-stream";
+import { parseTimestamp, SnapshotDiff } from "./whale-snapshots";
+import {
+  WebhookCondition,
+  WebhookDelivery,
+  isWebhookUrl,
+  parseWebhookCondition,
+} from "./webhooks";
+import { MintExtensions, TokenProgramName } from "./token-programs";
+import { TokenMetadata } from "./metadata";
+import { TokenInfo } from "./token-info";
+import { LiquidityBreakdown, PoolSummary } from "./liquidity";
+import { PoolKind, ProviderAttempt } from "./market-data";
+import { LpStatus } from "./lp-status";
+import { RiskLevel, RuleResult } from "./risk";
+import { HistogramBucket, PercentileShare } from "./holder-scan";
+import {
+  AuthorityChange,
+  LAUNCH_WINDOW_MAX_SLOTS,
+  MintCreation,
+  PoolInit,
+  SupplyEvent,
+  TokenHistory,
+  TokenReceipt,
+} from "./token-history";
+import {
+  INSIDER_DEFAULT_WINDOW_SLOTS,
+  INSIDER_MAX_WALLETS,
+  InsiderReport,
+} from "./insiders";
+import {
+  PRICE_BACKFILL_MAX_TXS,
+  PRICE_DEFAULT_CANDLES,
+  PRICE_INTERVALS,
+  PRICE_MAX_CANDLES,
+  PriceInterval,
+} from "./price-history";
+import {
+  CLUSTER_DEFAULT_HOLDERS,
+  CLUSTER_MAX_DEPTH,
+  CLUSTER_MAX_HOLDERS,
+  ClusterHolder,
+  HolderCluster,
+} from "./funding-clusters";
+
+// -----------------------------------------------------------------------------
+// Alle endpoints met hun params en response vorm. server.ts valideert
+// hiermee, /openapi.json wordt eruit gegenereerd en de *Response types
+// hieronder kan een frontend direct importeren.
+// -----------------------------------------------------------------------------
+
+// gedeelde schema's komen als $ref in components.schemas
+export const API_COMPONENTS: Record<string, JsonSchema> = {};
+
+function component<T, O extends boolean>(
+  name: string,
+  schema: Schema<T, O>
+): Schema<T, O> {
+  API_COMPONENTS[name] = schema.json;
+  return { ...schema, json: { $ref: `#/components/schemas/${name}` } };
+}
+
+// -----------------------------------------------------------------------------
+// Gedeelde params
+// -----------------------------------------------------------------------------
+
+const commitment = s.describe(
+  s.optional(s.enumOf(RPC_COMMITMENTS)),
+  "Commitment for the RPC calls (default: the pool's default commitment)"
+);
+
+const fresh = s.describe(s.withDefault(s.flag(), false), "1 skips the cache");
+
+// params die elk RPC endpoint accepteert
+const rpcQuery = { commitment, fresh };
+
+const dexes = s.describe(
+  s.optional(s.list(s.string())),
+  "Trusted DEX allowlist, e.g. raydium,orca (default: all known DEXes)"
+);
+
+const timestamp = s.custom<number>(
+  {
+    type: "string",
+    description: "ISO date or unix timestamp (seconds or milliseconds)",
+    example: "2024-01-01T00:00:00Z",
+  },
+  (value, field) => {
+    const ts = typeof value === "string" ? parseTimestamp(value.trim()) : null;
+    return ts === null
+      ? {
+          ok: false,
+          error: `${field} must be an ISO date or a unix timestamp`,
+          field,
+        }
+      : { ok: true, value: ts };
+  }
+);
+
+// -----------------------------------------------------------------------------
+// Gedeelde response onderdelen
+// -----------------------------------------------------------------------------
+
+const rpcMeta = component(
+  "RpcMeta",
+  s.object({
+    commitment: s.enumOf(RPC_COMMITMENTS),
+    endpoints: s.describe(
+      s.array(s.string()),
+      "Labels of the RPC endpoints that served this request"
+    ),
+  })
+);
+
+const cacheMeta = component(
+  "CacheMeta",
+  s.object({
+    backend: s.string(),
+    cachedAt: s.string(),
+    ageMs: s.number(),
+    hits: s.number(),
+    misses: s.number(),
+  })
+);
+
+const marketDataMeta = component(
+  "MarketDataAttribution",
+  s.object({
+    source: s.nullable(s.string()),
+    attempts: s.typed<ProviderAttempt[]>({
+      type: "array",
+      items: { type: "object" },
+    }),
+  })
+);
+
+const tokenProgram = s.enumOf<TokenProgramName>([
+  "spl-token",
+  "spl-token-2022",
+]);
+
+const metadata = component(
+  "TokenMetadata",
+  s.typed<TokenMetadata | null>({
+    type: "object",
+    nullable: true,
+    description:
+      "Metaplex or Token-2022 metadata, optionally with off-chain JSON",
+  })
+);
+
+const extensions = component(
+  "MintExtensions",
+  s.typed<MintExtensions>({
+    type: "object",
+    description: "Decoded Token-2022 extensions",
+    properties: { names: { type: "array", items: { type: "string" } } },
+  })
+);
+
+const concentration = component(
+  "Concentration",
+  s.object({
+    top1: s.number(),
+    top5: s.number(),
+    top10: s.number(),
+  })
+);
+
+const ownerLabel = component(
+  "OwnerLabel",
+  s.nullable(
+    s.object({
+      category: s.enumOf(["wallet", "pda", "dex", "exchange", "burn"]),
+      name: s.nullable(s.string()),
+      ownerProgram: s.nullable(s.string()),
+      infrastructure: s.boolean(),
+    })
+  )
+);
+
+const amountShape = {
+  amountRaw: s.string(),
+  uiAmount: s.number(),
+  uiAmountString: s.describe(s.string(), "Exact amount, uiAmount may round"),
+};
+
+const holderRow = component(
+  "HolderRow",
+  s.object({
+    owner: s.string(),
+    tokenAccount: s.optional(s.string()),
+    // alleen bij scan=full: aantal token accounts van deze owner
+    tokenAccounts: s.optional(s.number()),
+    ...amountShape,
+    percentageOfSupply: s.number(),
+    label: ownerLabel,
+  })
+);
+
+const walletTokenShape = {
+  mint: s.string(),
+  tokenAccount: s.string(),
+  program: tokenProgram,
+  ...amountShape,
+  decimals: s.number(),
+  isNative: s.boolean(),
+  metadata,
+};
+
+const walletToken = component(
+  "WalletToken",
+  s.object({
+    ...walletTokenShape,
+    // alleen met valuate=1
+    priceUsd: s.optional(s.nullable(s.number())),
+    valueUsd: s.optional(s.nullable(s.number())),
+    liquidityUsd: s.optional(s.number()),
+    allocationPct: s.optional(s.nullable(s.number())),
+    flags: s.optional(
+      s.object({ noPrice: s.boolean(), lowLiquidity: s.boolean() })
+    ),
+  })
+);
+
+const valuation = component(
+  "WalletValuation",
+  s.typed<WalletValuation>({
+    type: "object",
+    properties: {
+      minLiquidityUsd: { type: "number" },
+      solPriceUsd: { type: "number", nullable: true },
+      totalUsd: { type: "number" },
+      flaggedValueUsd: { type: "number" },
+    },
+  })
+);
+
+const mintShape = {
+  program: tokenProgram,
+  decimals: s.number(),
+  supplyRaw: s.string(),
+  supply: s.number(),
+  supplyString: s.describe(s.string(), "Exact supply, supply may round"),
+};
+
+const tokenInfo = component(
+  "TokenInfo",
+  s.typed<TokenInfo>({
+    type: "object",
+    properties: {
+      mint: { type: "string" },
+      program: { type: "string", enum: ["spl-token", "spl-token-2022"] },
+      programId: { type: "string" },
+      decimals: { type: "integer" },
+      supplyRaw: { type: "string" },
+      supply: { type: "number" },
+      supplyString: { type: "string" },
+      mintAuthority: { type: "string", nullable: true },
+      freezeAuthority: { type: "string", nullable: true },
+      isInitialized: { type: "boolean" },
+      extensions: { $ref: "#/components/schemas/MintExtensions" },
+      metadata: { $ref: "#/components/schemas/TokenMetadata" },
+    },
+  })
+);
+
+function batchResult<T>(result: Schema<T, any>): Schema<BatchItem<T>[], false> {
+  return s.typed<BatchItem<T>[]>({
+    type: "array",
+    items: {
+      type: "object",
+      description: "ok=false items carry status and error instead of result",
+      properties: {
+        key: { type: "string" },
+        ok: { type: "boolean" },
+        result: result.json,
+        status: { type: "integer" },
+        error: { type: "string" },
+      },
+      required: ["key", "ok"],
+    },
+  });
+}
+
+const webhookSubscription = component(
+  "WebhookSubscription",
+  s.object({
+    id: s.string(),
+    owner: s.describe(
+      s.nullable(s.string()),
+      "Client that created it: key:<id>, or anon:<ip> without an API key"
+    ),
+    url: s.string(),
+    condition: s.typed<WebhookCondition>({
+      type: "object",
+      description:
+        "liquidity-below, whale-move, mint-authority-change or wallet-balance-change",
+    }),
+    createdAt: s.string(),
+    state: s.typed<any>({ description: "Last observed state" }),
+    lastEvaluatedAt: s.nullable(s.string()),
+    lastError: s.nullable(s.string()),
+  })
+);
+
+// -----------------------------------------------------------------------------
+// Routes
+// -----------------------------------------------------------------------------
+
+// route kosten worden vóór de validatie bepaald, dus op de ruwe input
+const isOn = (value: unknown) =>
+  value === "1" || value === "true" || value === true;
+
+// batches en lijsten: 1 token per `per` items
+function perItems(value: unknown, per: number): number {
+  const count = Array.isArray(value)
+    ? value.length
+    : typeof value === "string"
+      ? value.split(",").filter((v) => v.trim()).length
+      : 0;
+  return Math.ceil(count / per);
+}
+
+const walletInfo = defineRoute({
+  method: "get",
+  path: "/api/wallet-info",
+  tag: "wallets",
+  cost: (req) => (isOn(req.query.valuate) ? 3 : 1),
+  summary: "SOL and SPL balances of a wallet, optionally valued in USD",
+  query: {
+    address: s.address(),
+    offchain: s.describe(
+      s.withDefault(s.flag(), false),
+      "1 fetches off-chain metadata JSON"
+    ),
+    valuate: s.describe(
+      s.withDefault(s.flag(), false),
+      "1 adds USD prices and a portfolio valuation"
+    ),
+    minLiquidityUsd: s.withDefault(
+      s.number({ min: 0 }),
+      VALUATION_MIN_LIQUIDITY_USD
+    ),
+    ...rpcQuery,
+  },
+  response: s.object({
+    address: s.string(),
+    rpc: rpcMeta,
+    cache: s.optional(cacheMeta),
+    lamports: s.number(),
+    sol: s.number(),
+    valuation: s.optional(valuation),
+    tokens: s.array(walletToken),
+  }),
+  otherResponses: { 404: "Wallet not found" },
+});
+
+const walletHistory = defineRoute({
+  method: "get",
+  path: "/api/wallet-history",
+  tag: "wallets",
+  cost: 3,
+  summary: "Transactions with SOL / SPL deltas and a classification",
+  query: {
+    address: s.address(),
+    before: s.describe(
+      s.optional(s.string()),
+      "Signature cursor (nextCursor of the previous page)"
+    ),
+    limit: s.withDefault(
+      s.number({ integer: true, min: 1, max: HISTORY_MAX_LIMIT }),
+      HISTORY_DEFAULT_LIMIT
+    ),
+    ...rpcQuery,
+  },
+  response: s.object({
+    address: s.string(),
+    rpc: rpcMeta,
+    before: s.nullable(s.string()),
+    limit: s.number(),
+    count: s.number(),
+    nextCursor: s.nullable(s.string()),
+    transactions: s.typed<WalletTransaction[]>({
+      type: "array",
+      items: { type: "object" },
+    }),
+  }),
+});
+
+const tokenProgramAccount = {
+  tokenAccount: s.string(),
+  mint: s.string(),
+  program: tokenProgram,
+};
+
+const walletAudit = defineRoute({
+  method: "get",
+  path: "/api/wallet-audit",
+  tag: "wallets",
+  cost: 5,
+  summary:
+    "Delegate approvals, frozen and closeable token accounts and likely scam airdrops",
+  description: `Held mints are checked for scam airdrop signs up to ${AUDIT_MAX_MINTS} mints per wallet.`,
+  query: {
+    address: s.address(),
+    minLiquidityUsd: s.describe(
+      s.withDefault(s.number({ min: 0 }), VALUATION_MIN_LIQUIDITY_USD),
+      "Tokens with less trusted liquidity count as unsellable"
+    ),
+    ...rpcQuery,
+  },
+  response: s.object({
+    address: s.string(),
+    rpc: rpcMeta,
+    cache: cacheMeta,
+    tokenAccounts: s.number(),
+    // per delegate: wie tokens van deze wallet mag verplaatsen
+    approvals: s.array(
+      s.object({
+        delegate: s.string(),
+        label: ownerLabel,
+        accounts: s.array(
+          s.object({
+            ...tokenProgramAccount,
+            delegatedAmountRaw: s.string(),
+            delegatedAmount: s.string(),
+            balance: s.string(),
+          })
+        ),
+      })
+    ),
+    frozen: s.array(s.object({ ...tokenProgramAccount, balance: s.string() })),
+    closeable: s.object({
+      accounts: s.array(
+        s.object({
+          ...tokenProgramAccount,
+          lamports: s.number(),
+          sol: s.number(),
+        })
+      ),
+      reclaimableLamports: s.number(),
+      reclaimableSol: s.number(),
+    }),
+    notCloseable: s.number(),
+    suspicious: s.array(
+      s.object({
+        mint: s.string(),
+        tokenAccount: s.string(),
+        balance: s.string(),
+        name: s.nullable(s.string()),
+        symbol: s.nullable(s.string()),
+        reasons: s.array(s.string()),
+      })
+    ),
+    uncheckedMints: s.number(),
+    summary: s.object({
+      delegates: s.number(),
+      approvedAccounts: s.number(),
+      frozen: s.number(),
+      closeable: s.number(),
+      reclaimableSol: s.number(),
+      suspicious: s.number(),
+    }),
+  }),
+});
+
+const tokenInfoRoute = defineRoute({
+  method: "get",
+  path: "/api/token-info",
+  tag: "tokens",
+  summary: "Mint supply, authorities, extensions and metadata",
+  query: {
+    mint: s.address(),
+    offchain: s.withDefault(s.flag(), false),
+    ...rpcQuery,
+  },
+  response: s.typed<TokenInfo & { rpc: RouteRpcMeta }>({
+    allOf: [
+      { $ref: "#/components/schemas/TokenInfo" },
+      {
+        type: "object",
+        properties: { rpc: { $ref: "#/components/schemas/RpcMeta" } },
+      },
+    ],
+  }),
+  otherResponses: { 404: "Mint account not found" },
+});
+
+const tokenHistory = defineRoute({
+  method: "get",
+  path: "/api/token-history",
+  tag: "tokens",
+  cost: 20,
+  summary:
+    "Creation, MintTo / Burn events, authority changes and the first pool of a mint",
+  description:
+    "Walks the signature history of the mint account. Very active mints are only partially covered, see coverage.complete; the after-launch mint and recent-revoke reasons are then left out.",
+  query: { mint: s.address(), ...rpcQuery },
+  response: s.object({
+    mint: s.string(),
+    rpc: rpcMeta,
+    cache: cacheMeta,
+    decimals: s.number(),
+    created: s.typed<MintCreation | null>({ type: "object", nullable: true }),
+    supplyEvents: s.typed<SupplyEvent[]>({
+      type: "array",
+      items: { type: "object" },
+    }),
+    authorityChanges: s.typed<AuthorityChange[]>({
+      type: "array",
+      items: { type: "object" },
+    }),
+    firstPool: s.typed<PoolInit | null>({ type: "object", nullable: true }),
+    launchReceipts: s.typed<TokenReceipt[]>({
+      type: "array",
+      items: { type: "object" },
+    }),
+    totals: s.typed<TokenHistory["totals"]>({ type: "object" }),
+    coverage: s.object({
+      signatures: s.number(),
+      parsed: s.number(),
+      complete: s.boolean(),
+    }),
+    reasons: s.array(s.string()),
+  }),
+  otherResponses: { 404: "Mint account not found" },
+});
+
+const batchWalletInfo = defineRoute({
+  method: "post",
+  path: "/api/batch/wallet-info",
+  tag: "batch",
+  cost: (req) => perItems(req.body?.addresses, 5),
+  summary: "wallet-info for several wallets in one request",
+  body: {
+    addresses: s.array(s.string(), { min: 1, max: BATCH_MAX_ITEMS }),
+    offchain: s.withDefault(s.boolean(), false),
+    valuate: s.withDefault(s.boolean(), false),
+    minLiquidityUsd: s.withDefault(
+      s.number({ min: 0 }),
+      VALUATION_MIN_LIQUIDITY_USD
+    ),
+    commitment,
+  },
+  response: s.object({
+    rpc: rpcMeta,
+    count: s.number(),
+    results: batchResult(
+      s.typed<any>({
+        type: "object",
+        description: "Same shape as /api/wallet-info",
+      })
+    ),
+  }),
+});
+
+const batchTokenInfo = defineRoute({
+  method: "post",
+  path: "/api/batch/token-info",
+  tag: "batch",
+  cost: (req) => perItems(req.body?.mints, 10),
+  summary: "token-info for several mints in one request",
+  body: {
+    mints: s.array(s.string(), { min: 1, max: BATCH_MAX_ITEMS }),
+    offchain: s.withDefault(s.boolean(), false),
+    commitment,
+  },
+  response: s.object({
+    rpc: rpcMeta,
+    count: s.number(),
+    results: batchResult(tokenInfo),
+  }),
+});
+
+const poolSummaries = s.typed<PoolSummary[]>({
+  type: "array",
+  items: { type: "object" },
+});
+
+const cbsMetrics = defineRoute({
+  method: "get",
+  path: "/api/cbs-metrics",
+  tag: "market",
+  cost: 2,
+  summary: "DEX pools and liquidity per venue",
+  query: { mint: s.address(), dexes, ...rpcQuery },
+  response: s.object({
+    mint: s.string(),
+    rpc: rpcMeta,
+    cache: cacheMeta,
+    marketData: marketDataMeta,
+    totalPools: s.number(),
+    raydiumCount: s.number(),
+    otherDexCount: s.number(),
+    trustedCount: s.number(),
+    totalLiquidityUsd: s.number(),
+    liquidity: s.typed<LiquidityBreakdown>({ type: "object" }),
+    raydium: poolSummaries,
+    trusted: poolSummaries,
+    others: poolSummaries,
+  }),
+});
+
+const poolKind = s.enumOf<PoolKind>([
+  "raydium-amm-v4",
+  "raydium-cpmm",
+  "orca-whirlpool",
+]);
+
+const sellImpact = component(
+  "SellImpact",
+  s.object({
+    pctOfSupply: s.number(),
+    amountRaw: s.string(),
+    amount: s.string(),
+    pool: s.string(),
+    kind: poolKind,
+    outputMint: s.string(),
+    amountOut: s.string(),
+    priceImpactPct: s.number(),
+  })
+);
+
+const tokenSafetyCheck = defineRoute({
+  method: "get",
+  path: "/api/token-safety-check",
+  tag: "tokens",
+  cost: (req) => (isOn(req.query.history) ? 30 : 10),
+  summary: "Heuristic risk analysis of a token",
+  query: {
+    mint: s.address(),
+    dexes,
+    profile: s.describe(
+      s.withDefault(s.string(), "default"),
+      "Risk profile name from risk-profiles/"
+    ),
+    sellPct: s.describe(
+      s.withDefault(s.number({ min: 0.0001, max: 100 }), 1),
+      "Percentage of the supply for the sell impact metric"
+    ),
+    history: s.describe(
+      s.withDefault(s.flag(), false),
+      "1 adds reasons from the mint's supply and authority history"
+    ),
+    ...rpcQuery,
+  },
+  response: s.object({
+    mint: s.string(),
+    rpc: rpcMeta,
+    cache: cacheMeta,
+    onChain: s.object({
+      ...mintShape,
+      mintAuthority: s.nullable(s.string()),
+      freezeAuthority: s.nullable(s.string()),
+      isInitialized: s.boolean(),
+      extensions,
+    }),
+    dex: s.object({
+      marketData: marketDataMeta,
+      totalPools: s.number(),
+      totalLiquidityUsd: s.number(),
+      trustedDexes: s.array(s.string()),
+      dominantVenue: s.nullable(s.string()),
+      priceSpreadPct: s.nullable(s.number()),
+      largestPool: s.nullable(
+        s.object({
+          dexId: s.string(),
+          pairAddress: s.string(),
+          liquidityUsd: s.number(),
+          url: s.optional(s.string()),
+        })
+      ),
+    }),
+    lp: s.typed<LpStatus | null>({ type: "object", nullable: true }),
+    // alleen met history=1 (en null als de historie niet op te halen was)
+    history: s.optional(
+      s.nullable(
+        s.object({
+          createdAt: s.nullable(s.number()),
+          creator: s.nullable(s.string()),
+          firstPoolAt: s.nullable(s.number()),
+          mintedAfterLaunchPct: s.nullable(s.number()),
+          authorityChanges: s.number(),
+          complete: s.boolean(),
+        })
+      )
+    ),
+    safety: s.object({
+      immutableMint: s.boolean(),
+      canFreeze: s.boolean(),
+      hasRaydiumPool: s.boolean(),
+      hasTrustedPool: s.boolean(),
+      lowLiquidity: s.boolean(),
+      veryLowLiquidity: s.boolean(),
+      hasPermanentDelegate: s.boolean(),
+      hasTransferHook: s.boolean(),
+      transferFeeBps: s.number(),
+      highTransferFee: s.boolean(),
+      nonTransferable: s.boolean(),
+      defaultFrozen: s.boolean(),
+      lpBurnedPct: s.nullable(s.number()),
+      lpSafePct: s.nullable(s.number()),
+      concentration: s.nullable(concentration),
+      concentrationExcludingInfrastructure: s.nullable(concentration),
+      infrastructurePct: s.nullable(s.number()),
+      // null: geen constant-product pool tegen SOL / USDC / USDT
+      sellImpact: s.nullable(sellImpact),
+      profile: s.string(),
+      score: s.number(),
+      riskLevel: s.enumOf<RiskLevel>(["low", "medium", "high"]),
+      rules: s.typed<RuleResult[]>({
+        type: "array",
+        items: { type: "object" },
+      }),
+      reasons: s.array(s.string()),
+    }),
+    disclaimer: s.string(),
+  }),
+  otherResponses: { 404: "Mint account not found" },
+});
+
+const lpStatus = defineRoute({
+  method: "get",
+  path: "/api/lp-status",
+  tag: "market",
+  cost: 3,
+  summary: "LP tokens of a Raydium AMM v4 / CPMM pool: burned, locked or held",
+  query: { pair: s.address(), ...rpcQuery },
+  response: s.typed<
+    LpStatus & { pair: string; rpc: RouteRpcMeta; note: string }
+  >({ type: "object" }),
+});
+
+// ui bedrag als string; de decimals van de mint komen uit de pool
+const uiAmount = s.custom<string>(
+  { type: "string", example: "1.5" },
+  (raw, field) => {
+    const value = typeof raw === "number" ? String(raw) : raw;
+    return typeof value === "string" &&
+      /^\d*\.?\d+$/.test(value.trim()) &&
+      Number(value) > 0
+      ? { ok: true, value: value.trim() }
+      : { ok: false, error: `${field} must be a positive number`, field };
+  }
+);
+
+const poolQuote = component(
+  "PoolQuote",
+  s.object({
+    pool: s.string(),
+    kind: poolKind,
+    feeBps: s.number(),
+    inputMint: s.string(),
+    outputMint: s.string(),
+    reserveIn: s.string(),
+    reserveOut: s.string(),
+    amountInRaw: s.string(),
+    amountIn: s.string(),
+    amountOutRaw: s.string(),
+    amountOut: s.string(),
+    feeAmountRaw: s.string(),
+    feeAmount: s.string(),
+    spotPrice: s.number(),
+    executionPrice: s.number(),
+    priceImpactPct: s.number(),
+  })
+);
+
+const quote = defineRoute({
+  method: "get",
+  path: "/api/quote",
+  tag: "market",
+  cost: 5,
+  summary: "Expected output, price impact and fee of a swap",
+  description:
+    "Reads the reserves of Raydium AMM v4 / CPMM pools between the two mints and returns the best single-pool route. Concentrated liquidity pools are not quoted.",
+  query: {
+    inputMint: s.address(),
+    outputMint: s.address(),
+    amount: s.describe(uiAmount, "Input amount in ui units"),
+    ...rpcQuery,
+  },
+  response: s.object({
+    inputMint: s.string(),
+    outputMint: s.string(),
+    rpc: rpcMeta,
+    best: poolQuote,
+    routes: s.array(poolQuote),
+    note: s.string(),
+  }),
+  otherResponses: { 404: "No constant-product pool between the mints" },
+});
+
+const priceHistory = defineRoute({
+  method: "get",
+  path: "/api/price-history",
+  tag: "market",
+  cost: (req) => (isOn(req.query.backfill) ? 20 : 1),
+  summary: "OHLCV candles of a token from the local price recorder",
+  description: `Candles come from samples of the main pool (SOL or stablecoin, constant-product): reserve samples from the recorder (PRICE_RECORDER_MINTS) and swaps from backfill=1, which parses the last ${PRICE_BACKFILL_MAX_TXS} pool transactions. Columns follow the UDF datafeed format (unix seconds); prices are in the quote token of the pool. Max ${PRICE_MAX_CANDLES} candles per request.`,
+  query: {
+    mint: s.address(),
+    interval: s.withDefault(
+      s.enumOf(Object.keys(PRICE_INTERVALS) as PriceInterval[]),
+      "1h"
+    ),
+    from: s.describe(
+      s.optional(timestamp),
+      `Default ${PRICE_DEFAULT_CANDLES} intervals before to`
+    ),
+    to: s.describe(s.optional(timestamp), "Default now, exclusive"),
+    backfill: s.describe(
+      s.withDefault(s.flag(), false),
+      "1 first adds swaps from recent transactions of the main pool"
+    ),
+    ...rpcQuery,
+  },
+  response: s.object({
+    mint: s.string(),
+    rpc: rpcMeta,
+    interval: s.string(),
+    from: s.string(),
+    to: s.string(),
+    pool: s.nullable(s.string()),
+    quoteMint: s.nullable(s.string()),
+    // staat de mint in PRICE_RECORDER_MINTS
+    recording: s.boolean(),
+    samples: s.number(),
+    backfill: s.nullable(
+      s.object({
+        signatures: s.number(),
+        swaps: s.number(),
+        added: s.number(),
+      })
+    ),
+    s: s.enumOf(["ok", "no_data"]),
+    t: s.optional(s.array(s.number())),
+    o: s.optional(s.array(s.number())),
+    h: s.optional(s.array(s.number())),
+    l: s.optional(s.array(s.number())),
+    c: s.optional(s.array(s.number())),
+    v: s.optional(s.array(s.number())),
+    nextTime: s.optional(s.number()),
+    note: s.string(),
+  }),
+});
+
+const insiderAnalysis = defineRoute({
+  method: "get",
+  path: "/api/insider-analysis",
+  tag: "holders",
+  cost: 50,
+  summary:
+    "Creator, mint recipients and launch snipers of a token and where their tokens went",
+  description: `Uses the token history to find insiders (max ${INSIDER_MAX_WALLETS}), then traces their recent transactions: still held, sold on a DEX or sent to fresh wallets. Snipers are buyers found through the mint and the pool account; they are left out when the token history is incomplete, and snipersComplete is false when the pool account could not be walked back to the launch (see note).`,
+  query: {
+    mint: s.address(),
+    slots: s.describe(
+      s.withDefault(
+        s.number({ integer: true, min: 0, max: LAUNCH_WINDOW_MAX_SLOTS }),
+        INSIDER_DEFAULT_WINDOW_SLOTS
+      ),
+      "Buyers within this many slots after the first pool transaction count as snipers"
+    ),
+    ...rpcQuery,
+  },
+  response: s.object({
+    mint: s.string(),
+    rpc: rpcMeta,
+    cache: cacheMeta,
+    launch: s.nullable(
+      s.object({
+        // eerste pool transactie
+        signature: s.string(),
+        kind: poolKind,
+        pool: s.nullable(s.string()),
+        slot: s.number(),
+        blockTime: s.nullable(s.number()),
+        windowSlots: s.number(),
+      })
+    ),
+    insiders: s.typed<InsiderReport[]>({
+      type: "array",
+      items: { type: "object" },
+    }),
+    freshWallets: s.array(
+      s.object({
+        address: s.string(),
+        currentRaw: s.string(),
+        current: s.string(),
+      })
+    ),
+    summary: s.object({
+      insiderCount: s.number(),
+      insiderPct: s.describe(
+        s.number(),
+        "Current holdings of insiders and the fresh wallets they funded, % of supply"
+      ),
+      insiderHeldPct: s.number(),
+      freshWalletPct: s.number(),
+      soldCount: s.number(),
+      creatorSold: s.nullable(s.boolean()),
+    }),
+    concentration: s.nullable(concentration),
+    concentrationExcludingInfrastructure: s.nullable(concentration),
+    historyComplete: s.boolean(),
+    snipersComplete: s.describe(
+      s.boolean(),
+      "false = buys in the launch window may be missing from the snipers"
+    ),
+    note: s.string(),
+  }),
+  otherResponses: { 404: "Mint account not found" },
+});
+
+const holderInfo = defineRoute({
+  method: "get",
+  path: "/api/holder-info",
+  tag: "holders",
+  cost: (req) =>
+    (req.query.scan === "full" ? 50 : 5) + (isOn(req.query.clusters) ? 25 : 0),
+  summary:
+    "Top holders and concentration, from the largest accounts or a full scan",
+  description:
+    "With clusters=1 the top holders are grouped by the wallet that first funded them with SOL (up to clusterDepth hops back) or sent them the token, and concentration is reported per cluster.",
+  query: {
+    mint: s.address(),
+    min: s.describe(
+      s.withDefault(s.number({ min: 0 }), 0),
+      "Minimum ui amount per holder"
+    ),
+    limit: s.withDefault(s.number({ integer: true, min: 1 }), 50),
+    scan: s.withDefault(s.enumOf(["largest", "full"]), "largest"),
+    clusters: s.describe(
+      s.withDefault(s.flag(), false),
+      "1 groups the top holders by shared funding source"
+    ),
+    clusterHolders: s.describe(
+      s.withDefault(
+        s.number({ integer: true, min: 2, max: CLUSTER_MAX_HOLDERS }),
+        CLUSTER_DEFAULT_HOLDERS
+      ),
+      "Number of top holders (excluding infrastructure) to cluster"
+    ),
+    clusterDepth: s.describe(
+      s.withDefault(
+        s.number({ integer: true, min: 1, max: CLUSTER_MAX_DEPTH }),
+        1
+      ),
+      "Funding hops to follow back: 1 = direct funder, 2 = funder of the funder"
+    ),
+    ...rpcQuery,
+  },
+  response: s.object({
+    mint: s.string(),
+    rpc: rpcMeta,
+    cache: cacheMeta,
+    ...mintShape,
+    // alleen bij scan=full
+    scan: s.optional(
+      s.object({
+        mode: s.enumOf(["full"]),
+        scannedAt: s.string(),
+        durationMs: s.number(),
+        tokenAccounts: s.number(),
+        zeroBalanceAccounts: s.number(),
+      })
+    ),
+    totalHolders: s.number(),
+    holderCountExact: s.boolean(),
+    filteredCount: s.number(),
+    topCount: s.number(),
+    concentration,
+    concentrationExcludingInfrastructure: concentration,
+    infrastructurePct: s.number(),
+    distribution: s.optional(
+      s.typed<{
+        histogram: HistogramBucket[];
+        gini: number;
+        nakamoto: number | null;
+        percentiles: PercentileShare[];
+      }>({ type: "object" })
+    ),
+    holders: s.array(holderRow),
+    // alleen bij clusters=1
+    clusters: s.optional(
+      s.object({
+        depth: s.number(),
+        holdersAnalyzed: s.number(),
+        clusters: s.typed<HolderCluster[]>({
+          type: "array",
+          items: { type: "object" },
+        }),
+        clusteredPct: s.describe(
+          s.number(),
+          "% of supply held by clusters of two or more wallets"
+        ),
+        // top 1/5/10 met elk cluster als één holder
+        concentration,
+        holders: s.typed<ClusterHolder[]>({
+          type: "array",
+          items: { type: "object" },
+        }),
+        complete: s.boolean(),
+      })
+    ),
+    note: s.string(),
+  }),
+  otherResponses: {
+    202: "Full scan still running, retry later (Retry-After header)",
+    404: "Mint account not found",
+  },
+});
+
+const whaleTracker = defineRoute({
+  method: "get",
+  path: "/api/whale-tracker",
+  tag: "holders",
+  cost: 5,
+  summary: "Largest holders above a percentage of supply",
+  query: {
+    mint: s.address(),
+    minPct: s.withDefault(s.number({ min: 0, max: 100 }), 1),
+    limit: s.withDefault(s.number({ integer: true, min: 1 }), 20),
+    excludeInfrastructure: s.describe(
+      s.withDefault(s.flag(), false),
+      "1 leaves out pool vaults, exchanges and burn addresses"
+    ),
+    ...rpcQuery,
+  },
+  response: s.object({
+    mint: s.string(),
+    rpc: rpcMeta,
+    cache: cacheMeta,
+    ...mintShape,
+    minPct: s.number(),
+    excludeInfrastructure: s.boolean(),
+    concentration,
+    concentrationExcludingInfrastructure: concentration,
+    infrastructurePct: s.number(),
+    whales: s.array(holderRow),
+    note: s.string(),
+  }),
+  otherResponses: { 404: "Mint account not found" },
+});
+
+const whaleSnapshot = defineRoute({
+  method: "post",
+  path: "/api/whale-tracker/snapshot",
+  tag: "holders",
+  cost: 5,
+  summary: "Store a snapshot of the largest holders of a mint",
+  description: "mint can be given in the body or as query param",
+  query: { mint: s.optional(s.address()), commitment },
+  body: { mint: s.optional(s.address()), commitment },
+  response: s.object({
+    mint: s.string(),
+    rpc: rpcMeta,
+    takenAt: s.string(),
+    holders: s.number(),
+    snapshots: s.number(),
+  }),
+});
+
+const whaleChanges = defineRoute({
+  method: "get",
+  path: "/api/whale-tracker/changes",
+  tag: "holders",
+  cost: (req) => (isOn(req.query.refresh) ? 5 : 1),
+  summary: "New, exited and changed whales between two snapshots",
+  query: {
+    mint: s.address(),
+    since: s.optional(timestamp),
+    minPct: s.withDefault(s.number({ min: 0, max: 100 }), 1),
+    refresh: s.describe(
+      s.withDefault(s.flag(), false),
+      "1 takes a new snapshot first"
+    ),
+    commitment,
+  },
+  response: s.typed<
+    SnapshotDiff & {
+      mint: string;
+      rpc: RouteRpcMeta;
+      since: string | null;
+      snapshots: number;
+      note: string;
+    }
+  >({ type: "object" }),
+  otherResponses: { 404: "Not enough snapshots for this mint" },
+});
+
+const rpcStatus = defineRoute({
+  method: "get",
+  path: "/api/rpc-status",
+  tag: "status",
+  summary: "Health per RPC endpoint (labels only)",
+  query: {
+    check: s.describe(
+      s.withDefault(s.flag(), false),
+      "1 runs a health check first"
+    ),
+  },
+  response: s.object({
+    defaultCommitment: s.string(),
+    healthy: s.number(),
+    total: s.number(),
+    endpoints: s.typed<RpcEndpointStatus[]>({
+      type: "array",
+      items: { type: "object" },
+    }),
+  }),
+});
+
+const webhookCondition = s.custom<WebhookCondition>(
+  {
+    type: "object",
+    description:
+      "{ type: liquidity-below, mint, thresholdUsd, dexes? } | { type: whale-move, mint, minPctOfSupply } | { type: mint-authority-change, mint } | { type: wallet-balance-change, address, mint?, minDelta? }",
+  },
+  (value, field) => {
+    const parsed = parseWebhookCondition(value);
+    return parsed.ok
+      ? { ok: true, value: parsed.condition }
+      : { ok: false, error: parsed.error, field };
+  }
+);
+
+const webhookUrl = s.custom<string>(
+  { type: "string", format: "uri" },
+  (value, field) =>
+    isWebhookUrl(value)
+      ? { ok: true, value }
+      : { ok: false, error: `${field} must be an http(s) URL`, field }
+);
+
+const webhookId = { id: s.string() };
+
+const createWebhook = defineRoute({
+  method: "post",
+  path: "/api/webhooks",
+  tag: "webhooks",
+  cost: 5,
+  summary: "Subscribe a URL to a condition; deliveries are HMAC signed",
+  body: {
+    url: s.describe(
+      webhookUrl,
+      "Must resolve to a public address; loopback, private and link-local targets are rejected"
+    ),
+    condition: webhookCondition,
+    secret: s.describe(
+      s.optional(s.string({ minLength: 16 })),
+      "Generated when omitted; only returned in this response"
+    ),
+  },
+  status: 201,
+  response: s.object({
+    id: s.string(),
+    owner: s.nullable(s.string()),
+    url: s.string(),
+    condition: s.typed<WebhookCondition>({ type: "object" }),
+    createdAt: s.string(),
+    state: s.typed<any>(),
+    lastEvaluatedAt: s.nullable(s.string()),
+    lastError: s.nullable(s.string()),
+    secret: s.string(),
+    evaluationIntervalMs: s.number(),
+    signature: s.object({ header: s.string(), scheme: s.string() }),
+  }),
+});
+
+const listWebhooks = defineRoute({
+  method: "get",
+  path: "/api/webhooks",
+  tag: "webhooks",
+  summary: "Your webhook subscriptions (without secrets)",
+  description:
+    "Only subscriptions created with the same API key (or, without a key, from the same IP) are listed and can be managed; admin keys see all of them.",
+  response: s.object({
+    count: s.number(),
+    webhooks: s.array(webhookSubscription),
+  }),
+});
+
+const getWebhook = defineRoute({
+  method: "get",
+  path: "/api/webhooks/:id",
+  tag: "webhooks",
+  summary: "One webhook subscription (without secret)",
+  params: webhookId,
+  response: webhookSubscription,
+  otherResponses: { 404: "Webhook not found" },
+});
+
+const deleteWebhook = defineRoute({
+  method: "delete",
+  path: "/api/webhooks/:id",
+  tag: "webhooks",
+  summary: "Remove a webhook subscription",
+  params: webhookId,
+  response: s.object({ id: s.string(), deleted: s.boolean() }),
+  otherResponses: { 404: "Webhook not found" },
+});
+
+const webhookDeliveries = defineRoute({
+  method: "get",
+  path: "/api/webhooks/:id/deliveries",
+  tag: "webhooks",
+  summary: "Most recent deliveries with their attempts",
+  params: webhookId,
+  query: {
+    limit: s.withDefault(s.number({ integer: true, min: 1, max: 500 }), 50),
+  },
+  response: s.object({
+    id: s.string(),
+    count: s.number(),
+    deliveries: s.typed<WebhookDelivery[]>({
+      type: "array",
+      items: { type: "object" },
+    }),
+  }),
+  otherResponses: { 404: "Webhook not found" },
+});
+
+const testWebhook = defineRoute({
+  method: "post",
+  path: "/api/webhooks/:id/test",
+  tag: "webhooks",
+  summary: "Send a ping delivery",
+  params: webhookId,
+  status: 202,
+  response: s.object({
+    id: s.string(),
+    deliveryId: s.string(),
+    status: s.enumOf(["pending", "delivered", "failed"]),
+  }),
+  otherResponses: { 404: "Webhook not found" },
+});
+
+const stream = defineRoute({
+  method: "get",
+  path: "/api/stream",
+  tag: "stream",
+  cost: (req) =>
+    5 + perItems(req.query.wallets, 1) + perItems(req.query.mints, 1),
+  summary: "Live wallet / mint updates as Server-Sent Events",
+  description:
+    "Events: wallet (wallet-info shape), mint (token-info shape) and stream-error. A WebSocket variant is at /api/stream/ws. Since EventSource cannot set headers, both accept the API key as ?apiKey=; other routes reject it there.",
+  query: {
+    wallets: s.withDefault(s.list(s.address(), { max: STREAM_MAX_KEYS }), []),
+    mints: s.withDefault(s.list(s.address(), { max: STREAM_MAX_KEYS }), []),
+  },
+  contentType: "text/event-stream",
+  response: s.typed<string>({ type: "string" }),
+});
+
+const clientUsage = component(
+  "ClientUsage",
+  s.nullable(
+    s.object({
+      requests: s.number(),
+      cost: s.describe(s.number(), "Tokens spent on allowed requests"),
+      limited: s.describe(s.number(), "Requests rejected with a 429"),
+      firstSeenAt: s.string(),
+      lastSeenAt: s.string(),
+      routes: s.record(s.number()),
+    })
+  )
+);
+
+const adminUsage = defineRoute({
+  method: "get",
+  path: "/api/admin/usage",
+  tag: "admin",
+  summary: "Usage and rate limits per API key (admin key only)",
+  admin: true,
+  response: s.object({
+    auth: s.enumOf(["optional", "required"]),
+    keys: s.array(
+      s.object({
+        id: s.string(),
+        name: s.string(),
+        admin: s.boolean(),
+        ratePerMinute: s.number(),
+        burst: s.number(),
+        origins: s.nullable(s.array(s.string())),
+        usage: clientUsage,
+      })
+    ),
+    // alle anonieme clients samen; de limiet geldt per IP
+    anonymous: s.object({
+      ratePerMinute: s.number(),
+      burst: s.number(),
+      usage: clientUsage,
+    }),
+  }),
+});
+
+type RouteRpcMeta = { commitment: Commitment; endpoints: string[] };
+
+export const apiRoutes = {
+  walletInfo,
+  walletHistory,
+  walletAudit,
+  tokenInfo: tokenInfoRoute,
+  tokenHistory,
+  batchWalletInfo,
+  batchTokenInfo,
+  cbsMetrics,
+  tokenSafetyCheck,
+  lpStatus,
+  quote,
+  priceHistory,
+  holderInfo,
+  insiderAnalysis,
+  whaleTracker,
+  whaleSnapshot,
+  whaleChanges,
+  rpcStatus,
+  createWebhook,
+  listWebhooks,
+  getWebhook,
+  deleteWebhook,
+  webhookDeliveries,
+  testWebhook,
+  stream,
+  adminUsage,
+};
+
+export const API_ROUTE_LIST: ApiRoute[] = Object.values(apiRoutes);
+
+// -----------------------------------------------------------------------------
+// Response types voor clients (import type { ... } from "lib/api-routes")
+// -----------------------------------------------------------------------------
+
+export type WalletInfoResponse = RouteResponse<typeof walletInfo>;
+export type WalletHistoryResponse = RouteResponse<typeof walletHistory>;
+export type WalletAuditResponse = RouteResponse<typeof walletAudit>;
+export type TokenInfoResponse = RouteResponse<typeof tokenInfoRoute>;
+export type TokenHistoryResponse = RouteResponse<typeof tokenHistory>;
+export type BatchWalletInfoResponse = RouteResponse<typeof batchWalletInfo>;
+export type BatchTokenInfoResponse = RouteResponse<typeof batchTokenInfo>;
+export type CbsMetricsResponse = RouteResponse<typeof cbsMetrics>;
+export type TokenSafetyCheckResponse = RouteResponse<typeof tokenSafetyCheck>;
+export type LpStatusResponse = RouteResponse<typeof lpStatus>;
+export type QuoteResponse = RouteResponse<typeof quote>;
+export type PriceHistoryResponse = RouteResponse<typeof priceHistory>;
+export type HolderInfoResponse = RouteResponse<typeof holderInfo>;
+export type InsiderAnalysisResponse = RouteResponse<typeof insiderAnalysis>;
+export type WhaleTrackerResponse = RouteResponse<typeof whaleTracker>;
+export type WhaleSnapshotResponse = RouteResponse<typeof whaleSnapshot>;
+export type WhaleChangesResponse = RouteResponse<typeof whaleChanges>;
+export type RpcStatusResponse = RouteResponse<typeof rpcStatus>;
+export type CreateWebhookResponse = RouteResponse<typeof createWebhook>;
+export type ListWebhooksResponse = RouteResponse<typeof listWebhooks>;
+export type WebhookResponse = RouteResponse<typeof getWebhook>;
+export type DeleteWebhookResponse = RouteResponse<typeof deleteWebhook>;
+export type WebhookDeliveriesResponse = RouteResponse<typeof webhookDeliveries>;
+export type TestWebhookResponse = RouteResponse<typeof testWebhook>;
+export type AdminUsageResponse = RouteResponse<typeof adminUsage>;
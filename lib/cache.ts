@@ -0,0 +1,316 @@
+// -----------------------------------------------------------------------------
+// Response cache: TTL per datatype, request coalescing, verwisselbare backend
+// -----------------------------------------------------------------------------
+
+export type CacheEntry<T = any> = {
+  value: T;
+  cachedAt: number;
+};
+
+export interface CacheBackend {
+  name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// -----------------------------------------------------------------------------
+// In-memory backend (default, ook voor tests)
+// -----------------------------------------------------------------------------
+
+export function createMemoryBackend(maxEntries = 5000): CacheBackend {
+  const store = new Map<string, { entry: CacheEntry; expiresAt: number }>();
+
+  return {
+    name: "memory",
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+      const hit = store.get(key);
+      if (!hit) return null;
+      if (hit.expiresAt <= Date.now()) {
+        store.delete(key);
+        return null;
+      }
+      return hit.entry as CacheEntry<T>;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number) {
+      // opnieuw invoegen zodat de Map-volgorde de oudste eerst houdt
+      store.delete(key);
+      store.set(key, { entry, expiresAt: Date.now() + ttlMs });
+      while (store.size > maxEntries) {
+        const oldest = store.keys().next().value;
+        if (oldest === undefined) break;
+        store.delete(oldest);
+      }
+    },
+    async delete(key: string) {
+      store.delete(key);
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Redis-compatibele backend (voor meerdere instances achter een load balancer)
+// -----------------------------------------------------------------------------
+
+/** Het deel van een ioredis / node-redis client dat we nodig hebben. */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: "PX", ttlMs: number): Promise<any>;
+  del(key: string): Promise<any>;
+}
+
+export function createRedisBackend(
+  client: RedisLikeClient,
+  prefix = "solana-tools-api:"
+): CacheBackend {
+  return {
+    name: "redis",
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+      const raw = await client.get(prefix + key);
+      return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number) {
+      await client.set(prefix + key, JSON.stringify(entry), "PX", ttlMs);
+    },
+    async delete(key: string) {
+      await client.del(prefix + key);
+    },
+  };
+}
+
+/**
+ * Kiest de backend via CACHE_BACKEND (memory | redis). Voor redis moet
+ * `ioredis` geïnstalleerd zijn en REDIS_URL gezet.
+ */
+export function createCacheBackendFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): CacheBackend {
+  const kind = (env.CACHE_BACKEND || "memory").toLowerCase();
+  if (kind === "memory") {
+    return createMemoryBackend(Number(env.CACHE_MAX_ENTRIES || 5000));
+  }
+  if (kind === "redis") {
+    if (!env.REDIS_URL) {
+      throw new Error("REDIS_URL must be set when CACHE_BACKEND=redis");
+    }
+    let Redis: any;
+    try {
+      // optionele dependency, alleen nodig voor de redis backend
+      Redis = require("ioredis");
+    } catch {
+      throw new Error("CACHE_BACKEND=redis requires the ioredis package");
+    }
+    return createRedisBackend(new Redis(env.REDIS_URL));
+  }
+  throw new Error(`Unknown cache backend: ${kind}`);
+}
+
+// -----------------------------------------------------------------------------
+// Cache met TTL per datatype + coalescing van gelijktijdige requests
+// -----------------------------------------------------------------------------
+
+export type CacheKind =
+  | "mint"
+  | "largest"
+  | "pairs"
+  | "pools"
+  | "holders"
+  | "owners"
+  | "history"
+  | "funding";
+
+export const CACHE_TTLS_MS: Record<CacheKind, number> = {
+  mint: Number(process.env.CACHE_TTL_MINT_MS || 60_000),
+  largest: Number(process.env.CACHE_TTL_LARGEST_MS || 30_000),
+  pairs: Number(process.env.CACHE_TTL_PAIRS_MS || 20_000),
+  // on-chain reserves: 6 getProgramAccounts scans per mint
+  pools: Number(process.env.CACHE_TTL_POOLS_MS || 20_000),
+  // volledige holder scans zijn duur, die mogen langer mee
+  holders: Number(process.env.CACHE_TTL_HOLDERS_MS || 600_000),
+  owners: Number(process.env.CACHE_TTL_OWNERS_MS || 3_600_000),
+  // token historie loopt duizenden signatures af
+  history: Number(process.env.CACHE_TTL_HISTORY_MS || 300_000),
+  // de eerste funding van een wallet verandert niet meer
+  funding: Number(process.env.CACHE_TTL_FUNDING_MS || 86_400_000),
+};
+
+export type Cached<T> = {
+  value: T;
+  cachedAt: number;
+  ageMs: number;
+  hit: boolean;
+};
+
+export type CacheMeta = {
+  backend: string;
+  // tijdstip van de oudste gebruikte bron
+  cachedAt: string;
+  ageMs: number;
+  hits: number;
+  misses: number;
+};
+
+export function createCache(
+  backend: CacheBackend,
+  ttls: Record<CacheKind, number> = CACHE_TTLS_MS
+) {
+  const inflight = new Map<string, Promise<CacheEntry<any>>>();
+
+  /**
+   * Geeft de gecachte waarde voor `kind:key`, of haalt hem op met `fn`.
+   * Gelijktijdige aanvragen voor dezelfde key delen één upstream call.
+   * Met `fresh` wordt de cache overgeslagen (maar wel bijgewerkt).
+   */
+  async function wrap<T>(
+    kind: CacheKind,
+    key: string,
+    fn: () => Promise<T>,
+    opts: { fresh?: boolean } = {}
+  ): Promise<Cached<T>> {
+    const fullKey = `${kind}:${key}`;
+
+    if (!opts.fresh) {
+      try {
+        const entry = await backend.get<T>(fullKey);
+        if (entry) {
+          return {
+            value: entry.value,
+            cachedAt: entry.cachedAt,
+            ageMs: Date.now() - entry.cachedAt,
+            hit: true,
+          };
+        }
+      } catch (e: any) {
+        // een kapotte cache mag de API niet breken
+        console.error("cache get error:", e?.message || e);
+      }
+    }
+
+    let pending = inflight.get(fullKey);
+    if (!pending) {
+      pending = (async () => {
+        const entry: CacheEntry<T> = {
+          value: await fn(),
+          cachedAt: Date.now(),
+        };
+        try {
+          await backend.set(fullKey, entry, ttls[kind]);
+        } catch (e: any) {
+          console.error("cache set error:", e?.message || e);
+        }
+        return entry;
+      })().finally(() => inflight.delete(fullKey));
+      inflight.set(fullKey, pending);
+    }
+
+    const entry = await pending;
+    return {
+      value: entry.value as T,
+      cachedAt: entry.cachedAt,
+      ageMs: Date.now() - entry.cachedAt,
+      hit: false,
+    };
+  }
+
+  /**
+   * Zoals `wrap`, maar voor veel keys tegelijk: alle misses worden samen in
+   * één `fn` call opgehaald. Keys die `fn` niet teruggeeft (of die falen)
+   * ontbreken in het resultaat en worden niet gecachet.
+   */
+  async function wrapMany<T>(
+    kind: CacheKind,
+    keys: string[],
+    fn: (keys: string[]) => Promise<Map<string, T>>,
+    opts: { fresh?: boolean } = {}
+  ): Promise<Map<string, Cached<T>>> {
+    const out = new Map<string, Cached<T>>();
+    const misses: string[] = [];
+
+    for (const key of Array.from(new Set(keys))) {
+      if (!opts.fresh) {
+        try {
+          const entry = await backend.get<T>(`${kind}:${key}`);
+          if (entry) {
+            out.set(key, {
+              value: entry.value,
+              cachedAt: entry.cachedAt,
+              ageMs: Date.now() - entry.cachedAt,
+              hit: true,
+            });
+            continue;
+          }
+        } catch (e: any) {
+          console.error("cache get error:", e?.message || e);
+        }
+      }
+      misses.push(key);
+    }
+
+    // keys die al door een ander request opgehaald worden, wachten daarop
+    const pendingByKey = new Map<string, Promise<CacheEntry<any>>>();
+    const toFetch: string[] = [];
+    for (const key of misses) {
+      const pending = inflight.get(`${kind}:${key}`);
+      if (pending) pendingByKey.set(key, pending);
+      else toFetch.push(key);
+    }
+
+    if (toFetch.length > 0) {
+      const batch = fn(toFetch);
+      for (const key of toFetch) {
+        const fullKey = `${kind}:${key}`;
+        const pending = batch
+          .then(async (values) => {
+            if (!values.has(key)) throw new Error(`No value for ${fullKey}`);
+            const entry: CacheEntry<T> = {
+              value: values.get(key)!,
+              cachedAt: Date.now(),
+            };
+            try {
+              await backend.set(fullKey, entry, ttls[kind]);
+            } catch (e: any) {
+              console.error("cache set error:", e?.message || e);
+            }
+            return entry;
+          })
+          .finally(() => inflight.delete(fullKey));
+        inflight.set(fullKey, pending);
+        pendingByKey.set(key, pending);
+      }
+    }
+
+    const keysPending = Array.from(pendingByKey.keys());
+    const settled = await Promise.allSettled(
+      keysPending.map((key) => pendingByKey.get(key)!)
+    );
+    settled.forEach((s, idx) => {
+      if (s.status !== "fulfilled") return;
+      out.set(keysPending[idx], {
+        value: s.value.value as T,
+        cachedAt: s.value.cachedAt,
+        ageMs: Date.now() - s.value.cachedAt,
+        hit: false,
+      });
+    });
+
+    return out;
+  }
+
+  /** Vat de cache-info van alle gebruikte bronnen samen voor de response. */
+  function meta(parts: Cached<any>[]): CacheMeta {
+    const cachedAt = parts.length
+      ? Math.min(...parts.map((p) => p.cachedAt))
+      : Date.now();
+    return {
+      backend: backend.name,
+      cachedAt: new Date(cachedAt).toISOString(),
+      ageMs: Date.now() - cachedAt,
+      hits: parts.filter((p) => p.hit).length,
+      misses: parts.filter((p) => !p.hit).length,
+    };
+  }
+
+  return { wrap, wrapMany, meta, backend };
+}
+
+export type ResponseCache = ReturnType<typeof createCache>;
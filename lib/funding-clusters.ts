@@ -0,0 +1,412 @@
+import {
+  Connection,
+  Finality,
+  ParsedTransactionWithMeta,
+  PublicKey,
+} from "@solana/web3.js";
+import { Concentration, concentrationOf } from "./holders";
+import { SELL_VENUES } from "./insiders";
+import { mintDeltasByOwner } from "./token-history";
+import { PARSED_TX_CHUNK, flattenInstructions } from "./wallet-history";
+import { mapWithConcurrency } from "./rpc-batch";
+import { formatUnits, pctOf, sumRaw } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Funding clusters: top holders groeperen op wie ze met SOL financierde of
+// van wie ze de tokens kregen (gebundelde wallets van één partij)
+// -----------------------------------------------------------------------------
+
+export const CLUSTER_DEFAULT_HOLDERS = 20;
+export const CLUSTER_MAX_HOLDERS = Number(
+  process.env.CLUSTER_MAX_HOLDERS || 50
+);
+export const CLUSTER_MAX_DEPTH = 3;
+
+// zoveel pagina's van 1000 signatures zoeken we terug naar de eerste
+// transactie; wallets met meer historie gelden als "druk" (exchange e.d.)
+const FUNDING_MAX_PAGES = Number(process.env.FUNDING_MAX_PAGES || 3);
+const SIGNATURE_PAGE = 1000;
+// max aantal wallets dat we per request opzoeken, over alle niveaus
+const FUNDING_MAX_LOOKUPS = Number(process.env.FUNDING_MAX_LOOKUPS || 150);
+const FUNDING_CONCURRENCY = Number(process.env.FUNDING_CONCURRENCY || 4);
+
+const SYSTEM_FUNDING_TYPES = [
+  "transfer",
+  "transferWithSeed",
+  "createAccount",
+  "createAccountWithSeed",
+];
+
+export type TokenSource = {
+  mint: string;
+  from: string;
+  signature: string;
+};
+
+export type WalletOrigin = {
+  wallet: string;
+  // afzender van de eerste inkomende SOL transfer
+  funder: string | null;
+  fundingSignature: string | null;
+  fundingSlot: number | null;
+  fundingBlockTime: number | null;
+  // tokens die de wallet in zijn eerste transacties van een andere wallet
+  // kreeg (geen DEX swap)
+  tokenSources: TokenSource[];
+  // false = meer dan FUNDING_MAX_PAGES pagina's historie, eerste tx niet gezien
+  complete: boolean;
+};
+
+/**
+ * Eerste SOL funding en token afzenders uit de (chronologisch gesorteerde)
+ * eerste transacties van een wallet. Puur, werkt op opgenomen JSON.
+ */
+export function originFromTransactions(
+  wallet: string,
+  txs: ParsedTransactionWithMeta[]
+): Omit<WalletOrigin, "complete"> {
+  const origin: Omit<WalletOrigin, "complete"> = {
+    wallet,
+    funder: null,
+    fundingSignature: null,
+    fundingSlot: null,
+    fundingBlockTime: null,
+    tokenSources: [],
+  };
+
+  for (const tx of txs) {
+    if (tx.meta?.err) continue;
+    const signature = tx.transaction.signatures[0];
+    const instructions = flattenInstructions(tx);
+
+    if (!origin.funder) {
+      const funding = instructions.find(
+        (ix) =>
+          ix.program === "system" &&
+          SYSTEM_FUNDING_TYPES.includes(ix.type ?? "") &&
+          (ix.info?.destination ?? ix.info?.newAccount) === wallet &&
+          ix.info?.source !== wallet &&
+          Number(ix.info?.lamports ?? 0) > 0
+      );
+      if (funding) {
+        origin.funder = funding.info.source;
+        origin.fundingSignature = signature;
+        origin.fundingSlot = tx.slot;
+        origin.fundingBlockTime = tx.blockTime ?? null;
+      }
+    }
+
+    // een swap via een DEX is een aankoop, geen transfer van een wallet
+    if (instructions.some((ix) => SELL_VENUES[ix.programId])) continue;
+    const received = new Set(
+      (tx.meta?.postTokenBalances || [])
+        .filter((b) => b.owner === wallet)
+        .map((b) => b.mint)
+    );
+    for (const mint of Array.from(received)) {
+      const deltas = mintDeltasByOwner(tx, mint);
+      if ((deltas.get(wallet) ?? 0n) <= 0n) continue;
+      for (const [from, delta] of Array.from(deltas.entries())) {
+        if (from !== wallet && delta < 0n) {
+          origin.tokenSources.push({ mint, from, signature });
+        }
+      }
+    }
+  }
+  return origin;
+}
+
+/**
+ * Bladert terug naar de eerste transacties van een wallet en parset de
+ * oudste PARSED_TX_CHUNK daarvan. Gebundelde wallets zijn vers, dus de
+ * funding en de token transfer zitten daar vrijwel altijd in.
+ */
+export async function fetchWalletOrigin(
+  connection: Connection,
+  wallet: string
+): Promise<WalletOrigin> {
+  const finality: Finality =
+    connection.commitment === "finalized" ? "finalized" : "confirmed";
+  const address = new PublicKey(wallet);
+
+  let oldest: { signature: string; err: any }[] = [];
+  let before: string | undefined;
+  let complete = false;
+  for (let page = 0; page < FUNDING_MAX_PAGES; page++) {
+    const sigs = await connection.getSignaturesForAddress(
+      address,
+      { before, limit: SIGNATURE_PAGE },
+      finality
+    );
+    if (sigs.length > 0) {
+      oldest = sigs;
+      before = sigs[sigs.length - 1].signature;
+    }
+    if (sigs.length < SIGNATURE_PAGE) {
+      complete = true;
+      break;
+    }
+  }
+
+  if (!complete) {
+    return {
+      ...originFromTransactions(wallet, []),
+      complete,
+    };
+  }
+
+  const first = oldest
+    .filter((s) => !s.err)
+    .reverse()
+    .slice(0, PARSED_TX_CHUNK);
+  const txs = await connection.getParsedTransactions(
+    first.map((s) => s.signature),
+    { commitment: finality, maxSupportedTransactionVersion: 0 }
+  );
+  return {
+    ...originFromTransactions(
+      wallet,
+      txs.filter((tx): tx is ParsedTransactionWithMeta => tx !== null)
+    ),
+    complete,
+  };
+}
+
+/**
+ * De `count` grootste owners; holder rijen per token account worden eerst
+ * per owner opgeteld.
+ */
+export function topOwners(
+  holders: { owner: string; amountRaw: string }[],
+  count: number
+): { owner: string; amountRaw: string }[] {
+  const byOwner = new Map<string, bigint>();
+  for (const h of holders) {
+    byOwner.set(h.owner, (byOwner.get(h.owner) ?? 0n) + BigInt(h.amountRaw));
+  }
+  return Array.from(byOwner.entries())
+    .sort(([, a], [, b]) => (b > a ? 1 : b < a ? -1 : 0))
+    .slice(0, count)
+    .map(([owner, amount]) => ({ owner, amountRaw: amount.toString() }));
+}
+
+export async function fetchWalletOrigins(
+  connection: Connection,
+  wallets: string[]
+): Promise<Map<string, WalletOrigin>> {
+  const origins = await mapWithConcurrency(
+    wallets,
+    FUNDING_CONCURRENCY,
+    (wallet) => fetchWalletOrigin(connection, wallet)
+  );
+  return new Map(origins.map((o) => [o.wallet, o]));
+}
+
+/**
+ * Origins van de holders en hun funders tot `depth` niveaus terug, plus
+ * één niveau extra zodat we weten of de bovenste funders "druk" zijn.
+ * `lookup` haalt een batch op (in server.ts via de cache).
+ */
+export async function collectOrigins(
+  wallets: string[],
+  mint: string,
+  depth: number,
+  lookup: (wallets: string[]) => Promise<Map<string, WalletOrigin>>
+): Promise<{ origins: Map<string, WalletOrigin>; truncated: boolean }> {
+  const origins = new Map<string, WalletOrigin>();
+  let level = Array.from(new Set(wallets));
+  let truncated = false;
+
+  for (let i = 0; i <= depth && level.length > 0; i++) {
+    const room = FUNDING_MAX_LOOKUPS - origins.size;
+    if (level.length > room) truncated = true;
+    if (room <= 0) break;
+    const batch = await lookup(level.slice(0, room));
+    for (const [wallet, origin] of Array.from(batch.entries())) {
+      origins.set(wallet, origin);
+    }
+
+    const next = new Set<string>();
+    for (const origin of Array.from(batch.values())) {
+      const linked = [
+        origin.funder,
+        // token afzenders alleen vanaf de holders zelf
+        ...(i === 0
+          ? origin.tokenSources
+              .filter((t) => t.mint === mint)
+              .map((t) => t.from)
+          : []),
+      ];
+      for (const address of linked) {
+        if (address && !origins.has(address)) next.add(address);
+      }
+    }
+    level = Array.from(next);
+  }
+  return { origins, truncated };
+}
+
+export type FundingLink = {
+  address: string;
+  kind: "funder" | "token-source";
+  // 1 = directe funder, 2 = funder van de funder, ...
+  level: number;
+};
+
+export type ClusterHolder = {
+  owner: string;
+  amountRaw: string;
+  funder: string | null;
+  fundingSlot: number | null;
+  fundingBlockTime: number | null;
+  links: FundingLink[];
+  // index in `clusters`, null = geen gedeelde bron gevonden
+  cluster: number | null;
+  complete: boolean;
+};
+
+export type HolderCluster = {
+  id: number;
+  wallets: string[];
+  // adressen die de wallets verbinden (gedeelde funder of token afzender)
+  sharedVia: string[];
+  amountRaw: string;
+  amount: string;
+  percentageOfSupply: number;
+};
+
+export type FundingClusterReport = {
+  depth: number;
+  holdersAnalyzed: number;
+  clusters: HolderCluster[];
+  // deel van de supply in clusters van 2+ wallets
+  clusteredPct: number;
+  // top 1/5/10 met elk cluster als één holder
+  concentration: Concentration;
+  holders: ClusterHolder[];
+  // false = niet elke wallet (of funder) kon opgezocht worden
+  complete: boolean;
+};
+
+/** Groepeert holders met een gedeelde funder of token afzender. */
+export function buildFundingClusters(
+  holders: { owner: string; amountRaw: string }[],
+  mint: string,
+  decimals: number,
+  supplyRaw: string,
+  depth: number,
+  origins: Map<string, WalletOrigin>,
+  ignored: Set<string>,
+  truncated = false
+): FundingClusterReport {
+  // exchanges, DEX'en en drukke wallets financieren duizenden wallets die
+  // niets met elkaar te maken hebben: die verbinden niets
+  const isHub = (address: string) =>
+    ignored.has(address) || !origins.get(address)?.complete;
+
+  const linksByOwner = new Map<string, FundingLink[]>();
+  for (const h of holders) {
+    const links: FundingLink[] = [];
+    let current = h.owner;
+    for (let level = 1; level <= depth; level++) {
+      const funder = origins.get(current)?.funder;
+      if (!funder || isHub(funder)) break;
+      links.push({ address: funder, kind: "funder", level });
+      current = funder;
+    }
+    for (const t of origins.get(h.owner)?.tokenSources ?? []) {
+      if (t.mint !== mint || isHub(t.from)) continue;
+      if (links.some((l) => l.address === t.from)) continue;
+      links.push({ address: t.from, kind: "token-source", level: 1 });
+    }
+    linksByOwner.set(h.owner, links);
+  }
+
+  // union-find over holders en de adressen waar ze aan hangen
+  const parent = new Map<string, string>();
+  const find = (a: string): string => {
+    let root = a;
+    while (parent.has(root) && parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(a, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(rb, ra);
+  };
+  for (const h of holders) {
+    for (const l of linksByOwner.get(h.owner)!) union(h.owner, l.address);
+  }
+
+  const groups = new Map<string, { owner: string; amountRaw: string }[]>();
+  for (const h of holders) {
+    const root = find(h.owner);
+    groups.set(root, [...(groups.get(root) ?? []), h]);
+  }
+
+  const entities = Array.from(groups.values())
+    .map((members) => ({
+      members,
+      amountRaw: sumRaw(members.map((m) => m.amountRaw)).toString(),
+    }))
+    .sort((a, b) => {
+      const diff = BigInt(b.amountRaw) - BigInt(a.amountRaw);
+      return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+    });
+
+  const clusters: HolderCluster[] = [];
+  const clusterOf = new Map<string, number>();
+  for (const e of entities) {
+    if (e.members.length < 2) continue;
+    const wallets = e.members.map((m) => m.owner);
+    // adressen die in de links van 2+ wallets zitten, of zelf een wallet
+    // uit het cluster zijn
+    const counts = new Map<string, number>();
+    for (const w of wallets) {
+      for (const l of linksByOwner.get(w)!) {
+        counts.set(l.address, (counts.get(l.address) ?? 0) + 1);
+      }
+    }
+    const sharedVia = Array.from(counts.entries())
+      .filter(([address, n]) => n >= 2 || wallets.includes(address))
+      .map(([address]) => address);
+
+    const id = clusters.length;
+    for (const w of wallets) clusterOf.set(w, id);
+    clusters.push({
+      id,
+      wallets,
+      sharedVia,
+      amountRaw: e.amountRaw,
+      amount: formatUnits(e.amountRaw, decimals),
+      percentageOfSupply: pctOf(e.amountRaw, supplyRaw),
+    });
+  }
+
+  const clusterHolders: ClusterHolder[] = holders.map((h) => {
+    const origin = origins.get(h.owner);
+    return {
+      owner: h.owner,
+      amountRaw: h.amountRaw,
+      funder: origin?.funder ?? null,
+      fundingSlot: origin?.fundingSlot ?? null,
+      fundingBlockTime: origin?.fundingBlockTime ?? null,
+      links: linksByOwner.get(h.owner)!,
+      cluster: clusterOf.get(h.owner) ?? null,
+      complete: origin?.complete ?? false,
+    };
+  });
+
+  return {
+    depth,
+    holdersAnalyzed: holders.length,
+    clusters,
+    clusteredPct: pctOf(sumRaw(clusters.map((c) => c.amountRaw)), supplyRaw),
+    concentration: concentrationOf(entities, supplyRaw),
+    holders: clusterHolders,
+    complete: !truncated && clusterHolders.every((h) => h.complete),
+  };
+}
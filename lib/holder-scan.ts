@@ -0,0 +1,291 @@
+import {
+  Connection,
+  GetProgramAccountsFilter,
+  PublicKey,
+} from "@solana/web3.js";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenProgramName,
+} from "./token-programs";
+import { Concentration, concentrationOf } from "./holders";
+import { formatUnits, pctOf, sumRaw, toUiNumber } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Volledige holder scan via getProgramAccounts (alle token accounts van een
+// mint, geaggregeerd per owner)
+// -----------------------------------------------------------------------------
+
+// SPL token account zonder extensies
+const TOKEN_ACCOUNT_SIZE = 165;
+
+// zoveel owners bewaren we in het (gecachete) resultaat
+export const SCAN_TOP_HOLDERS = 100;
+
+export type OwnerHolding = {
+  owner: string;
+  tokenAccounts: number;
+  amountRaw: string;
+  uiAmount: number;
+  uiAmountString: string;
+  percentageOfSupply: number;
+};
+
+export type HistogramBucket = {
+  label: string;
+  // grenzen in % van de supply; maxPct null = geen bovengrens
+  minPct: number;
+  maxPct: number | null;
+  holders: number;
+  pctOfSupply: number;
+};
+
+export type PercentileShare = {
+  // top X% van de holders...
+  topPct: number;
+  holders: number;
+  // ...heeft samen zoveel % van de supply
+  pctOfSupply: number;
+};
+
+export type HolderScan = {
+  mint: string;
+  program: TokenProgramName;
+  scannedAt: number;
+  durationMs: number;
+  tokenAccounts: number;
+  zeroBalanceAccounts: number;
+  // unieke owners met saldo > 0
+  holderCount: number;
+  concentration: Concentration;
+  distribution: {
+    histogram: HistogramBucket[];
+    // 0 = perfect gelijk verdeeld, 1 = één holder heeft alles
+    gini: number;
+    // minimaal aantal owners dat samen > 50% van de supply heeft
+    nakamoto: number | null;
+    percentiles: PercentileShare[];
+  };
+  topHolders: OwnerHolding[];
+};
+
+const HISTOGRAM_BOUNDS = [0.001, 0.01, 0.1, 1, 10];
+const PERCENTILES = [1, 5, 10, 25, 50];
+
+function scanFilters(
+  program: TokenProgramName,
+  mint: PublicKey
+): GetProgramAccountsFilter[] {
+  const byMint: GetProgramAccountsFilter = {
+    memcmp: { offset: 0, bytes: mint.toBase58() },
+  };
+  // Token-2022 accounts met extensies zijn groter dan 165 bytes, daar kan
+  // geen dataSize filter op; de mint memcmp is dan genoeg
+  return program === "spl-token"
+    ? [{ dataSize: TOKEN_ACCOUNT_SIZE }, byMint]
+    : [byMint];
+}
+
+export function giniOf(balancesAsc: number[]): number {
+  const n = balancesAsc.length;
+  const total = balancesAsc.reduce((acc, b) => acc + b, 0);
+  if (n === 0 || total <= 0) return 0;
+  let weighted = 0;
+  balancesAsc.forEach((b, i) => {
+    weighted += (i + 1) * b;
+  });
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+export function nakamotoOf(
+  balancesDesc: bigint[],
+  supplyRaw: bigint
+): number | null {
+  let sum = 0n;
+  for (let i = 0; i < balancesDesc.length; i++) {
+    sum += balancesDesc[i];
+    if (sum * 2n > supplyRaw) return i + 1;
+  }
+  return null;
+}
+
+function histogramOf(
+  holders: OwnerHolding[],
+  supplyRaw: bigint
+): HistogramBucket[] {
+  const edges = [0, ...HISTOGRAM_BOUNDS];
+  const buckets: HistogramBucket[] = edges.map((minPct, i) => {
+    const maxPct = i < HISTOGRAM_BOUNDS.length ? HISTOGRAM_BOUNDS[i] : null;
+    return {
+      label:
+        maxPct === null
+          ? `>=${minPct}%`
+          : minPct === 0
+            ? `<${maxPct}%`
+            : `${minPct}-${maxPct}%`,
+      minPct,
+      maxPct,
+      holders: 0,
+      pctOfSupply: 0,
+    };
+  });
+  if (supplyRaw <= 0n) return buckets;
+
+  // per bucket raw optellen, pas aan het eind naar een percentage
+  const sums = buckets.map(() => 0n);
+  for (const h of holders) {
+    const pct = h.percentageOfSupply;
+    let idx = buckets.findIndex((b) => b.maxPct === null || pct < b.maxPct);
+    if (idx < 0) idx = buckets.length - 1;
+    buckets[idx].holders += 1;
+    sums[idx] += BigInt(h.amountRaw);
+  }
+  buckets.forEach((b, idx) => {
+    b.pctOfSupply = pctOf(sums[idx], supplyRaw);
+  });
+  return buckets;
+}
+
+/**
+ * Leest alle token accounts van `mint` (alleen owner + amount via
+ * dataSlice) en aggregeert per owner. Voor mints met veel holders kan dit
+ * lang duren; de server draait het daarom als achtergrond job.
+ */
+export async function scanHolders(
+  connection: Connection,
+  mintKey: PublicKey,
+  program: TokenProgramName,
+  decimals: number,
+  supplyRaw: string
+): Promise<HolderScan> {
+  const started = Date.now();
+  const programId =
+    program === "spl-token" ? TOKEN_PROGRAM_ID : TOKEN_2022_PROGRAM_ID;
+
+  const accounts = await connection.getProgramAccounts(programId, {
+    filters: scanFilters(program, mintKey),
+    // owner (32..64) + amount (64..72)
+    dataSlice: { offset: 32, length: 40 },
+  });
+
+  const byOwner = new Map<string, { amount: bigint; accounts: number }>();
+  let zeroBalanceAccounts = 0;
+  for (const { account } of accounts) {
+    const data = account.data;
+    if (data.length < 40) continue;
+    const amount = data.readBigUInt64LE(32);
+    if (amount === 0n) {
+      zeroBalanceAccounts += 1;
+      continue;
+    }
+    const owner = new PublicKey(data.subarray(0, 32)).toBase58();
+    const entry = byOwner.get(owner) ?? { amount: 0n, accounts: 0 };
+    entry.amount += amount;
+    entry.accounts += 1;
+    byOwner.set(owner, entry);
+  }
+
+  const supply = BigInt(supplyRaw);
+
+  const owners = Array.from(byOwner.entries()).sort((a, b) =>
+    a[1].amount === b[1].amount ? 0 : a[1].amount > b[1].amount ? -1 : 1
+  );
+  const holders: OwnerHolding[] = owners.map(([owner, e]) => ({
+    owner,
+    tokenAccounts: e.accounts,
+    amountRaw: e.amount.toString(),
+    uiAmount: toUiNumber(e.amount, decimals),
+    uiAmountString: formatUnits(e.amount, decimals),
+    percentageOfSupply: pctOf(e.amount, supply),
+  }));
+
+  const percentiles = PERCENTILES.map((topPct) => {
+    const count =
+      holders.length > 0
+        ? Math.max(1, Math.ceil((holders.length * topPct) / 100))
+        : 0;
+    const sum = sumRaw(owners.slice(0, count).map(([, e]) => e.amount));
+    return { topPct, holders: count, pctOfSupply: pctOf(sum, supply) };
+  });
+
+  return {
+    mint: mintKey.toBase58(),
+    program,
+    scannedAt: Date.now(),
+    durationMs: Date.now() - started,
+    tokenAccounts: accounts.length,
+    zeroBalanceAccounts,
+    holderCount: holders.length,
+    concentration: concentrationOf(holders, supply),
+    distribution: {
+      histogram: histogramOf(holders, supply),
+      gini: giniOf(holders.map((h) => h.uiAmount).reverse()),
+      nakamoto: nakamotoOf(
+        owners.map(([, e]) => e.amount),
+        supply
+      ),
+      percentiles,
+    },
+    topHolders: holders.slice(0, SCAN_TOP_HOLDERS),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Achtergrond jobs: één lopende scan per key, requests wachten even mee
+// -----------------------------------------------------------------------------
+
+export type JobOutcome<T> =
+  | { done: true; value: T }
+  | { done: false; startedAt: number; lastError: string | null };
+
+export function createBackgroundJobs<T>() {
+  const running = new Map<string, { startedAt: number; promise: Promise<T> }>();
+  const lastErrors = new Map<string, string>();
+
+  /**
+   * Start `fn` als er voor `key` nog geen job loopt en wacht max `waitMs`
+   * op het resultaat. Duurt het langer, dan loopt de job door en kan de
+   * client later opnieuw vragen (het resultaat staat dan in de cache).
+   */
+  async function run(
+    key: string,
+    fn: () => Promise<T>,
+    waitMs: number
+  ): Promise<JobOutcome<T>> {
+    let job = running.get(key);
+    if (!job) {
+      const promise = fn().finally(() => running.delete(key));
+      promise.then(
+        () => lastErrors.delete(key),
+        (e: any) => {
+          console.error(`background job ${key} failed:`, e?.message || e);
+          lastErrors.set(key, e?.message || String(e));
+        }
+      );
+      job = { startedAt: Date.now(), promise };
+      running.set(key, job);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), waitMs);
+    });
+    try {
+      const result = await Promise.race([
+        job.promise.then((value) => ({ value })),
+        timeout,
+      ]);
+      if (result) return { done: true, value: result.value };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    return {
+      done: false,
+      startedAt: job.startedAt,
+      lastError: lastErrors.get(key) ?? null,
+    };
+  }
+
+  return { run, runningCount: () => running.size };
+}
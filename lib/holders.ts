@@ -0,0 +1,98 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { formatUnits, pctOf, sumRaw, toUiNumber } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Grootste holders via getTokenLargestAccounts (gedeeld door holder-info,
+// whale-tracker en de safety check)
+// -----------------------------------------------------------------------------
+
+export type HolderRow = {
+  owner: string;
+  tokenAccount: string;
+  amountRaw: string;
+  uiAmount: number;
+  // exact, uiAmount kan afronden
+  uiAmountString: string;
+  percentageOfSupply: number;
+};
+
+export type Concentration = {
+  top1: number;
+  top5: number;
+  top10: number;
+};
+
+export type LargestHolders = {
+  // aantal accounts dat de RPC teruggaf (max 20), niet het echte aantal holders
+  accountCount: number;
+  holders: HolderRow[];
+};
+
+export async function fetchLargestHolders(
+  connection: Connection,
+  mintKey: PublicKey,
+  decimals: number,
+  supplyRaw: string,
+  maxAccounts = 100
+): Promise<LargestHolders> {
+  const largest = await connection.getTokenLargestAccounts(mintKey);
+  const rawList = (largest.value || []).slice(0, maxAccounts);
+  if (rawList.length === 0) {
+    return { accountCount: 0, holders: [] };
+  }
+
+  // Owners van deze accounts ophalen met getMultipleAccountsInfo
+  const accountInfos = await connection.getMultipleAccountsInfo(
+    rawList.map((r) => r.address)
+  );
+
+  const holders: HolderRow[] = [];
+
+  accountInfos.forEach((info, idx) => {
+    if (!info) return;
+
+    const data = info.data;
+    if (!data || data.length < 96) return;
+
+    // owner bytes in SPL-token account: offset 32, length 32
+    const owner = new PublicKey(data.subarray(32, 64)).toBase58();
+
+    const raw = rawList[idx];
+    const amountRaw = raw.amount;
+
+    holders.push({
+      owner,
+      tokenAccount: raw.address.toBase58(),
+      amountRaw,
+      uiAmount: toUiNumber(amountRaw, decimals),
+      uiAmountString: formatUnits(amountRaw, decimals),
+      percentageOfSupply: pctOf(amountRaw, supplyRaw),
+    });
+  });
+
+  // sorteer op grootste holdings
+  holders.sort((a, b) => compareRaw(b.amountRaw, a.amountRaw));
+
+  return { accountCount: rawList.length, holders };
+}
+
+function compareRaw(a: string, b: string): number {
+  const x = BigInt(a);
+  const y = BigInt(b);
+  return x === y ? 0 : x < y ? -1 : 1;
+}
+
+/** Top 1/5/10 als % van de supply, exact over de raw bedragen. */
+export function concentrationOf(
+  holders: { amountRaw: string }[],
+  supplyRaw: string | bigint
+): Concentration {
+  const pctOfSupply = (count: number): number =>
+    pctOf(sumRaw(holders.slice(0, count).map((h) => h.amountRaw)), supplyRaw);
+
+  return {
+    top1: pctOfSupply(1),
+    top5: pctOfSupply(5),
+    top10: pctOfSupply(10),
+  };
+}
@@ -0,0 +1,465 @@
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  Finality,
+  ParsedTransactionWithMeta,
+  PublicKey,
+} from "@solana/web3.js";
+import {
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  RAYDIUM_AMM_V4_PROGRAM_ID,
+  RAYDIUM_CPMM_PROGRAM_ID,
+} from "./market-data";
+import {
+  PoolInit,
+  TokenHistory,
+  TokenReceipt,
+  mintDeltasByOwner,
+  parseMintEvents,
+} from "./token-history";
+import { PARSED_TX_CHUNK, flattenInstructions } from "./wallet-history";
+import { chunk, mapWithConcurrency } from "./rpc-batch";
+import { formatUnits, pctOf, sumRaw } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Insiders: creator, mint ontvangers en snipers van de launch, en waar hun
+// tokens heen gingen (nog in bezit, verkocht, naar verse wallets)
+// -----------------------------------------------------------------------------
+
+export const INSIDER_DEFAULT_WINDOW_SLOTS = 5;
+export const INSIDER_MAX_WALLETS = Number(
+  process.env.INSIDER_MAX_WALLETS || 20
+);
+
+// per insider zoveel recente transacties van de wallet terug
+const TRACE_MAX_TXS = Number(process.env.INSIDER_TRACE_MAX_TXS || 100);
+const INSIDER_CONCURRENCY = Number(process.env.INSIDER_CONCURRENCY || 4);
+
+// zoveel signatures van het pool account lopen we terug naar de launch
+const POOL_MAX_SIGNATURES = Number(
+  process.env.INSIDER_POOL_MAX_SIGNATURES || 5000
+);
+
+// een ontvanger met zo weinig transacties is een "verse" wallet
+const FRESH_WALLET_MAX_TXS = Number(process.env.FRESH_WALLET_MAX_TXS || 5);
+const MAX_FRESH_CHECKS = 30;
+
+// programma's waar een uitgaande transfer als verkoop telt
+export const SELL_VENUES: Record<string, string> = {
+  [RAYDIUM_AMM_V4_PROGRAM_ID.toBase58()]: "raydium-amm-v4",
+  [RAYDIUM_CPMM_PROGRAM_ID.toBase58()]: "raydium-cpmm",
+  [ORCA_WHIRLPOOL_PROGRAM_ID.toBase58()]: "orca-whirlpool",
+  CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK: "raydium-clmm",
+  LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo: "meteora-dlmm",
+  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P": "pump-fun",
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4: "jupiter",
+};
+
+export type InsiderRole = "creator" | "mint-recipient" | "sniper";
+
+export type InsiderCandidate = {
+  owner: string;
+  roles: InsiderRole[];
+  // gemint of gekocht in de launch window
+  acquiredRaw: string;
+  firstSlot: number | null;
+};
+
+/**
+ * Kopers in de eerste `windowSlots` slots na de launch, uit de signatures
+ * van het pool account. Een swap via Raydium AMM v4 in een bestaand token
+ * account raakt de mint niet, de pool wel. complete = false als de pool
+ * onbekend is of de launch niet binnen POOL_MAX_SIGNATURES ligt.
+ */
+export async function fetchLaunchBuyers(
+  connection: Connection,
+  mint: string,
+  launch: PoolInit,
+  windowSlots: number
+): Promise<{ receipts: TokenReceipt[]; complete: boolean }> {
+  if (!launch.pool) return { receipts: [], complete: false };
+  const finality: Finality =
+    connection.commitment === "finalized" ? "finalized" : "confirmed";
+  const poolKey = new PublicKey(launch.pool);
+
+  // nieuwste eerst, tot (exclusief) de pool transactie zelf
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let reachedLaunch = false;
+  while (signatures.length < POOL_MAX_SIGNATURES) {
+    const limit = Math.min(1000, POOL_MAX_SIGNATURES - signatures.length);
+    const page = await connection.getSignaturesForAddress(
+      poolKey,
+      {
+        before: signatures[signatures.length - 1]?.signature,
+        until: launch.signature,
+        limit,
+      },
+      finality
+    );
+    signatures.push(...page);
+    if (page.length < limit) {
+      reachedLaunch = true;
+      break;
+    }
+  }
+
+  const inWindow = signatures.filter(
+    (s) => !s.err && s.slot <= launch.slot + windowSlots
+  );
+  const receipts: TokenReceipt[] = [];
+  for (const part of chunk(inWindow, PARSED_TX_CHUNK)) {
+    const txs = await connection.getParsedTransactions(
+      part.map((s) => s.signature),
+      { commitment: finality, maxSupportedTransactionVersion: 0 }
+    );
+    for (const tx of txs) {
+      if (tx) receipts.push(...parseMintEvents(tx, mint).receipts);
+    }
+  }
+  return { receipts, complete: reachedLaunch };
+}
+
+/**
+ * Creator, ontvangers van MintTo en kopers in de eerste `windowSlots`
+ * slots vanaf de eerste pool transactie. Pool vaults zitten hier nog in;
+ * die filtert server.ts weg met de owner labels.
+ *
+ * Kopers komen uit de signatures van het mint account plus `poolReceipts`
+ * (fetchLaunchBuyers). Zonder volledige historie is de eerste pool onzeker
+ * en slaan we snipers over.
+ */
+export function insiderCandidates(
+  history: TokenHistory,
+  windowSlots: number,
+  poolReceipts: TokenReceipt[] = []
+): InsiderCandidate[] {
+  const byOwner = new Map<
+    string,
+    { roles: Set<InsiderRole>; acquired: bigint; firstSlot: number | null }
+  >();
+  const add = (
+    owner: string | null,
+    role: InsiderRole,
+    amount: bigint,
+    slot: number | null
+  ) => {
+    if (!owner) return;
+    const entry = byOwner.get(owner) ?? {
+      roles: new Set<InsiderRole>(),
+      acquired: 0n,
+      firstSlot: slot,
+    };
+    entry.roles.add(role);
+    entry.acquired += amount;
+    if (slot !== null && (entry.firstSlot === null || slot < entry.firstSlot)) {
+      entry.firstSlot = slot;
+    }
+    byOwner.set(owner, entry);
+  };
+
+  add(
+    history.created?.creator ?? null,
+    "creator",
+    0n,
+    history.created?.slot ?? null
+  );
+  for (const e of history.supplyEvents) {
+    if (e.type === "mint") {
+      add(e.owner, "mint-recipient", BigInt(e.amountRaw), e.slot);
+    }
+  }
+
+  const launchSlot = history.firstPool?.slot;
+  if (launchSlot !== undefined && history.coverage.complete) {
+    // een koop kan in beide lijsten staan
+    const seen = new Set<string>();
+    for (const r of [...history.launchReceipts, ...poolReceipts]) {
+      if (r.slot < launchSlot || r.slot > launchSlot + windowSlots) continue;
+      // in de pool transactie zelf krijgt alleen de pool tokens
+      if (r.signature === history.firstPool!.signature) continue;
+      const key = `${r.signature}:${r.owner}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      add(r.owner, "sniper", BigInt(r.amountRaw), r.slot);
+    }
+  }
+
+  return Array.from(byOwner.entries()).map(([owner, e]) => ({
+    owner,
+    roles: Array.from(e.roles),
+    acquiredRaw: e.acquired.toString(),
+    firstSlot: e.firstSlot,
+  }));
+}
+
+export type InsiderTransfer = {
+  to: string;
+  amountRaw: string;
+  amount: string;
+  signature: string;
+  // ontvanger had (bijna) geen eerdere transacties: vaak een eigen alt wallet
+  fresh: boolean;
+};
+
+export type InsiderStatus =
+  "holding" | "partially-sold" | "sold" | "transferred" | "no-activity";
+
+export type InsiderReport = {
+  owner: string;
+  roles: InsiderRole[];
+  acquiredRaw: string;
+  acquired: string;
+  currentRaw: string;
+  current: string;
+  currentPct: number;
+  soldRaw: string;
+  sold: string;
+  sellVenues: string[];
+  transfers: InsiderTransfer[];
+  status: InsiderStatus;
+  tracedTransactions: number;
+  // false = meer transacties dan INSIDER_TRACE_MAX_TXS, oudere gemist
+  complete: boolean;
+};
+
+type Outflow = {
+  signature: string;
+  amount: bigint;
+  // verkocht via een DEX, of naar deze owners gestuurd
+  venue: string | null;
+  receivers: [string, bigint][];
+};
+
+/**
+ * Uitgaande bewegingen van `owner` voor `mint` in één transactie: via een
+ * DEX (verkoop) of naar andere wallets. Puur, werkt op opgenomen JSON.
+ */
+export function parseOutflow(
+  tx: ParsedTransactionWithMeta,
+  mint: string,
+  owner: string
+): Outflow | null {
+  if (tx.meta?.err) return null;
+  const deltas = mintDeltasByOwner(tx, mint);
+  const own = deltas.get(owner) ?? 0n;
+  if (own >= 0n) return null;
+
+  const venue =
+    flattenInstructions(tx)
+      .map((ix) => SELL_VENUES[ix.programId])
+      .find((v) => v !== undefined) ?? null;
+
+  return {
+    signature: tx.transaction.signatures[0],
+    amount: -own,
+    venue,
+    receivers: venue
+      ? []
+      : Array.from(deltas.entries()).filter(
+          ([other, delta]) => other !== owner && delta > 0n
+        ),
+  };
+}
+
+async function currentBalance(
+  connection: Connection,
+  owner: string,
+  mint: string
+): Promise<bigint> {
+  const res = await connection.getParsedTokenAccountsByOwner(
+    new PublicKey(owner),
+    { mint: new PublicKey(mint) }
+  );
+  return sumRaw(
+    res.value.map(
+      (ta) => (ta.account.data as any).parsed?.info?.tokenAmount?.amount ?? "0"
+    )
+  );
+}
+
+async function traceOutflows(
+  connection: Connection,
+  owner: string,
+  mint: string,
+  sinceSlot: number | null,
+  finality: Finality
+): Promise<{ outflows: Outflow[]; traced: number; complete: boolean }> {
+  const page = await connection.getSignaturesForAddress(
+    new PublicKey(owner),
+    { limit: TRACE_MAX_TXS },
+    finality
+  );
+  const signatures = page.filter(
+    (s) => !s.err && (sinceSlot === null || s.slot >= sinceSlot)
+  );
+
+  const outflows: Outflow[] = [];
+  for (const part of chunk(signatures, PARSED_TX_CHUNK)) {
+    const txs = await connection.getParsedTransactions(
+      part.map((s) => s.signature),
+      { commitment: finality, maxSupportedTransactionVersion: 0 }
+    );
+    for (const tx of txs) {
+      const outflow = tx && parseOutflow(tx, mint, owner);
+      if (outflow) outflows.push(outflow);
+    }
+  }
+  return {
+    outflows,
+    traced: signatures.length,
+    // niet de hele pagina vol, of al voorbij de launch = niets gemist
+    complete:
+      page.length < TRACE_MAX_TXS ||
+      (sinceSlot !== null && page[page.length - 1].slot < sinceSlot),
+  };
+}
+
+async function isFreshWallet(
+  connection: Connection,
+  address: string,
+  finality: Finality
+): Promise<boolean> {
+  const sigs = await connection.getSignaturesForAddress(
+    new PublicKey(address),
+    { limit: FRESH_WALLET_MAX_TXS + 1 },
+    finality
+  );
+  return sigs.length <= FRESH_WALLET_MAX_TXS;
+}
+
+export type InsiderAnalysis = {
+  insiders: InsiderReport[];
+  // verse wallets die tokens van insiders kregen, met hun huidige saldo
+  freshWallets: { address: string; currentRaw: string; current: string }[];
+  summary: {
+    insiderCount: number;
+    // huidig bezit van insiders + verse ontvangers, als % van de supply
+    insiderPct: number;
+    insiderHeldPct: number;
+    freshWalletPct: number;
+    soldCount: number;
+    creatorSold: boolean | null;
+  };
+};
+
+/**
+ * Huidig saldo en uitgaande bewegingen per insider, plus een check of de
+ * ontvangers van transfers verse wallets zijn.
+ */
+export async function analyzeInsiders(
+  connection: Connection,
+  mint: string,
+  decimals: number,
+  supplyRaw: string,
+  candidates: InsiderCandidate[]
+): Promise<InsiderAnalysis> {
+  const finality: Finality =
+    connection.commitment === "finalized" ? "finalized" : "confirmed";
+  const supply = BigInt(supplyRaw);
+  const insiders = candidates.slice(0, INSIDER_MAX_WALLETS);
+
+  const traced = await mapWithConcurrency(
+    insiders,
+    INSIDER_CONCURRENCY,
+    async (c) => {
+      const [current, trace] = await Promise.all([
+        currentBalance(connection, c.owner, mint),
+        traceOutflows(connection, c.owner, mint, c.firstSlot, finality),
+      ]);
+      return { candidate: c, current, ...trace };
+    }
+  );
+
+  // ontvangers die zelf geen insider zijn, max MAX_FRESH_CHECKS
+  const insiderSet = new Set(insiders.map((i) => i.owner));
+  const receivers = Array.from(
+    new Set(
+      traced.flatMap((t) =>
+        t.outflows.flatMap((o) => o.receivers.map(([to]) => to))
+      )
+    )
+  )
+    .filter((r) => !insiderSet.has(r))
+    .slice(0, MAX_FRESH_CHECKS);
+
+  const freshChecks = await mapWithConcurrency(
+    receivers,
+    INSIDER_CONCURRENCY,
+    async (address) => {
+      const fresh = await isFreshWallet(connection, address, finality);
+      const current = fresh
+        ? await currentBalance(connection, address, mint)
+        : 0n;
+      return { address, fresh, current };
+    }
+  );
+  const freshByAddress = new Map(freshChecks.map((f) => [f.address, f]));
+
+  const reports: InsiderReport[] = traced.map((t) => {
+    const sold = sumRaw(t.outflows.filter((o) => o.venue).map((o) => o.amount));
+    const transfers: InsiderTransfer[] = t.outflows.flatMap((o) =>
+      o.receivers.map(([to, amount]) => ({
+        to,
+        amountRaw: amount.toString(),
+        amount: formatUnits(amount, decimals),
+        signature: o.signature,
+        fresh: freshByAddress.get(to)?.fresh ?? false,
+      }))
+    );
+
+    let status: InsiderStatus;
+    if (t.outflows.length === 0) {
+      status = t.current > 0n ? "holding" : "no-activity";
+    } else if (sold > 0n) {
+      status = t.current > 0n ? "partially-sold" : "sold";
+    } else {
+      status = "transferred";
+    }
+
+    return {
+      owner: t.candidate.owner,
+      roles: t.candidate.roles,
+      acquiredRaw: t.candidate.acquiredRaw,
+      acquired: formatUnits(t.candidate.acquiredRaw, decimals),
+      currentRaw: t.current.toString(),
+      current: formatUnits(t.current, decimals),
+      currentPct: pctOf(t.current, supply),
+      soldRaw: sold.toString(),
+      sold: formatUnits(sold, decimals),
+      sellVenues: Array.from(
+        new Set(t.outflows.map((o) => o.venue).filter((v): v is string => !!v))
+      ),
+      transfers,
+      status,
+      tracedTransactions: t.traced,
+      complete: t.complete,
+    };
+  });
+
+  const freshWallets = freshChecks
+    .filter((f) => f.fresh)
+    .map((f) => ({
+      address: f.address,
+      currentRaw: f.current.toString(),
+      current: formatUnits(f.current, decimals),
+    }));
+
+  const held = sumRaw(reports.map((r) => r.currentRaw));
+  const freshHeld = sumRaw(freshWallets.map((f) => f.currentRaw));
+  const creator = reports.find((r) => r.roles.includes("creator"));
+
+  return {
+    insiders: reports,
+    freshWallets,
+    summary: {
+      insiderCount: reports.length,
+      insiderPct: pctOf(held + freshHeld, supply),
+      insiderHeldPct: pctOf(held, supply),
+      freshWalletPct: pctOf(freshHeld, supply),
+      soldCount: reports.filter(
+        (r) => r.status === "sold" || r.status === "partially-sold"
+      ).length,
+      creatorSold: creator ? BigInt(creator.soldRaw) > 0n : null,
+    },
+  };
+}
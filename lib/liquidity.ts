@@ -0,0 +1,178 @@
+import { DexPair } from "./market-data";
+
+// -----------------------------------------------------------------------------
+// Liquiditeit per DEX (venue) + welke DEXes als "echte" liquiditeit tellen
+// -----------------------------------------------------------------------------
+
+export const DEFAULT_TRUSTED_DEXES = (
+  process.env.TRUSTED_DEXES || "raydium,orca,meteora,pumpswap,pumpfun,phoenix"
+)
+  .split(",")
+  .map((s) => s.trim().toLowerCase())
+  .filter(Boolean);
+
+/**
+ * Leest een komma-gescheiden allowlist (bv. `dexes=raydium,orca`) uit een
+ * query param; zonder waarde geldt de default lijst.
+ */
+export function parseDexAllowlist(value: string | undefined): string[] {
+  const list = (value || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  return list.length > 0 ? list : DEFAULT_TRUSTED_DEXES;
+}
+
+export type PoolSummary = {
+  chainId: string;
+  dexId: string;
+  url: string;
+  pairAddress: string;
+  baseToken: DexPair["baseToken"];
+  quoteToken: DexPair["quoteToken"];
+  priceUsd: string | undefined;
+  liquidityUsd: number | null;
+  volume24h: number | null;
+  volume6h: number | null;
+  volume1h: number | null;
+  fdv: number | null;
+  source: string | null;
+};
+
+export function summarizePair(p: DexPair): PoolSummary {
+  return {
+    chainId: p.chainId,
+    dexId: p.dexId,
+    url: p.url,
+    pairAddress: p.pairAddress,
+    baseToken: p.baseToken,
+    quoteToken: p.quoteToken,
+    priceUsd: p.priceUsd,
+    liquidityUsd: p.liquidity?.usd ?? null,
+    volume24h: p.volume?.h24 ?? null,
+    volume6h: p.volume?.h6 ?? null,
+    volume1h: p.volume?.h1 ?? null,
+    fdv: p.fdv ?? p.marketCap ?? null,
+    source: p.source ?? null,
+  };
+}
+
+export type VenueSummary = {
+  dexId: string;
+  trusted: boolean;
+  poolCount: number;
+  liquidityUsd: number;
+  volume: { h24: number; h6: number; h1: number };
+  // liquidity-gewogen prijs binnen deze venue
+  priceUsd: number | null;
+  shareOfLiquidityPct: number;
+};
+
+export type LiquidityBreakdown = {
+  trustedDexes: string[];
+  totalLiquidityUsd: number;
+  trustedLiquidityUsd: number;
+  weightedPriceUsd: number | null;
+  minPriceUsd: number | null;
+  maxPriceUsd: number | null;
+  // (max - min) / gewogen prijs, in procenten
+  priceSpreadPct: number | null;
+  dominantVenue: string | null;
+  venues: VenueSummary[];
+};
+
+function pairPrice(p: DexPair): number | null {
+  const price = p.priceUsd !== undefined ? parseFloat(p.priceUsd) : NaN;
+  return isFinite(price) && price > 0 ? price : null;
+}
+
+function weightedPrice(pairs: DexPair[]): number | null {
+  let weight = 0;
+  let sum = 0;
+  for (const p of pairs) {
+    const price = pairPrice(p);
+    const liq = p.liquidity?.usd || 0;
+    if (price === null || liq <= 0) continue;
+    weight += liq;
+    sum += price * liq;
+  }
+  return weight > 0 ? sum / weight : null;
+}
+
+export function isTrustedDex(dexId: string, trustedDexes: string[]): boolean {
+  return trustedDexes.includes(dexId.toLowerCase());
+}
+
+export function buildLiquidityBreakdown(
+  pairs: DexPair[],
+  trustedDexes: string[]
+): LiquidityBreakdown {
+  const solanaPairs = pairs.filter((p) => p.chainId === "solana");
+
+  const byDex = new Map<string, DexPair[]>();
+  for (const p of solanaPairs) {
+    const dexId = p.dexId.toLowerCase();
+    const list = byDex.get(dexId) ?? [];
+    list.push(p);
+    byDex.set(dexId, list);
+  }
+
+  const totalLiquidityUsd = solanaPairs.reduce(
+    (acc, p) => acc + (p.liquidity?.usd || 0),
+    0
+  );
+
+  const venues: VenueSummary[] = Array.from(byDex.entries())
+    .map(([dexId, list]) => {
+      const liquidityUsd = list.reduce(
+        (acc, p) => acc + (p.liquidity?.usd || 0),
+        0
+      );
+      return {
+        dexId,
+        trusted: isTrustedDex(dexId, trustedDexes),
+        poolCount: list.length,
+        liquidityUsd,
+        volume: {
+          h24: list.reduce((acc, p) => acc + (p.volume?.h24 || 0), 0),
+          h6: list.reduce((acc, p) => acc + (p.volume?.h6 || 0), 0),
+          h1: list.reduce((acc, p) => acc + (p.volume?.h1 || 0), 0),
+        },
+        priceUsd: weightedPrice(list),
+        shareOfLiquidityPct:
+          totalLiquidityUsd > 0 ? (liquidityUsd / totalLiquidityUsd) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.liquidityUsd - a.liquidityUsd);
+
+  const trustedLiquidityUsd = venues
+    .filter((v) => v.trusted)
+    .reduce((acc, v) => acc + v.liquidityUsd, 0);
+
+  // spread alleen over pools met liquiditeit, lege pools hebben vaak een
+  // verouderde prijs
+  const prices = solanaPairs
+    .filter((p) => (p.liquidity?.usd || 0) > 0)
+    .map(pairPrice)
+    .filter((p): p is number => p !== null);
+  const minPriceUsd = prices.length > 0 ? Math.min(...prices) : null;
+  const maxPriceUsd = prices.length > 0 ? Math.max(...prices) : null;
+  const weightedPriceUsd = weightedPrice(solanaPairs);
+  const priceSpreadPct =
+    weightedPriceUsd && minPriceUsd !== null && maxPriceUsd !== null
+      ? ((maxPriceUsd - minPriceUsd) / weightedPriceUsd) * 100
+      : null;
+
+  return {
+    trustedDexes,
+    totalLiquidityUsd,
+    trustedLiquidityUsd,
+    weightedPriceUsd,
+    minPriceUsd,
+    maxPriceUsd,
+    priceSpreadPct,
+    dominantVenue:
+      venues.length > 0 && venues[0].liquidityUsd > 0 ? venues[0].dexId : null,
+    venues,
+  };
+}
@@ -0,0 +1,380 @@
+import type { IncomingMessage, Server } from "http";
+import { Commitment, Connection, PublicKey } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "./token-programs";
+import { fetchWalletInfos } from "./wallet-info";
+import { fetchTokenInfos } from "./token-info";
+
+// -----------------------------------------------------------------------------
+// Live updates voor wallets en mints: één gedeelde upstream subscription per
+// key (onAccountChange / onProgramAccountChange), uitgedeeld aan alle clients
+// -----------------------------------------------------------------------------
+
+export type StreamTopic = "wallet" | "mint";
+
+export type StreamEvent = {
+  // oplopend per proces, gebruikt als SSE id
+  id: number;
+  topic: StreamTopic;
+  key: string;
+  at: string;
+  // zelfde vorm als /api/wallet-info resp. /api/token-info, of een fout
+  data: any;
+  error: string | null;
+};
+
+export type StreamListener = (event: StreamEvent) => void;
+
+// meerdere account changes kort na elkaar (bv. een swap) geven één refresh
+const STREAM_DEBOUNCE_MS = Number(process.env.STREAM_DEBOUNCE_MS || 300);
+// vangnet voor gemiste notificaties, bv. tijdens een websocket reconnect
+const STREAM_RESYNC_MS = Number(process.env.STREAM_RESYNC_MS || 60_000);
+export const STREAM_MAX_KEYS = Number(process.env.STREAM_MAX_KEYS || 25);
+
+type Channel = {
+  topic: StreamTopic;
+  key: string;
+  listeners: Set<StreamListener>;
+  upstream: { kind: "account" | "program"; id: number }[];
+  last: StreamEvent | null;
+  lastBody: string | null;
+  debounce: NodeJS.Timeout | null;
+  resync: NodeJS.Timeout | null;
+  refreshing: Promise<void> | null;
+  // nog een refresh nodig na de lopende
+  dirty: boolean;
+};
+
+export function createStreamHub(
+  connection: Connection,
+  // rpc label(s) in de events, zoals in de REST responses
+  opts: { rpc?: { commitment: Commitment; endpoints: string[] } } = {}
+) {
+  const channels = new Map<string, Channel>();
+  let nextId = 1;
+
+  async function load(
+    topic: StreamTopic,
+    key: string
+  ): Promise<{ data: any; error: string | null }> {
+    if (topic === "wallet") {
+      const [item] = await fetchWalletInfos(connection, [key]);
+      if (!item.ok) return { data: null, error: item.error };
+      const { address, lamports, sol, tokens } = item.result;
+      return {
+        data: { address, rpc: opts.rpc, lamports, sol, tokens },
+        error: null,
+      };
+    }
+    const [item] = await fetchTokenInfos(connection, [key]);
+    if (!item.ok) return { data: null, error: item.error };
+    return { data: { ...item.result, rpc: opts.rpc }, error: null };
+  }
+
+  function emit(channel: Channel, event: StreamEvent) {
+    for (const listener of Array.from(channel.listeners)) {
+      try {
+        listener(event);
+      } catch (e: any) {
+        console.error("stream listener error:", e?.message || e);
+      }
+    }
+  }
+
+  // haalt de actuele stand op en stuurt hem alleen door als hij veranderd is
+  function refresh(channel: Channel): Promise<void> {
+    if (channel.refreshing) {
+      channel.dirty = true;
+      return channel.refreshing;
+    }
+    channel.refreshing = (async () => {
+      let result: { data: any; error: string | null };
+      try {
+        result = await load(channel.topic, channel.key);
+      } catch (e: any) {
+        result = { data: null, error: e?.message || String(e) };
+      }
+      const body = JSON.stringify(result);
+      if (body === channel.lastBody) return;
+      channel.lastBody = body;
+      channel.last = {
+        id: nextId++,
+        topic: channel.topic,
+        key: channel.key,
+        at: new Date().toISOString(),
+        ...result,
+      };
+      emit(channel, channel.last);
+    })().finally(() => {
+      channel.refreshing = null;
+      if (channel.dirty && channels.has(channelKey(channel))) {
+        channel.dirty = false;
+        refresh(channel);
+      }
+    });
+    return channel.refreshing;
+  }
+
+  function schedule(channel: Channel) {
+    if (channel.debounce) clearTimeout(channel.debounce);
+    channel.debounce = setTimeout(() => {
+      channel.debounce = null;
+      refresh(channel);
+    }, STREAM_DEBOUNCE_MS);
+  }
+
+  function channelKey(c: { topic: StreamTopic; key: string }) {
+    return `${c.topic}:${c.key}`;
+  }
+
+  function openUpstream(channel: Channel) {
+    const pubkey = new PublicKey(channel.key);
+    const onChange = () => schedule(channel);
+
+    channel.upstream.push({
+      kind: "account",
+      id: connection.onAccountChange(pubkey, onChange, "confirmed"),
+    });
+
+    if (channel.topic === "wallet") {
+      // token accounts van deze owner (owner staat op offset 32)
+      const byOwner = { memcmp: { offset: 32, bytes: channel.key } };
+      channel.upstream.push({
+        kind: "program",
+        id: connection.onProgramAccountChange(
+          TOKEN_PROGRAM_ID,
+          onChange,
+          "confirmed",
+          [{ dataSize: 165 }, byOwner]
+        ),
+      });
+      channel.upstream.push({
+        kind: "program",
+        id: connection.onProgramAccountChange(
+          TOKEN_2022_PROGRAM_ID,
+          onChange,
+          "confirmed",
+          [byOwner]
+        ),
+      });
+    }
+
+    channel.resync = setInterval(() => refresh(channel), STREAM_RESYNC_MS);
+  }
+
+  function closeUpstream(channel: Channel) {
+    for (const sub of channel.upstream) {
+      const removal =
+        sub.kind === "account"
+          ? connection.removeAccountChangeListener(sub.id)
+          : connection.removeProgramAccountChangeListener(sub.id);
+      removal.catch((e: any) =>
+        console.error("stream unsubscribe error:", e?.message || e)
+      );
+    }
+    channel.upstream = [];
+    if (channel.debounce) clearTimeout(channel.debounce);
+    if (channel.resync) clearInterval(channel.resync);
+    channel.debounce = null;
+    channel.resync = null;
+  }
+
+  /**
+   * Meldt `listener` aan voor updates van een wallet of mint. De eerste
+   * listener opent de upstream subscriptions, de laatste sluit ze weer.
+   * Nieuwe listeners krijgen meteen de laatst bekende stand.
+   * Geeft een functie terug om af te melden.
+   */
+  function subscribe(
+    topic: StreamTopic,
+    key: string,
+    listener: StreamListener
+  ): () => void {
+    const id = channelKey({ topic, key });
+    let channel = channels.get(id);
+    if (!channel) {
+      channel = {
+        topic,
+        key,
+        listeners: new Set(),
+        upstream: [],
+        last: null,
+        lastBody: null,
+        debounce: null,
+        resync: null,
+        refreshing: null,
+        dirty: false,
+      };
+      channels.set(id, channel);
+      openUpstream(channel);
+      refresh(channel);
+    } else if (channel.last) {
+      listener(channel.last);
+    }
+    channel.listeners.add(listener);
+
+    const ch = channel;
+    return () => {
+      ch.listeners.delete(listener);
+      if (ch.listeners.size === 0 && channels.get(id) === ch) {
+        channels.delete(id);
+        closeUpstream(ch);
+      }
+    };
+  }
+
+  function stats() {
+    return {
+      channels: channels.size,
+      listeners: Array.from(channels.values()).reduce(
+        (acc, c) => acc + c.listeners.size,
+        0
+      ),
+    };
+  }
+
+  return { subscribe, stats };
+}
+
+export type StreamHub = ReturnType<typeof createStreamHub>;
+
+/** Leest een komma-gescheiden lijst (query) of array (body) met keys. */
+export function parseStreamKeys(
+  value: unknown
+): { ok: true; keys: string[] } | { ok: false; error: string } {
+  const raw = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(",")
+      : [];
+  const keys = Array.from(
+    new Set(
+      raw
+        .filter((k): k is string => typeof k === "string")
+        .map((k) => k.trim())
+        .filter(Boolean)
+    )
+  );
+  for (const key of keys) {
+    try {
+      new PublicKey(key);
+    } catch {
+      return { ok: false, error: `Invalid address: ${key}` };
+    }
+  }
+  return { ok: true, keys };
+}
+
+// -----------------------------------------------------------------------------
+// WebSocket variant (optioneel, alleen als het `ws` package beschikbaar is)
+// -----------------------------------------------------------------------------
+
+export type WebSocketAuthorizer = (
+  req: IncomingMessage
+) => { ok: true } | { ok: false; status: number; error: string };
+
+/**
+ * Koppelt een WebSocket endpoint op `path` aan de http server. Clients
+ * sturen `{ action: "subscribe" | "unsubscribe", wallets, mints }` en
+ * krijgen dezelfde events als via SSE. Zonder `ws` package gebeurt er niets.
+ * `authorize` kan de upgrade weigeren (API key, rate limit).
+ */
+export function attachWebSocketStream(
+  server: Server,
+  hub: StreamHub,
+  path: string,
+  authorize?: WebSocketAuthorizer
+): boolean {
+  let WebSocketServer: any;
+  try {
+    // optionele dependency, zelfde aanpak als ioredis in de cache
+    WebSocketServer = require("ws").WebSocketServer ?? require("ws").Server;
+  } catch {
+    console.log("ws package not installed, WebSocket stream disabled");
+    return false;
+  }
+
+  const wss = new WebSocketServer({
+    server,
+    path,
+    verifyClient: (
+      info: { req: IncomingMessage },
+      done: (ok: boolean, status?: number, message?: string) => void
+    ) => {
+      const result = authorize ? authorize(info.req) : { ok: true as const };
+      if (result.ok) done(true);
+      else done(false, result.status, result.error);
+    },
+  });
+  wss.on("connection", (socket: any) => {
+    const subscriptions = new Map<string, () => void>();
+    const send = (message: any) => {
+      if (socket.readyState === 1) socket.send(JSON.stringify(message));
+    };
+    const listener: StreamListener = (event) =>
+      send({ type: event.error ? "stream-error" : event.topic, ...event });
+
+    socket.on("message", (raw: any) => {
+      let msg: any;
+      try {
+        msg = JSON.parse(String(raw));
+      } catch {
+        return send({ type: "stream-error", error: "Invalid JSON message" });
+      }
+      if (msg?.action !== "subscribe" && msg?.action !== "unsubscribe") {
+        return send({
+          type: "stream-error",
+          error: "action must be subscribe or unsubscribe",
+        });
+      }
+
+      const wallets = parseStreamKeys(msg.wallets ?? []);
+      const mints = parseStreamKeys(msg.mints ?? []);
+      if (!wallets.ok)
+        return send({ type: "stream-error", error: wallets.error });
+      if (!mints.ok) return send({ type: "stream-error", error: mints.error });
+
+      const wanted: [StreamTopic, string][] = [
+        ...wallets.keys.map((k): [StreamTopic, string] => ["wallet", k]),
+        ...mints.keys.map((k): [StreamTopic, string] => ["mint", k]),
+      ];
+
+      if (msg.action === "unsubscribe") {
+        for (const [topic, key] of wanted) {
+          subscriptions.get(`${topic}:${key}`)?.();
+          subscriptions.delete(`${topic}:${key}`);
+        }
+      } else {
+        const fresh = wanted.filter(
+          ([topic, key]) => !subscriptions.has(`${topic}:${key}`)
+        );
+        if (subscriptions.size + fresh.length > STREAM_MAX_KEYS) {
+          return send({
+            type: "stream-error",
+            error: `Too many subscriptions (max ${STREAM_MAX_KEYS})`,
+          });
+        }
+        for (const [topic, key] of fresh) {
+          subscriptions.set(
+            `${topic}:${key}`,
+            hub.subscribe(topic, key, listener)
+          );
+        }
+      }
+
+      send({
+        type: "subscriptions",
+        keys: Array.from(subscriptions.keys()),
+      });
+    });
+
+    // bij disconnect alle upstream subscriptions van deze client opruimen
+    socket.on("close", () => {
+      for (const unsubscribe of Array.from(subscriptions.values())) {
+        unsubscribe();
+      }
+      subscriptions.clear();
+    });
+  });
+
+  return true;
+}
@@ -0,0 +1,257 @@
+import fs from "fs";
+import path from "path";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { pctOf } from "./amounts";
+import {
+  AMM_V4,
+  CPMM,
+  RAYDIUM_AMM_V4_PROGRAM_ID,
+  RAYDIUM_CPMM_PROGRAM_ID,
+  readPubkey,
+  readU64,
+} from "./market-data";
+
+// -----------------------------------------------------------------------------
+// LP tokens van Raydium pools: verbrand, gelockt of vrij op te nemen
+// -----------------------------------------------------------------------------
+
+export type LpBurnInfo = {
+  pairAddress: string;
+  kind: "raydium-amm-v4" | "raydium-cpmm";
+  lpMint: string;
+  lpDecimals: number;
+  // LP supply volgens de pool zelf (telt burns niet mee)
+  lpReserveRaw: string;
+  // huidige supply van de LP mint
+  lpSupplyRaw: string;
+  // deel van de LP supply dat verbrand is (supply verlaagd)
+  burnedPct: number;
+};
+
+// SPL mint: supply op offset 36 (u64), decimals op offset 44
+function readMintSupply(data: Buffer): { supply: bigint; decimals: number } {
+  return { supply: data.readBigUInt64LE(36), decimals: data.readUInt8(44) };
+}
+
+/**
+ * Leest de LP mint van een Raydium AMM v4 of CPMM pool en vergelijkt de
+ * LP supply die de pool bijhoudt met de echte mint supply. Verbrande LP
+ * tokens verlagen alleen de mint supply, dus het verschil is het
+ * verbrande deel. Geeft null voor andere pool types.
+ */
+export async function fetchLpBurnInfo(
+  connection: Connection,
+  pairAddress: string
+): Promise<LpBurnInfo | null> {
+  const poolKey = new PublicKey(pairAddress);
+  const pool = await connection.getAccountInfo(poolKey);
+  if (!pool) return null;
+
+  let kind: LpBurnInfo["kind"];
+  let lpMint: string;
+  let lpReserve: bigint;
+
+  if (
+    pool.owner.equals(RAYDIUM_AMM_V4_PROGRAM_ID) &&
+    pool.data.length === AMM_V4.size
+  ) {
+    kind = "raydium-amm-v4";
+    lpMint = readPubkey(pool.data, AMM_V4.lpMint);
+    lpReserve = readU64(pool.data, AMM_V4.lpReserve);
+  } else if (
+    pool.owner.equals(RAYDIUM_CPMM_PROGRAM_ID) &&
+    pool.data.length === CPMM.size
+  ) {
+    kind = "raydium-cpmm";
+    lpMint = readPubkey(pool.data, CPMM.lpMint);
+    lpReserve = readU64(pool.data, CPMM.lpSupply);
+  } else {
+    return null;
+  }
+
+  const mintInfo = await connection.getAccountInfo(new PublicKey(lpMint));
+  if (!mintInfo || mintInfo.data.length < 45) return null;
+  const { supply, decimals } = readMintSupply(mintInfo.data);
+
+  const burned = lpReserve > supply ? lpReserve - supply : 0n;
+  const burnedPct =
+    lpReserve > 0n ? Number((burned * 10000n) / lpReserve) / 100 : 0;
+
+  return {
+    pairAddress,
+    kind,
+    lpMint,
+    lpDecimals: decimals,
+    lpReserveRaw: lpReserve.toString(),
+    lpSupplyRaw: supply.toString(),
+    burnedPct,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// LP holders classificeren: verbrand, incinerator, locker of EOA
+// -----------------------------------------------------------------------------
+
+export const INCINERATOR_ADDRESS =
+  "1nc1nerator11111111111111111111111111111111";
+
+export type LpLocker = { programId: string; name: string };
+
+const LP_LOCKERS_FILE =
+  process.env.LP_LOCKERS_FILE ||
+  path.join(__dirname, "..", "config", "lp-lockers.json");
+
+let lockerCache: LpLocker[] | null = null;
+
+export function loadLpLockers(): LpLocker[] {
+  if (lockerCache) return lockerCache;
+  try {
+    const list = JSON.parse(fs.readFileSync(LP_LOCKERS_FILE, "utf8"));
+    lockerCache = Array.isArray(list) ? list : [];
+  } catch (e: any) {
+    console.error("lp-lockers config error:", e?.message || e);
+    lockerCache = [];
+  }
+  return lockerCache;
+}
+
+export type LpHolderCategory =
+  "incinerator" | "locker" | "eoa" | "program" | "unknown";
+
+export type LpHolder = {
+  tokenAccount: string;
+  owner: string | null;
+  amountRaw: string;
+  pctOfLp: number;
+  category: LpHolderCategory;
+  locker: string | null;
+};
+
+export type LpStatus = LpBurnInfo & {
+  breakdown: {
+    // supply verlaagd via burn
+    burnedPct: number;
+    incineratorPct: number;
+    lockedPct: number;
+    eoaPct: number;
+    programPct: number;
+    // buiten de grootste LP accounts, niet geclassificeerd
+    unclassifiedPct: number;
+  };
+  // verbrand + incinerator + locker: LP die niet zomaar terug kan
+  safePct: number;
+  holders: LpHolder[];
+};
+
+/**
+ * Volledige LP status voor een Raydium pool: het verbrande deel plus een
+ * classificatie van de grootste LP holders. Percentages zijn relatief aan
+ * de LP supply die de pool bijhoudt (dus inclusief verbrande tokens).
+ */
+export async function fetchLpStatus(
+  connection: Connection,
+  pairAddress: string,
+  lockers: LpLocker[] = loadLpLockers()
+): Promise<LpStatus | null> {
+  const burn = await fetchLpBurnInfo(connection, pairAddress);
+  if (!burn) return null;
+
+  const lpReserve = BigInt(burn.lpReserveRaw);
+  const lpSupply = BigInt(burn.lpSupplyRaw);
+  // basis voor percentages; als de pool minder bijhoudt dan er bestaat,
+  // rekenen we met de mint supply
+  const total = lpReserve > lpSupply ? lpReserve : lpSupply;
+  const burned = lpReserve > lpSupply ? lpReserve - lpSupply : 0n;
+
+  const holders: LpHolder[] = [];
+  let classified = 0n;
+  const sums: Record<LpHolderCategory, bigint> = {
+    incinerator: 0n,
+    locker: 0n,
+    eoa: 0n,
+    program: 0n,
+    unknown: 0n,
+  };
+
+  if (lpSupply > 0n) {
+    const largest = await connection.getTokenLargestAccounts(
+      new PublicKey(burn.lpMint)
+    );
+    const rawList = (largest.value || []).filter((r) => r.amount !== "0");
+
+    const tokenInfos = await connection.getMultipleAccountsInfo(
+      rawList.map((r) => r.address)
+    );
+    const owners = tokenInfos.map((info) =>
+      info && info.data.length >= 64
+        ? new PublicKey(info.data.subarray(32, 64))
+        : null
+    );
+
+    // accounts van de owners zelf, om te zien door welk programma ze
+    // beheerd worden (locker vaults zijn PDA's van het locker programma)
+    const ownerKeys = owners.filter((o): o is PublicKey => o !== null);
+    const ownerInfos =
+      ownerKeys.length > 0
+        ? await connection.getMultipleAccountsInfo(ownerKeys)
+        : [];
+    const ownerProgram = new Map<string, string>();
+    ownerKeys.forEach((key, idx) => {
+      const info = ownerInfos[idx];
+      if (info) ownerProgram.set(key.toBase58(), info.owner.toBase58());
+    });
+
+    const lockerById = new Map(lockers.map((l) => [l.programId, l.name]));
+
+    rawList.forEach((raw, idx) => {
+      const owner = owners[idx];
+      const amount = BigInt(raw.amount);
+      const ownerStr = owner?.toBase58() ?? null;
+
+      let category: LpHolderCategory = "unknown";
+      let locker: string | null = null;
+
+      if (ownerStr === INCINERATOR_ADDRESS) {
+        category = "incinerator";
+      } else if (ownerStr && lockerById.has(ownerStr)) {
+        category = "locker";
+        locker = lockerById.get(ownerStr)!;
+      } else if (ownerStr && lockerById.has(ownerProgram.get(ownerStr) ?? "")) {
+        category = "locker";
+        locker = lockerById.get(ownerProgram.get(ownerStr)!)!;
+      } else if (owner && PublicKey.isOnCurve(owner.toBytes())) {
+        category = "eoa";
+      } else if (owner) {
+        category = "program";
+      }
+
+      sums[category] += amount;
+      classified += amount;
+      holders.push({
+        tokenAccount: raw.address.toBase58(),
+        owner: ownerStr,
+        amountRaw: raw.amount,
+        pctOfLp: pctOf(amount, total),
+        category,
+        locker,
+      });
+    });
+  }
+
+  const unclassified = lpSupply > classified ? lpSupply - classified : 0n;
+  const breakdown = {
+    burnedPct: pctOf(burned, total),
+    incineratorPct: pctOf(sums.incinerator, total),
+    lockedPct: pctOf(sums.locker, total),
+    eoaPct: pctOf(sums.eoa, total),
+    programPct: pctOf(sums.program + sums.unknown, total),
+    unclassifiedPct: pctOf(unclassified, total),
+  };
+
+  return {
+    ...burn,
+    breakdown,
+    safePct: pctOf(burned + sums.incinerator + sums.locker, total),
+    holders,
+  };
+}
@@ -0,0 +1,774 @@
+import fs from "fs";
+import {
+  Connection,
+  PublicKey,
+  GetProgramAccountsFilter,
+} from "@solana/web3.js";
+import fetch from "node-fetch";
+import { mapWithConcurrency } from "./rpc-batch";
+import { toUiNumber } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Market data: verwisselbare providers (DexScreener, on-chain, fixtures)
+// -----------------------------------------------------------------------------
+
+export type DexPair = {
+  chainId: string;
+  dexId: string;
+  url: string;
+  pairAddress: string;
+  baseToken: { address: string; symbol: string; name: string };
+  quoteToken: { address: string; symbol: string; name: string };
+  priceUsd?: string;
+  liquidity?: { usd?: number; base?: number; quote?: number };
+  volume?: { h24?: number; h6?: number; h1?: number };
+  fdv?: number;
+  marketCap?: number;
+  // welke provider dit pair heeft aangeleverd
+  source?: string;
+  [key: string]: any;
+};
+
+export interface MarketDataProvider {
+  name: string;
+  getPairsForMint(mint: string): Promise<DexPair[]>;
+  // optioneel: meerdere mints in één upstream call
+  getPairsForMints?(mints: string[]): Promise<Map<string, DexPair[]>>;
+}
+
+export type ProviderAttempt = {
+  provider: string;
+  ok: boolean;
+  pairs: number;
+  ms: number;
+  error?: string;
+};
+
+export type MarketDataResult = {
+  source: string | null;
+  pairs: DexPair[];
+  attempts: ProviderAttempt[];
+};
+
+// -----------------------------------------------------------------------------
+// DexScreener
+// -----------------------------------------------------------------------------
+
+// /latest/dex/tokens accepteert max 30 komma-gescheiden adressen
+const DEXSCREENER_MAX_TOKENS = 30;
+
+export function createDexScreenerProvider(
+  baseUrl = "https://api.dexscreener.com"
+): MarketDataProvider {
+  async function fetchTokens(addresses: string[]): Promise<DexPair[]> {
+    const url = `${baseUrl}/latest/dex/tokens/${addresses.join(",")}`;
+    const res = await fetch(url);
+    if (!res.ok) {
+      throw new Error(
+        `DexScreener error ${res.status} for ${addresses.join(",")}`
+      );
+    }
+    const data: any = await res.json();
+    const pairs: DexPair[] = Array.isArray(data.pairs) ? data.pairs : [];
+    return pairs.map((p) => ({ ...p, source: "dexscreener" }));
+  }
+
+  return {
+    name: "dexscreener",
+    async getPairsForMint(mint: string): Promise<DexPair[]> {
+      return fetchTokens([mint]);
+    },
+    async getPairsForMints(mints: string[]) {
+      const out = new Map<string, DexPair[]>(mints.map((m) => [m, []]));
+      for (let i = 0; i < mints.length; i += DEXSCREENER_MAX_TOKENS) {
+        const pairs = await fetchTokens(
+          mints.slice(i, i + DEXSCREENER_MAX_TOKENS)
+        );
+        // een pair hoort bij elke gevraagde mint aan base- of quote-kant
+        for (const p of pairs) {
+          for (const addr of [p.baseToken?.address, p.quoteToken?.address]) {
+            out.get(addr)?.push(p);
+          }
+        }
+      }
+      return out;
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Fixtures (voor tests en offline ontwikkeling)
+// -----------------------------------------------------------------------------
+
+/**
+ * Fixtures zijn een object `{ [mint]: DexPair[] }`, direct meegegeven of
+ * als pad naar een JSON-bestand.
+ */
+export function createFixtureProvider(
+  fixtures: Record<string, DexPair[]> | string
+): MarketDataProvider {
+  const load = (): Record<string, DexPair[]> =>
+    typeof fixtures === "string"
+      ? JSON.parse(fs.readFileSync(fixtures, "utf8"))
+      : fixtures;
+
+  return {
+    name: "fixture",
+    async getPairsForMint(mint: string): Promise<DexPair[]> {
+      const pairs = load()[mint] ?? [];
+      return pairs.map((p) => ({ ...p, source: "fixture" }));
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// On-chain pool reserves (Raydium AMM v4 / CPMM, Orca Whirlpool)
+// -----------------------------------------------------------------------------
+
+export const RAYDIUM_AMM_V4_PROGRAM_ID = new PublicKey(
+  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8"
+);
+export const RAYDIUM_CPMM_PROGRAM_ID = new PublicKey(
+  "CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C"
+);
+export const ORCA_WHIRLPOOL_PROGRAM_ID = new PublicKey(
+  "whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc"
+);
+
+export const WSOL_MINT = "So11111111111111111111111111111111111111112";
+export const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+export const USDT_MINT = "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB";
+
+const KNOWN_TOKENS: Record<string, { symbol: string; name: string }> = {
+  [WSOL_MINT]: { symbol: "SOL", name: "Wrapped SOL" },
+  [USDC_MINT]: { symbol: "USDC", name: "USD Coin" },
+  [USDT_MINT]: { symbol: "USDT", name: "USDT" },
+};
+
+const STABLE_MINTS = new Set([USDC_MINT, USDT_MINT]);
+
+// Raydium AMM v4 SOL/USDC pool, gebruikt als SOL/USD referentieprijs
+const SOL_USDC_REFERENCE_POOL = new PublicKey(
+  "58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2"
+);
+
+// Layout offsets (bytes) van de pool accounts
+export const AMM_V4 = {
+  size: 752,
+  baseDecimal: 32,
+  quoteDecimal: 40,
+  baseNeedTakePnl: 192,
+  quoteNeedTakePnl: 200,
+  poolOpenTime: 224,
+  baseVault: 336,
+  quoteVault: 368,
+  baseMint: 400,
+  quoteMint: 432,
+  lpMint: 464,
+  lpReserve: 720,
+};
+
+export const CPMM = {
+  size: 637,
+  ammConfig: 8,
+  token0Vault: 72,
+  token1Vault: 104,
+  lpMint: 136,
+  token0Mint: 168,
+  token1Mint: 200,
+  mint0Decimals: 331,
+  mint1Decimals: 332,
+  lpSupply: 333,
+  protocolFees0: 341,
+  protocolFees1: 349,
+  fundFees0: 357,
+  fundFees1: 365,
+  openTime: 373,
+};
+
+// amm_config van een CPMM pool; trade_fee_rate is in miljoensten
+export const CPMM_AMM_CONFIG = {
+  tradeFeeRate: 12,
+};
+
+export const WHIRLPOOL = {
+  size: 653,
+  feeRate: 45,
+  tokenMintA: 101,
+  tokenVaultA: 133,
+  tokenMintB: 181,
+  tokenVaultB: 213,
+};
+
+export type PoolKind = "raydium-amm-v4" | "raydium-cpmm" | "orca-whirlpool";
+
+export type PoolReserves = {
+  kind: PoolKind;
+  pool: string;
+  mintA: string;
+  mintB: string;
+  vaultA: string;
+  vaultB: string;
+  decimalsA: number;
+  decimalsB: number;
+  // ruwe reserves, al gecorrigeerd voor nog niet opgehaalde fees
+  reserveA: bigint;
+  reserveB: bigint;
+  lpMint: string | null;
+  openTime: number | null;
+  feeBps: number | null;
+};
+
+// JSON-vorm voor de cache (redis kan geen bigint serialiseren)
+export type PoolReservesJson = Omit<PoolReserves, "reserveA" | "reserveB"> & {
+  reserveA: string;
+  reserveB: string;
+};
+
+export function poolReservesToJson(pool: PoolReserves): PoolReservesJson {
+  return {
+    ...pool,
+    reserveA: pool.reserveA.toString(),
+    reserveB: pool.reserveB.toString(),
+  };
+}
+
+export function poolReservesFromJson(pool: PoolReservesJson): PoolReserves {
+  return {
+    ...pool,
+    reserveA: BigInt(pool.reserveA),
+    reserveB: BigInt(pool.reserveB),
+  };
+}
+
+export function readPubkey(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+export function readU64(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset);
+}
+
+// SPL token account: amount staat op offset 64
+export function tokenAccountAmount(data: Buffer | undefined | null): bigint {
+  if (!data || data.length < 72) return 0n;
+  return data.readBigUInt64LE(64);
+}
+
+// SPL mint: decimals staat op offset 44
+export function mintDecimals(data: Buffer | undefined | null): number {
+  if (!data || data.length < 45) return 0;
+  return data.readUInt8(44);
+}
+
+function cpmmFeeBps(data: Buffer | undefined): number | null {
+  if (!data || data.length < CPMM_AMM_CONFIG.tradeFeeRate + 8) return null;
+  return Number(readU64(data, CPMM_AMM_CONFIG.tradeFeeRate)) / 100;
+}
+
+function subtractFloor(value: bigint, ...minus: bigint[]): bigint {
+  const out = minus.reduce((acc, m) => acc - m, value);
+  return out > 0n ? out : 0n;
+}
+
+// één scan = memcmp filters die allemaal moeten matchen
+type MintFilter = { offset: number; mint: string };
+
+async function findPoolAccounts(
+  connection: Connection,
+  programId: PublicKey,
+  size: number,
+  scans: MintFilter[][]
+) {
+  const lists = await Promise.all(
+    scans.map((scan) => {
+      const filters: GetProgramAccountsFilter[] = [
+        { dataSize: size },
+        ...scan.map(({ offset, mint }) => ({
+          memcmp: { offset, bytes: mint },
+        })),
+      ];
+      return connection.getProgramAccounts(programId, {
+        commitment: "confirmed",
+        filters,
+      });
+    })
+  );
+  // bij een pool met twee keer dezelfde mint matchen beide scans
+  const seen = new Set<string>();
+  return lists.flat().filter(({ pubkey }) => {
+    const key = pubkey.toBase58();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// beide mint posities van een pool: [offset mint A, offset mint B]
+function scansFor(
+  offsets: [number, number],
+  mint: string,
+  otherMint?: string
+): MintFilter[][] {
+  const [a, b] = offsets;
+  if (!otherMint) return [[{ offset: a, mint }], [{ offset: b, mint }]];
+  return [
+    [
+      { offset: a, mint },
+      { offset: b, mint: otherMint },
+    ],
+    [
+      { offset: a, mint: otherMint },
+      { offset: b, mint },
+    ],
+  ];
+}
+
+/**
+ * Zoekt alle Raydium AMM v4 / CPMM en Orca Whirlpool pools voor een mint
+ * en leest de vault-balansen in één getMultipleAccountsInfo ronde.
+ */
+export function fetchPoolReservesForMint(
+  connection: Connection,
+  mint: string
+): Promise<PoolReserves[]> {
+  return fetchPoolReserves(connection, new PublicKey(mint).toBase58());
+}
+
+/**
+ * Alleen de pools met precies deze twee mints. Goedkoper dan per mint
+ * scannen, zeker als één kant SOL of een stablecoin is.
+ */
+export function fetchPoolReservesForPair(
+  connection: Connection,
+  mintA: string,
+  mintB: string
+): Promise<PoolReserves[]> {
+  return fetchPoolReserves(
+    connection,
+    new PublicKey(mintA).toBase58(),
+    new PublicKey(mintB).toBase58()
+  );
+}
+
+async function fetchPoolReserves(
+  connection: Connection,
+  mint: string,
+  otherMint?: string
+): Promise<PoolReserves[]> {
+  const [ammV4, cpmm, whirlpools] = await Promise.all([
+    findPoolAccounts(
+      connection,
+      RAYDIUM_AMM_V4_PROGRAM_ID,
+      AMM_V4.size,
+      scansFor([AMM_V4.baseMint, AMM_V4.quoteMint], mint, otherMint)
+    ),
+    findPoolAccounts(
+      connection,
+      RAYDIUM_CPMM_PROGRAM_ID,
+      CPMM.size,
+      scansFor([CPMM.token0Mint, CPMM.token1Mint], mint, otherMint)
+    ),
+    findPoolAccounts(
+      connection,
+      ORCA_WHIRLPOOL_PROGRAM_ID,
+      WHIRLPOOL.size,
+      scansFor([WHIRLPOOL.tokenMintA, WHIRLPOOL.tokenMintB], mint, otherMint)
+    ),
+  ]);
+
+  type PendingPool = Omit<PoolReserves, "reserveA" | "reserveB"> & {
+    adjustA: bigint;
+    adjustB: bigint;
+    needMintDecimals: boolean;
+    ammConfig: string | null;
+  };
+  const pending: PendingPool[] = [];
+
+  for (const { pubkey, account } of ammV4) {
+    const d = account.data;
+    pending.push({
+      kind: "raydium-amm-v4",
+      pool: pubkey.toBase58(),
+      mintA: readPubkey(d, AMM_V4.baseMint),
+      mintB: readPubkey(d, AMM_V4.quoteMint),
+      vaultA: readPubkey(d, AMM_V4.baseVault),
+      vaultB: readPubkey(d, AMM_V4.quoteVault),
+      decimalsA: Number(readU64(d, AMM_V4.baseDecimal)),
+      decimalsB: Number(readU64(d, AMM_V4.quoteDecimal)),
+      lpMint: readPubkey(d, AMM_V4.lpMint),
+      openTime: Number(readU64(d, AMM_V4.poolOpenTime)) || null,
+      feeBps: 25,
+      adjustA: readU64(d, AMM_V4.baseNeedTakePnl),
+      adjustB: readU64(d, AMM_V4.quoteNeedTakePnl),
+      needMintDecimals: false,
+      ammConfig: null,
+    });
+  }
+
+  for (const { pubkey, account } of cpmm) {
+    const d = account.data;
+    pending.push({
+      kind: "raydium-cpmm",
+      pool: pubkey.toBase58(),
+      mintA: readPubkey(d, CPMM.token0Mint),
+      mintB: readPubkey(d, CPMM.token1Mint),
+      vaultA: readPubkey(d, CPMM.token0Vault),
+      vaultB: readPubkey(d, CPMM.token1Vault),
+      decimalsA: d.readUInt8(CPMM.mint0Decimals),
+      decimalsB: d.readUInt8(CPMM.mint1Decimals),
+      lpMint: readPubkey(d, CPMM.lpMint),
+      openTime: Number(readU64(d, CPMM.openTime)) || null,
+      // fee staat in de amm_config, die lezen we mee met de vaults
+      feeBps: null,
+      adjustA: readU64(d, CPMM.protocolFees0) + readU64(d, CPMM.fundFees0),
+      adjustB: readU64(d, CPMM.protocolFees1) + readU64(d, CPMM.fundFees1),
+      needMintDecimals: false,
+      ammConfig: readPubkey(d, CPMM.ammConfig),
+    });
+  }
+
+  for (const { pubkey, account } of whirlpools) {
+    const d = account.data;
+    pending.push({
+      kind: "orca-whirlpool",
+      pool: pubkey.toBase58(),
+      mintA: readPubkey(d, WHIRLPOOL.tokenMintA),
+      mintB: readPubkey(d, WHIRLPOOL.tokenMintB),
+      vaultA: readPubkey(d, WHIRLPOOL.tokenVaultA),
+      vaultB: readPubkey(d, WHIRLPOOL.tokenVaultB),
+      decimalsA: 0,
+      decimalsB: 0,
+      lpMint: null,
+      openTime: null,
+      // feeRate is in hundredths of a basis point
+      feeBps: d.readUInt16LE(WHIRLPOOL.feeRate) / 100,
+      adjustA: 0n,
+      adjustB: 0n,
+      needMintDecimals: true,
+      ammConfig: null,
+    });
+  }
+
+  if (pending.length === 0) return [];
+
+  // Vaults (+ mints voor whirlpools) in chunks van 100 ophalen
+  const keys: string[] = [];
+  for (const p of pending) {
+    keys.push(p.vaultA, p.vaultB);
+    if (p.needMintDecimals) keys.push(p.mintA, p.mintB);
+    if (p.ammConfig) keys.push(p.ammConfig);
+  }
+  const uniqueKeys = Array.from(new Set(keys));
+  const dataByKey = new Map<string, Buffer>();
+  for (let i = 0; i < uniqueKeys.length; i += 100) {
+    const chunk = uniqueKeys.slice(i, i + 100);
+    const infos = await connection.getMultipleAccountsInfo(
+      chunk.map((k) => new PublicKey(k)),
+      "confirmed"
+    );
+    infos.forEach((info, idx) => {
+      if (info) dataByKey.set(chunk[idx], info.data);
+    });
+  }
+
+  return pending.map(
+    ({ adjustA, adjustB, needMintDecimals, ammConfig, ...p }) => ({
+      ...p,
+      feeBps: ammConfig ? cpmmFeeBps(dataByKey.get(ammConfig)) : p.feeBps,
+      decimalsA: needMintDecimals
+        ? mintDecimals(dataByKey.get(p.mintA))
+        : p.decimalsA,
+      decimalsB: needMintDecimals
+        ? mintDecimals(dataByKey.get(p.mintB))
+        : p.decimalsB,
+      reserveA: subtractFloor(
+        tokenAccountAmount(dataByKey.get(p.vaultA)),
+        adjustA
+      ),
+      reserveB: subtractFloor(
+        tokenAccountAmount(dataByKey.get(p.vaultB)),
+        adjustB
+      ),
+    })
+  );
+}
+
+export async function fetchSolUsdPrice(
+  connection: Connection
+): Promise<number> {
+  const info = await connection.getAccountInfo(
+    SOL_USDC_REFERENCE_POOL,
+    "confirmed"
+  );
+  if (!info) throw new Error("SOL/USDC reference pool not found");
+
+  const d = info.data;
+  const vaults = await connection.getMultipleAccountsInfo(
+    [
+      new PublicKey(d.subarray(AMM_V4.baseVault, AMM_V4.baseVault + 32)),
+      new PublicKey(d.subarray(AMM_V4.quoteVault, AMM_V4.quoteVault + 32)),
+    ],
+    "confirmed"
+  );
+  const sol = toUiNumber(
+    subtractFloor(
+      tokenAccountAmount(vaults[0]?.data),
+      readU64(d, AMM_V4.baseNeedTakePnl)
+    ),
+    9
+  );
+  const usdc = toUiNumber(
+    subtractFloor(
+      tokenAccountAmount(vaults[1]?.data),
+      readU64(d, AMM_V4.quoteNeedTakePnl)
+    ),
+    6
+  );
+  if (!sol) throw new Error("SOL/USDC reference pool is empty");
+  return usdc / sol;
+}
+
+function poolLabel(kind: PoolKind): { dexId: string; labels: string[] } {
+  switch (kind) {
+    case "raydium-amm-v4":
+      return { dexId: "raydium", labels: ["AMM v4"] };
+    case "raydium-cpmm":
+      return { dexId: "raydium", labels: ["CPMM"] };
+    case "orca-whirlpool":
+      return { dexId: "orca", labels: ["whirlpool"] };
+  }
+}
+
+function tokenRef(address: string) {
+  const known = KNOWN_TOKENS[address];
+  return { address, symbol: known?.symbol ?? "", name: known?.name ?? "" };
+}
+
+/**
+ * Zet on-chain reserves om naar het DexPair formaat, met de opgevraagde
+ * mint als baseToken. Prijs in USD kan alleen als de quote SOL of een
+ * stablecoin is.
+ */
+export function reservesToDexPair(
+  reserves: PoolReserves,
+  mint: string,
+  solUsd: number | null
+): DexPair {
+  const flipped = reserves.mintA !== mint;
+  const baseMint = flipped ? reserves.mintB : reserves.mintA;
+  const quoteMint = flipped ? reserves.mintA : reserves.mintB;
+  const baseAmount = flipped
+    ? toUiNumber(reserves.reserveB, reserves.decimalsB)
+    : toUiNumber(reserves.reserveA, reserves.decimalsA);
+  const quoteAmount = flipped
+    ? toUiNumber(reserves.reserveA, reserves.decimalsA)
+    : toUiNumber(reserves.reserveB, reserves.decimalsB);
+
+  let quoteUsd: number | null = null;
+  if (STABLE_MINTS.has(quoteMint)) quoteUsd = 1;
+  else if (quoteMint === WSOL_MINT) quoteUsd = solUsd;
+
+  const priceNative = baseAmount > 0 ? quoteAmount / baseAmount : 0;
+  const priceUsd = quoteUsd !== null ? priceNative * quoteUsd : null;
+  // constant product: beide kanten zijn evenveel waard
+  const liquidityUsd =
+    quoteUsd !== null ? quoteAmount * quoteUsd * 2 : undefined;
+
+  const { dexId, labels } = poolLabel(reserves.kind);
+
+  return {
+    chainId: "solana",
+    dexId,
+    labels,
+    url: `https://solscan.io/account/${reserves.pool}`,
+    pairAddress: reserves.pool,
+    baseToken: tokenRef(baseMint),
+    quoteToken: tokenRef(quoteMint),
+    priceNative: String(priceNative),
+    priceUsd: priceUsd !== null ? String(priceUsd) : undefined,
+    liquidity: { usd: liquidityUsd, base: baseAmount, quote: quoteAmount },
+    pairCreatedAt: reserves.openTime ? reserves.openTime * 1000 : undefined,
+    source: "onchain",
+  };
+}
+
+export function createOnChainProvider(
+  connection: Connection
+): MarketDataProvider {
+  return {
+    name: "onchain",
+    async getPairsForMint(mint: string): Promise<DexPair[]> {
+      const reserves = await fetchPoolReservesForMint(connection, mint);
+      if (reserves.length === 0) return [];
+
+      let solUsd: number | null = null;
+      if (
+        reserves.some((r) => r.mintA === WSOL_MINT || r.mintB === WSOL_MINT)
+      ) {
+        try {
+          solUsd = await fetchSolUsdPrice(connection);
+        } catch (e: any) {
+          console.error("SOL/USD reference price error:", e?.message || e);
+        }
+      }
+
+      return reserves.map((r) => reservesToDexPair(r, mint, solUsd));
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Selectie via config + fallback
+// -----------------------------------------------------------------------------
+
+export type MarketDataConfig = {
+  // volgorde = fallback volgorde, bv. "dexscreener,onchain"
+  providers: string[];
+  fixturesPath?: string;
+  dexScreenerBaseUrl?: string;
+};
+
+export function marketDataConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): MarketDataConfig {
+  return {
+    providers: (env.MARKET_DATA_PROVIDERS || "dexscreener,onchain")
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter(Boolean),
+    fixturesPath: env.MARKET_DATA_FIXTURES,
+    dexScreenerBaseUrl: env.DEXSCREENER_BASE_URL,
+  };
+}
+
+export function createMarketDataProviders(
+  config: MarketDataConfig,
+  connection: Connection
+): MarketDataProvider[] {
+  return config.providers.map((name) => {
+    switch (name) {
+      case "dexscreener":
+        return createDexScreenerProvider(config.dexScreenerBaseUrl);
+      case "onchain":
+        return createOnChainProvider(connection);
+      case "fixture":
+        if (!config.fixturesPath) {
+          throw new Error(
+            "MARKET_DATA_FIXTURES must be set for the fixture provider"
+          );
+        }
+        return createFixtureProvider(config.fixturesPath);
+      default:
+        throw new Error(`Unknown market data provider: ${name}`);
+    }
+  });
+}
+
+/**
+ * Probeert de providers op volgorde; de eerste die zonder fout antwoordt
+ * wint. Alle pogingen komen mee in `attempts` voor bronvermelding.
+ */
+export async function fetchPairsWithFallback(
+  providers: MarketDataProvider[],
+  mint: string
+): Promise<MarketDataResult> {
+  const attempts: ProviderAttempt[] = [];
+
+  for (const provider of providers) {
+    const started = Date.now();
+    try {
+      const pairs = await provider.getPairsForMint(mint);
+      attempts.push({
+        provider: provider.name,
+        ok: true,
+        pairs: pairs.length,
+        ms: Date.now() - started,
+      });
+      return { source: provider.name, pairs, attempts };
+    } catch (e: any) {
+      console.error(
+        `market data provider ${provider.name} failed:`,
+        e?.message || e
+      );
+      attempts.push({
+        provider: provider.name,
+        ok: false,
+        pairs: 0,
+        ms: Date.now() - started,
+        error: e?.message || String(e),
+      });
+    }
+  }
+
+  const last = attempts[attempts.length - 1];
+  throw new Error(
+    `All market data providers failed${last?.error ? ` (last: ${last.error})` : ""}`
+  );
+}
+
+// providers zonder batch call krijgen de mints los, met deze concurrency
+const PER_MINT_CONCURRENCY = 4;
+
+/**
+ * Batch-variant van fetchPairsWithFallback: elke provider krijgt de mints
+ * die nog geen resultaat hebben, in één call als hij dat ondersteunt.
+ * Mints waarvoor alle providers falen ontbreken in de Map.
+ */
+export async function fetchPairsForMintsWithFallback(
+  providers: MarketDataProvider[],
+  mints: string[]
+): Promise<Map<string, MarketDataResult>> {
+  const results = new Map<string, MarketDataResult>();
+  const attemptsByMint = new Map<string, ProviderAttempt[]>(
+    mints.map((m) => [m, []])
+  );
+  let pending = Array.from(new Set(mints));
+
+  for (const provider of providers) {
+    if (pending.length === 0) break;
+    const started = Date.now();
+
+    const record = (mint: string, pairs: DexPair[] | null, error?: string) => {
+      attemptsByMint.get(mint)!.push({
+        provider: provider.name,
+        ok: pairs !== null,
+        pairs: pairs?.length ?? 0,
+        ms: Date.now() - started,
+        ...(error !== undefined ? { error } : {}),
+      });
+      if (pairs !== null) {
+        results.set(mint, {
+          source: provider.name,
+          pairs,
+          attempts: attemptsByMint.get(mint)!,
+        });
+      }
+    };
+
+    if (provider.getPairsForMints) {
+      try {
+        const byMint = await provider.getPairsForMints(pending);
+        pending.forEach((mint) => record(mint, byMint.get(mint) ?? []));
+      } catch (e: any) {
+        console.error(
+          `market data provider ${provider.name} failed:`,
+          e?.message || e
+        );
+        pending.forEach((mint) => record(mint, null, e?.message || String(e)));
+      }
+    } else {
+      await mapWithConcurrency(pending, PER_MINT_CONCURRENCY, async (mint) => {
+        try {
+          record(mint, await provider.getPairsForMint(mint));
+        } catch (e: any) {
+          record(mint, null, e?.message || String(e));
+        }
+      });
+    }
+
+    pending = pending.filter((mint) => !results.has(mint));
+  }
+
+  return results;
+}
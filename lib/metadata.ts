@@ -0,0 +1,308 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import fetch from "node-fetch";
+import { parseMintAccount } from "./token-programs";
+import {
+  getMultipleAccountsInfoChunked,
+  getMultipleParsedAccountsChunked,
+  mapWithConcurrency,
+} from "./rpc-batch";
+import { checkWebhookTarget, guardedAgent } from "./webhooks";
+
+// -----------------------------------------------------------------------------
+// Metaplex Token Metadata + Token-2022 tokenMetadata extension
+// -----------------------------------------------------------------------------
+
+export const METADATA_PROGRAM_ID = new PublicKey(
+  "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"
+);
+
+export type MetadataCreator = {
+  address: string;
+  verified: boolean;
+  share: number;
+};
+
+export type TokenMetadata = {
+  source: "metaplex" | "token-2022";
+  metadataAddress: string;
+  name: string;
+  symbol: string;
+  uri: string;
+  updateAuthority: string | null;
+  isMutable: boolean;
+  sellerFeeBasisPoints: number | null;
+  creators: MetadataCreator[];
+  offChain?: OffChainMetadata | null;
+};
+
+export type OffChainMetadata = {
+  name?: string;
+  symbol?: string;
+  description?: string;
+  image?: string;
+  [key: string]: any;
+};
+
+export function findMetadataPda(mint: PublicKey): PublicKey {
+  const [pda] = PublicKey.findProgramAddressSync(
+    [Buffer.from("metadata"), METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    METADATA_PROGRAM_ID
+  );
+  return pda;
+}
+
+// Metaplex strings zijn met \0 opgevuld tot een vaste lengte
+function cleanString(value: string): string {
+  return value.replace(/\0/g, "").trim();
+}
+
+/**
+ * Decodeert een Metaplex Metadata account (borsh layout):
+ * key, updateAuthority, mint, name, symbol, uri, sellerFeeBasisPoints,
+ * creators (Option<Vec>), primarySaleHappened, isMutable.
+ */
+export function decodeMetaplexMetadata(
+  data: Buffer,
+  metadataAddress: string
+): TokenMetadata | null {
+  try {
+    let offset = 0;
+
+    const key = data.readUInt8(offset);
+    offset += 1;
+    // 4 = MetadataV1
+    if (key !== 4) return null;
+
+    const updateAuthority = new PublicKey(
+      data.subarray(offset, offset + 32)
+    ).toBase58();
+    offset += 32;
+    // mint
+    offset += 32;
+
+    const readString = (): string => {
+      const len = data.readUInt32LE(offset);
+      offset += 4;
+      const value = data.subarray(offset, offset + len).toString("utf8");
+      offset += len;
+      return cleanString(value);
+    };
+
+    const name = readString();
+    const symbol = readString();
+    const uri = readString();
+
+    const sellerFeeBasisPoints = data.readUInt16LE(offset);
+    offset += 2;
+
+    const creators: MetadataCreator[] = [];
+    const hasCreators = data.readUInt8(offset) === 1;
+    offset += 1;
+    if (hasCreators) {
+      const count = data.readUInt32LE(offset);
+      offset += 4;
+      for (let i = 0; i < count; i++) {
+        const address = new PublicKey(
+          data.subarray(offset, offset + 32)
+        ).toBase58();
+        offset += 32;
+        const verified = data.readUInt8(offset) === 1;
+        offset += 1;
+        const share = data.readUInt8(offset);
+        offset += 1;
+        creators.push({ address, verified, share });
+      }
+    }
+
+    // primarySaleHappened
+    offset += 1;
+    const isMutable = data.readUInt8(offset) === 1;
+
+    return {
+      source: "metaplex",
+      metadataAddress,
+      name,
+      symbol,
+      uri,
+      updateAuthority,
+      isMutable,
+      sellerFeeBasisPoints,
+      creators,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Leest de tokenMetadata extension uit de jsonParsed mint-extensions
+ * (alleen aanwezig als de metadata pointer naar de mint zelf wijst).
+ */
+export function metadataFromTokenExtensions(
+  mint: string,
+  rawExtensions: any[]
+): TokenMetadata | null {
+  const ext = rawExtensions.find((e) => e?.extension === "tokenMetadata");
+  if (!ext?.state) return null;
+
+  const state: any = ext.state;
+  const updateAuthority: string | null = state.updateAuthority ?? null;
+
+  return {
+    source: "token-2022",
+    metadataAddress: mint,
+    name: cleanString(String(state.name ?? "")),
+    symbol: cleanString(String(state.symbol ?? "")),
+    uri: cleanString(String(state.uri ?? "")),
+    updateAuthority,
+    // zonder update authority kan de metadata niet meer gewijzigd worden
+    isMutable: updateAuthority !== null,
+    sellerFeeBasisPoints: null,
+    creators: [],
+  };
+}
+
+/**
+ * Haalt Metaplex metadata op voor een lijst mints, gebundeld in
+ * getMultipleAccountsInfo calls van max 100 accounts.
+ */
+export async function fetchMetaplexMetadataBatch(
+  connection: Connection,
+  mints: string[]
+): Promise<Map<string, TokenMetadata>> {
+  const result = new Map<string, TokenMetadata>();
+  const unique = Array.from(new Set(mints));
+
+  const pdas = unique.map((m) => findMetadataPda(new PublicKey(m)));
+  const infos = await getMultipleAccountsInfoChunked(connection, pdas);
+
+  infos.forEach((info, idx) => {
+    if (!info || !info.owner.equals(METADATA_PROGRAM_ID)) return;
+    const decoded = decodeMetaplexMetadata(info.data, pdas[idx].toBase58());
+    if (decoded) result.set(unique[idx], decoded);
+  });
+
+  return result;
+}
+
+/**
+ * Metadata voor een set mints: eerst Metaplex, daarna voor Token-2022 mints
+ * zonder Metaplex account de tokenMetadata extension op de mint zelf.
+ */
+export async function resolveMetadataBatch(
+  connection: Connection,
+  mints: string[],
+  token2022Mints: string[] = []
+): Promise<Map<string, TokenMetadata>> {
+  const result = await fetchMetaplexMetadataBatch(connection, mints);
+
+  const missing = Array.from(new Set(token2022Mints)).filter(
+    (m) => !result.has(m)
+  );
+  const parsed = await getMultipleParsedAccountsChunked(
+    connection,
+    missing.map((m) => new PublicKey(m))
+  );
+
+  parsed.forEach((account, idx) => {
+    if (!account) return;
+    const mint = parseMintAccount(account);
+    if (!mint) return;
+    const meta = metadataFromTokenExtensions(missing[idx], mint.rawExtensions);
+    if (meta) result.set(missing[idx], meta);
+  });
+
+  return result;
+}
+
+// -----------------------------------------------------------------------------
+// Off-chain JSON (optioneel, via een verwisselbare fetcher)
+// -----------------------------------------------------------------------------
+
+export type JsonFetcher = (uri: string) => Promise<any>;
+
+const OFFCHAIN_TIMEOUT_MS = Number(process.env.OFFCHAIN_TIMEOUT_MS || 5000);
+const OFFCHAIN_MAX_BYTES = Number(process.env.OFFCHAIN_MAX_BYTES || 256 * 1024);
+const OFFCHAIN_MAX_REDIRECTS = 3;
+const OFFCHAIN_CONCURRENCY = Number(process.env.OFFCHAIN_CONCURRENCY || 8);
+const IPFS_GATEWAY = process.env.IPFS_GATEWAY || "https://ipfs.io/ipfs/";
+
+function resolveUri(uri: string): string {
+  if (uri.startsWith("ipfs://")) {
+    return IPFS_GATEWAY + uri.slice("ipfs://".length);
+  }
+  if (uri.startsWith("ar://")) {
+    return "https://arweave.net/" + uri.slice("ar://".length);
+  }
+  return uri;
+}
+
+/**
+ * De URI komt van de token maker: alleen http(s) naar publieke adressen,
+ * elke redirect opnieuw getoetst en een begrensde body.
+ */
+export const httpJsonFetcher: JsonFetcher = async (uri: string) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), OFFCHAIN_TIMEOUT_MS);
+  try {
+    let url = resolveUri(uri);
+    for (let hop = 0; ; hop++) {
+      const { protocol } = new URL(url);
+      if (protocol !== "http:" && protocol !== "https:") {
+        throw new Error(`Off-chain metadata URI is not http(s): ${uri}`);
+      }
+      const blocked = await checkWebhookTarget(url, false);
+      if (blocked) throw new Error(`Off-chain metadata refused: ${blocked}`);
+
+      const res = await fetch(url, {
+        signal: controller.signal as any,
+        redirect: "manual",
+        size: OFFCHAIN_MAX_BYTES,
+        agent: guardedAgent,
+      });
+      const location = res.headers.get("location");
+      if (res.status >= 300 && res.status < 400 && location) {
+        res.body.resume();
+        if (hop >= OFFCHAIN_MAX_REDIRECTS) {
+          throw new Error(`Off-chain metadata: too many redirects for ${uri}`);
+        }
+        url = new URL(location, url).toString();
+        continue;
+      }
+      if (!res.ok) {
+        throw new Error(`Off-chain metadata error ${res.status} for ${uri}`);
+      }
+      return await res.json();
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+let offChainFetcher: JsonFetcher = httpJsonFetcher;
+
+// Tests kunnen hier een lokale stub inzetten.
+export function setOffChainFetcher(fetcher: JsonFetcher): void {
+  offChainFetcher = fetcher;
+}
+
+export async function fetchOffChainMetadata(
+  uri: string
+): Promise<OffChainMetadata | null> {
+  if (!uri) return null;
+  try {
+    const json = await offChainFetcher(uri);
+    return json && typeof json === "object" ? json : null;
+  } catch (e: any) {
+    console.error("off-chain metadata error:", e?.message || e);
+    return null;
+  }
+}
+
+export async function attachOffChainMetadata(
+  list: TokenMetadata[]
+): Promise<void> {
+  await mapWithConcurrency(list, OFFCHAIN_CONCURRENCY, async (meta) => {
+    meta.offChain = await fetchOffChainMetadata(meta.uri);
+  });
+}
@@ -0,0 +1,339 @@
+import { Infer, InferShape, JsonSchema, Schema, Shape } from "./schema";
+
+// -----------------------------------------------------------------------------
+// Routes als data: params + response schema per endpoint. Daaruit komen de
+// request validatie, de OpenAPI 3 spec en de response types.
+// -----------------------------------------------------------------------------
+
+export type HttpMethod = "get" | "post" | "delete";
+
+export type RouteInputSource = "query" | "body" | "params";
+
+export type ApiRoute = {
+  method: HttpMethod;
+  // express-notatie, bv. /api/webhooks/:id
+  path: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  query?: Shape;
+  body?: Shape;
+  params?: Shape;
+  response: Schema<any, any>;
+  // status van het normale antwoord (201, 202, ...)
+  status?: number;
+  // andere content type dan JSON, bv. text/event-stream
+  contentType?: string;
+  // extra statussen naast 200 / 400 / 500
+  otherResponses?: Record<number, string>;
+  // tokens uit de rate limit bucket (default 1); mag van de input afhangen
+  cost?: number | ((req: { query: any; body: any }) => number);
+  // alleen met een admin API key
+  admin?: boolean;
+};
+
+export function defineRoute<const R extends ApiRoute>(route: R): R {
+  return route;
+}
+
+type ShapeOf<R, K extends RouteInputSource> = R extends {
+  [key in K]: infer S extends Shape;
+}
+  ? InferShape<S>
+  : {};
+
+export type RouteInput<R extends ApiRoute> = {
+  query: ShapeOf<R, "query">;
+  body: ShapeOf<R, "body">;
+  params: ShapeOf<R, "params">;
+};
+
+export type RouteResponse<R extends ApiRoute> = Infer<R["response"]>;
+
+/** Route voor een method + pad, of null (bv. voor / en /docs). */
+export function matchRoute(
+  routes: ApiRoute[],
+  method: string,
+  path: string
+): ApiRoute | null {
+  const segments = path.replace(/\/+$/, "").split("/");
+  for (const route of routes) {
+    if (route.method !== method.toLowerCase()) continue;
+    const parts = route.path.split("/");
+    if (
+      parts.length === segments.length &&
+      parts.every((p, i) => p.startsWith(":") || p === segments[i])
+    ) {
+      return route;
+    }
+  }
+  return null;
+}
+
+export function routeCost(
+  route: ApiRoute | null,
+  req: { query: any; body: any }
+): number {
+  if (!route || route.cost === undefined) return 1;
+  const cost = typeof route.cost === "function" ? route.cost(req) : route.cost;
+  return Math.max(1, Math.ceil(cost));
+}
+
+// uniforme 400: welke param, waar, en waarom
+export type ValidationError = {
+  error: string;
+  field: string;
+  in: RouteInputSource;
+};
+
+/**
+ * Valideert query, body en route params van een request tegen de route.
+ * Geeft de geparste (getrimde, omgezette) waarden terug of de eerste fout.
+ */
+export function parseRequest<R extends ApiRoute>(
+  route: R,
+  req: { query?: unknown; body?: unknown; params?: unknown }
+):
+  | { ok: true; input: RouteInput<R> }
+  | ({ ok: false; status: 400 } & ValidationError) {
+  const input: Record<string, any> = {};
+  for (const source of ["params", "query", "body"] as const) {
+    const shape = route[source];
+    input[source] = {};
+    if (!shape) continue;
+
+    const value = req[source] ?? {};
+    if (typeof value !== "object" || Array.isArray(value)) {
+      return {
+        ok: false,
+        status: 400,
+        error: `${source} must be a JSON object`,
+        field: source,
+        in: source,
+      };
+    }
+
+    for (const [key, schema] of Object.entries(shape)) {
+      const raw = (value as any)[key];
+      const missing =
+        raw === undefined ||
+        raw === null ||
+        (typeof raw === "string" && raw.trim() === "");
+      if (missing && schema.required) {
+        return {
+          ok: false,
+          status: 400,
+          error: `${key} is required`,
+          field: key,
+          in: source,
+        };
+      }
+      const parsed = schema.parse(raw, key);
+      if (!parsed.ok) {
+        return {
+          ok: false,
+          status: 400,
+          error: parsed.error,
+          field: parsed.field ?? key,
+          in: source,
+        };
+      }
+      if (parsed.value !== undefined) input[source][key] = parsed.value;
+    }
+  }
+  return { ok: true, input: input as RouteInput<R> };
+}
+
+// -----------------------------------------------------------------------------
+// OpenAPI 3 document
+// -----------------------------------------------------------------------------
+
+const VALIDATION_ERROR_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    error: {
+      type: "string",
+      example: "limit must be an integer between 1 and 100",
+    },
+    field: { type: "string", example: "limit" },
+    in: { type: "string", enum: ["query", "body", "params"] },
+  },
+  required: ["error", "field", "in"],
+};
+
+const ERROR_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+  },
+  required: ["error"],
+};
+
+// /api/webhooks/:id -> /api/webhooks/{id}
+function openApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+}
+
+function operationId(route: ApiRoute): string {
+  const words = route.path
+    .replace(/^\/api\//, "")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  return [route.method, ...words]
+    .map((w, i) => (i === 0 ? w : w[0].toUpperCase() + w.slice(1)))
+    .join("");
+}
+
+function parametersOf(route: ApiRoute): JsonSchema[] {
+  const params: JsonSchema[] = [];
+  for (const source of ["params", "query"] as const) {
+    for (const [name, schema] of Object.entries(route[source] ?? {})) {
+      const { description, ...rest } = schema.json;
+      params.push({
+        name,
+        in: source === "params" ? "path" : "query",
+        required: source === "params" || schema.required,
+        ...(description ? { description } : {}),
+        schema: rest,
+        // lijsten gaan als a,b,c in de query
+        ...(rest.type === "array" ? { style: "form", explode: false } : {}),
+      });
+    }
+  }
+  return params;
+}
+
+function bodyOf(shape: Shape): JsonSchema {
+  const required = Object.keys(shape).filter((k) => shape[k].required);
+  return {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: Object.fromEntries(
+            Object.entries(shape).map(([k, s]) => [k, s.json])
+          ),
+          ...(required.length ? { required } : {}),
+        },
+      },
+    },
+  };
+}
+
+export function buildOpenApiDocument(opts: {
+  title: string;
+  version: string;
+  description?: string;
+  routes: ApiRoute[];
+  components: Record<string, JsonSchema>;
+}): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const route of opts.routes) {
+    const status = route.status ?? 200;
+    const responses: Record<string, JsonSchema> = {
+      [status]: {
+        description: route.summary,
+        content: {
+          [route.contentType ?? "application/json"]: {
+            schema: route.response.json,
+          },
+        },
+      },
+    };
+    if (route.query || route.body || route.params) {
+      responses[400] = {
+        description: "Invalid input",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/ValidationError" },
+          },
+        },
+      };
+    }
+    const other: Record<number, string> = {
+      401: "Missing or unknown API key",
+      403: route.admin
+        ? "API key is not an admin key"
+        : "Origin not allowed for this API key",
+      429: "Rate limit exceeded (see Retry-After and X-RateLimit-* headers)",
+      ...route.otherResponses,
+    };
+    for (const [code, description] of Object.entries(other)) {
+      responses[code] = {
+        description,
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Error" },
+          },
+        },
+      };
+    }
+    responses[500] = {
+      description: "Unexpected error",
+      content: {
+        "application/json": {
+          schema: { $ref: "#/components/schemas/Error" },
+        },
+      },
+    };
+
+    const path = openApiPath(route.path);
+    paths[path] = paths[path] ?? {};
+    paths[path][route.method] = {
+      operationId: operationId(route),
+      tags: [route.tag],
+      summary: route.summary,
+      ...(route.description ? { description: route.description } : {}),
+      parameters: parametersOf(route),
+      ...(route.body ? { requestBody: bodyOf(route.body) } : {}),
+      responses,
+      // anoniem mag ook (met een lage limiet), behalve voor admin routes
+      security: route.admin ? [{ ApiKey: [] }] : [{}, { ApiKey: [] }],
+      "x-cost":
+        typeof route.cost === "function" ? "variable" : (route.cost ?? 1),
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: opts.title,
+      version: opts.version,
+      ...(opts.description ? { description: opts.description } : {}),
+    },
+    paths,
+    components: {
+      schemas: {
+        ...opts.components,
+        ValidationError: VALIDATION_ERROR_SCHEMA,
+        Error: ERROR_SCHEMA,
+      },
+      securitySchemes: {
+        ApiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+    },
+  };
+}
+
+/** Simpele docs pagina: Swagger UI van een CDN op de gegeven spec URL. */
+export function docsPage(title: string, specUrl: string): string {
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${title}</title>
+    <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: "#swagger-ui" });
+    </script>
+  </body>
+</html>
+`;
+}
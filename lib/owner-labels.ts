@@ -0,0 +1,149 @@
+import fs from "fs";
+import path from "path";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { getMultipleAccountsInfoChunked } from "./rpc-batch";
+import { Concentration, concentrationOf } from "./holders";
+import { pctOf, sumRaw } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Owners labelen: wallet, PDA, DEX, exchange of burn (address book in JSON)
+// -----------------------------------------------------------------------------
+
+export type OwnerCategory = "wallet" | "pda" | "dex" | "exchange" | "burn";
+
+export type OwnerLabel = {
+  category: OwnerCategory;
+  // naam uit het address book of van het DEX programma
+  name: string | null;
+  // programma dat het owner account beheert (null = geen account)
+  ownerProgram: string | null;
+  // pool vaults, bonding curves, exchanges en burn adressen zijn geen
+  // "echte" holders en tellen niet mee in de concentratie zonder infra
+  infrastructure: boolean;
+};
+
+type AddressBookEntry = { address: string; name: string };
+
+export type AddressBook = {
+  burn: AddressBookEntry[];
+  exchanges: AddressBookEntry[];
+  // owners die zelf geen account hebben maar wel pool vaults beheren
+  dexAuthorities: AddressBookEntry[];
+  dexPrograms: AddressBookEntry[];
+};
+
+const INFRASTRUCTURE: OwnerCategory[] = ["dex", "exchange", "burn"];
+
+const ADDRESS_BOOK_FILE =
+  process.env.ADDRESS_BOOK_FILE ||
+  path.join(__dirname, "..", "config", "address-book.json");
+
+let addressBookCache: AddressBook | null = null;
+
+export function loadAddressBook(): AddressBook {
+  if (addressBookCache) return addressBookCache;
+  const empty: AddressBook = {
+    burn: [],
+    exchanges: [],
+    dexAuthorities: [],
+    dexPrograms: [],
+  };
+  try {
+    const raw = JSON.parse(fs.readFileSync(ADDRESS_BOOK_FILE, "utf8"));
+    addressBookCache = { ...empty, ...raw };
+  } catch (e: any) {
+    console.error("address-book config error:", e?.message || e);
+    addressBookCache = empty;
+  }
+  return addressBookCache!;
+}
+
+function label(
+  category: OwnerCategory,
+  name: string | null,
+  ownerProgram: string | null
+): OwnerLabel {
+  return {
+    category,
+    name,
+    ownerProgram,
+    infrastructure: INFRASTRUCTURE.includes(category),
+  };
+}
+
+/**
+ * Labelt owners: eerst via het address book (burn, exchange, DEX
+ * authority), daarna via het programma dat het owner account beheert
+ * (DEX programma = pool of bonding curve). De rest is een PDA (off-curve)
+ * of een gewone wallet.
+ */
+export async function classifyOwners(
+  connection: Connection,
+  owners: string[],
+  book: AddressBook = loadAddressBook()
+): Promise<Map<string, OwnerLabel>> {
+  const out = new Map<string, OwnerLabel>();
+  const listed = new Map<string, OwnerLabel>();
+  for (const e of book.burn) listed.set(e.address, label("burn", e.name, null));
+  for (const e of book.exchanges) {
+    listed.set(e.address, label("exchange", e.name, null));
+  }
+  for (const e of book.dexAuthorities) {
+    listed.set(e.address, label("dex", e.name, null));
+  }
+  const dexPrograms = new Map(book.dexPrograms.map((e) => [e.address, e.name]));
+
+  const unknown: string[] = [];
+  for (const owner of Array.from(new Set(owners))) {
+    const hit = listed.get(owner);
+    if (hit) out.set(owner, hit);
+    else unknown.push(owner);
+  }
+
+  const infos = await getMultipleAccountsInfoChunked(
+    connection,
+    unknown.map((o) => new PublicKey(o))
+  );
+
+  unknown.forEach((owner, idx) => {
+    const ownerProgram = infos[idx]?.owner.toBase58() ?? null;
+    const dexName = ownerProgram ? dexPrograms.get(ownerProgram) : undefined;
+    if (dexName) {
+      out.set(owner, label("dex", dexName, ownerProgram));
+    } else if (!PublicKey.isOnCurve(new PublicKey(owner).toBytes())) {
+      out.set(owner, label("pda", null, ownerProgram));
+    } else {
+      out.set(owner, label("wallet", null, ownerProgram));
+    }
+  });
+
+  return out;
+}
+
+export type ConcentrationReport = {
+  raw: Concentration;
+  // zonder infrastructuur, relatief aan de supply min wat infra aanhoudt
+  excludingInfrastructure: Concentration;
+  infrastructurePct: number;
+};
+
+/**
+ * Concentratie van een (op grootte gesorteerde) holder lijst, één keer
+ * zoals hij is en één keer zonder DEX / exchange / burn owners.
+ */
+export function concentrationReport(
+  holders: { amountRaw: string; label: OwnerLabel | null }[],
+  supplyRaw: string
+): ConcentrationReport {
+  const supply = BigInt(supplyRaw);
+  const infra = holders.filter((h) => h.label?.infrastructure);
+  const infraAmount = sumRaw(infra.map((h) => h.amountRaw));
+  const others = holders.filter((h) => !h.label?.infrastructure);
+  const rest = supply - infraAmount;
+
+  return {
+    raw: concentrationOf(holders, supply),
+    excludingInfrastructure: concentrationOf(others, rest > 0n ? rest : 0n),
+    infrastructurePct: pctOf(infraAmount, supply),
+  };
+}
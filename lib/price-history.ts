@@ -0,0 +1,369 @@
+import fs from "fs";
+import path from "path";
+import {
+  Connection,
+  Finality,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  TokenBalance,
+} from "@solana/web3.js";
+import { PoolReserves, fetchPoolReservesForMint } from "./market-data";
+import { CONSTANT_PRODUCT_KINDS, QUOTE_MINTS } from "./quote";
+import { PARSED_TX_CHUNK, keyString } from "./wallet-history";
+import { chunk } from "./rpc-batch";
+import { toUiNumber } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Price history: samples van de hoofdpool (reserves of swaps) in een lokale
+// file store, en OHLCV candles daaruit
+// -----------------------------------------------------------------------------
+
+export const PRICE_INTERVALS = {
+  "1m": 60_000,
+  "5m": 300_000,
+  "1h": 3_600_000,
+  "1d": 86_400_000,
+} as const;
+
+export type PriceInterval = keyof typeof PRICE_INTERVALS;
+
+// zonder `from` zoveel candles terug vanaf `to`
+export const PRICE_DEFAULT_CANDLES = 300;
+export const PRICE_MAX_CANDLES = Number(process.env.PRICE_MAX_CANDLES || 5000);
+export const PRICE_BACKFILL_MAX_TXS = Number(
+  process.env.PRICE_BACKFILL_MAX_TXS || 300
+);
+
+export const PRICE_HISTORY_DIR =
+  process.env.PRICE_HISTORY_DIR ||
+  path.join(__dirname, "..", "data", "price-history");
+
+// ouder dan dit aantal samples per mint wordt weggegooid
+const PRICE_MAX_SAMPLES = Number(process.env.PRICE_MAX_SAMPLES || 200_000);
+
+export type PriceSample = {
+  // unix ms
+  t: number;
+  // quote token per base token, in ui units
+  price: number;
+  // base token, ui units; 0 voor reserve samples
+  volume: number;
+  pool: string;
+  quoteMint: string;
+  source: "reserves" | "swap";
+  // alleen bij swaps, om dubbele backfills te herkennen
+  signature?: string;
+};
+
+/**
+ * Eén JSONL bestand per mint. Nieuwe samples achteraan toevoegen kan
+ * direct; backfill (oudere samples) of snoeien herschrijft het bestand via
+ * een tmp bestand + rename, net als de whale snapshots.
+ */
+export function createPriceStore(dir = PRICE_HISTORY_DIR) {
+  const fileFor = (mint: string) => path.join(dir, `${mint}.jsonl`);
+
+  // schrijfacties per mint na elkaar: de recorder en een backfill request
+  // zouden anders elkaars read-modify-write overschrijven
+  const writing = new Map<string, Promise<void>>();
+  function queued<T>(mint: string, fn: () => Promise<T>): Promise<T> {
+    const run = (writing.get(mint) ?? Promise.resolve()).then(fn);
+    const done = run.then(
+      () => {},
+      () => {}
+    );
+    writing.set(mint, done);
+    done.then(() => {
+      if (writing.get(mint) === done) writing.delete(mint);
+    });
+    return run;
+  }
+
+  async function list(mint: string): Promise<PriceSample[]> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(fileFor(mint), "utf8");
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return [];
+      throw e;
+    }
+    return raw
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as PriceSample)
+      .sort((a, b) => a.t - b.t);
+  }
+
+  /** Voegt samples toe en geeft terug hoeveel er nieuw waren. */
+  function add(mint: string, samples: PriceSample[]): Promise<number> {
+    return queued(mint, () => write(mint, samples));
+  }
+
+  async function write(mint: string, samples: PriceSample[]): Promise<number> {
+    const existing = await list(mint);
+    const known = new Set(
+      existing.map((s) => s.signature).filter((sig) => sig !== undefined)
+    );
+    const fresh = samples.filter(
+      (s) => s.signature === undefined || !known.has(s.signature)
+    );
+    if (fresh.length === 0) return 0;
+
+    await fs.promises.mkdir(dir, { recursive: true });
+    const file = fileFor(mint);
+    const last = existing[existing.length - 1]?.t ?? 0;
+    const total = existing.length + fresh.length;
+
+    if (fresh.every((s) => s.t >= last) && total <= PRICE_MAX_SAMPLES) {
+      await fs.promises.appendFile(
+        file,
+        fresh.map((s) => JSON.stringify(s)).join("\n") + "\n"
+      );
+    } else {
+      const keep = [...existing, ...fresh]
+        .sort((a, b) => a.t - b.t)
+        .slice(-PRICE_MAX_SAMPLES);
+      const tmp = `${file}.tmp`;
+      await fs.promises.writeFile(
+        tmp,
+        keep.map((s) => JSON.stringify(s)).join("\n") + "\n"
+      );
+      await fs.promises.rename(tmp, file);
+    }
+    return fresh.length;
+  }
+
+  return { list, add };
+}
+
+export type PriceStore = ReturnType<typeof createPriceStore>;
+
+/**
+ * Hoofdpool van een mint: constant-product tegen SOL of een stablecoin
+ * (in die volgorde), de diepste per quote mint.
+ */
+export function mainPool(
+  pools: PoolReserves[],
+  mint: string
+): PoolReserves | null {
+  const quoteOf = (p: PoolReserves) => (p.mintA === mint ? p.mintB : p.mintA);
+  const quoteReserve = (p: PoolReserves) =>
+    p.mintA === mint ? p.reserveB : p.reserveA;
+
+  const usable = pools.filter(
+    (p) =>
+      CONSTANT_PRODUCT_KINDS.includes(p.kind) &&
+      (p.mintA === mint || p.mintB === mint) &&
+      QUOTE_MINTS.includes(quoteOf(p)) &&
+      p.reserveA > 0n &&
+      p.reserveB > 0n
+  );
+  usable.sort((a, b) => {
+    const rank =
+      QUOTE_MINTS.indexOf(quoteOf(a)) - QUOTE_MINTS.indexOf(quoteOf(b));
+    if (rank !== 0) return rank;
+    const diff = quoteReserve(b) - quoteReserve(a);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  });
+  return usable[0] ?? null;
+}
+
+// base / quote kant van een pool vanuit `mint`
+function sides(pool: PoolReserves, mint: string) {
+  const baseIsA = pool.mintA === mint;
+  return {
+    quoteMint: baseIsA ? pool.mintB : pool.mintA,
+    baseVault: baseIsA ? pool.vaultA : pool.vaultB,
+    quoteVault: baseIsA ? pool.vaultB : pool.vaultA,
+    baseReserve: baseIsA ? pool.reserveA : pool.reserveB,
+    quoteReserve: baseIsA ? pool.reserveB : pool.reserveA,
+    baseDecimals: baseIsA ? pool.decimalsA : pool.decimalsB,
+    quoteDecimals: baseIsA ? pool.decimalsB : pool.decimalsA,
+  };
+}
+
+/** Spot prijs uit de reserves van de pool, als sample op tijdstip `t`. */
+export function reserveSample(
+  pool: PoolReserves,
+  mint: string,
+  t = Date.now()
+): PriceSample {
+  const side = sides(pool, mint);
+  return {
+    t,
+    price:
+      toUiNumber(side.quoteReserve, side.quoteDecimals) /
+      toUiNumber(side.baseReserve, side.baseDecimals),
+    volume: 0,
+    pool: pool.pool,
+    quoteMint: side.quoteMint,
+    source: "reserves",
+  };
+}
+
+// verandering van één token account in een transactie
+function vaultDelta(tx: ParsedTransactionWithMeta, vault: string): bigint {
+  const idx = tx.transaction.message.accountKeys.findIndex(
+    (k) => keyString(k.pubkey) === vault
+  );
+  if (idx < 0) return 0n;
+  const amount = (balances: TokenBalance[] | null | undefined) =>
+    BigInt(
+      (balances || []).find((b) => b.accountIndex === idx)?.uiTokenAmount
+        .amount ?? "0"
+    );
+  return amount(tx.meta?.postTokenBalances) - amount(tx.meta?.preTokenBalances);
+}
+
+/**
+ * Swap samples uit transacties van de pool: de vaults bewegen in
+ * tegengestelde richting, prijs = quote / base van die beweging. Puur,
+ * werkt ook op opgenomen transactie-JSON.
+ */
+export function swapSamples(
+  txs: ParsedTransactionWithMeta[],
+  pool: PoolReserves,
+  mint: string
+): PriceSample[] {
+  const side = sides(pool, mint);
+  const samples: PriceSample[] = [];
+  for (const tx of txs) {
+    if (tx.meta?.err || !tx.blockTime) continue;
+    const base = vaultDelta(tx, side.baseVault);
+    const quote = vaultDelta(tx, side.quoteVault);
+    // liquidity toevoegen / weghalen beweegt beide vaults dezelfde kant op
+    if (base === 0n || quote === 0n || base > 0n === quote > 0n) continue;
+
+    const baseUi = toUiNumber(base < 0n ? -base : base, side.baseDecimals);
+    const quoteUi = toUiNumber(quote < 0n ? -quote : quote, side.quoteDecimals);
+    samples.push({
+      t: tx.blockTime * 1000,
+      price: quoteUi / baseUi,
+      volume: baseUi,
+      pool: pool.pool,
+      quoteMint: side.quoteMint,
+      source: "swap",
+      signature: tx.transaction.signatures[0],
+    });
+  }
+  return samples;
+}
+
+/** Huidige reserves van de hoofdpool, of null als er geen bruikbare is. */
+export async function samplePrice(
+  connection: Connection,
+  mint: string
+): Promise<{ pool: PoolReserves; sample: PriceSample } | null> {
+  const pool = mainPool(await fetchPoolReservesForMint(connection, mint), mint);
+  return pool ? { pool, sample: reserveSample(pool, mint) } : null;
+}
+
+/**
+ * Swaps uit de laatste `maxTxs` transacties van de pool. Samples die al in
+ * de store staan filtert de store zelf weg (op signature).
+ */
+export async function backfillSwaps(
+  connection: Connection,
+  pool: PoolReserves,
+  mint: string,
+  maxTxs = PRICE_BACKFILL_MAX_TXS
+): Promise<{ signatures: number; samples: PriceSample[] }> {
+  const finality: Finality =
+    connection.commitment === "finalized" ? "finalized" : "confirmed";
+  const signatures = (
+    await connection.getSignaturesForAddress(
+      new PublicKey(pool.pool),
+      { limit: Math.min(maxTxs, 1000) },
+      finality
+    )
+  ).filter((s) => !s.err);
+
+  const samples: PriceSample[] = [];
+  for (const part of chunk(signatures, PARSED_TX_CHUNK)) {
+    const txs = await connection.getParsedTransactions(
+      part.map((s) => s.signature),
+      { commitment: finality, maxSupportedTransactionVersion: 0 }
+    );
+    samples.push(
+      ...swapSamples(
+        txs.filter((tx): tx is ParsedTransactionWithMeta => tx !== null),
+        pool,
+        mint
+      )
+    );
+  }
+  return { signatures: signatures.length, samples };
+}
+
+// UDF formaat (TradingView datafeed): kolommen met tijden in unix seconden
+export type Candles =
+  | {
+      s: "ok";
+      t: number[];
+      o: number[];
+      h: number[];
+      l: number[];
+      c: number[];
+      v: number[];
+    }
+  | {
+      s: "no_data";
+      // laatste candle van vóór `from`, zodat een chart verder terug kan
+      nextTime?: number;
+    };
+
+/**
+ * OHLCV candles tussen `from` en `to` (ms, `to` exclusief). Alleen samples
+ * met dezelfde quote mint als de laatste tellen mee; buckets zonder
+ * samples worden overgeslagen.
+ */
+export function buildCandles(
+  samples: PriceSample[],
+  interval: PriceInterval,
+  from: number,
+  to: number
+): Candles {
+  const step = PRICE_INTERVALS[interval];
+  const quoteMint = samples[samples.length - 1]?.quoteMint;
+  const usable = samples.filter(
+    (s) => s.quoteMint === quoteMint && Number.isFinite(s.price)
+  );
+
+  const candles: Extract<Candles, { s: "ok" }> = {
+    s: "ok",
+    t: [],
+    o: [],
+    h: [],
+    l: [],
+    c: [],
+    v: [],
+  };
+  for (const sample of usable) {
+    if (sample.t < from || sample.t >= to) continue;
+    const bucket = Math.floor(sample.t / step) * step;
+    const last = candles.t.length - 1;
+    if (last >= 0 && candles.t[last] === bucket / 1000) {
+      candles.h[last] = Math.max(candles.h[last], sample.price);
+      candles.l[last] = Math.min(candles.l[last], sample.price);
+      candles.c[last] = sample.price;
+      candles.v[last] += sample.volume;
+    } else {
+      candles.t.push(bucket / 1000);
+      candles.o.push(sample.price);
+      candles.h.push(sample.price);
+      candles.l.push(sample.price);
+      candles.c.push(sample.price);
+      candles.v.push(sample.volume);
+    }
+  }
+
+  if (candles.t.length > 0) return candles;
+  const before = usable.filter((s) => s.t < from);
+  return before.length > 0
+    ? {
+        s: "no_data",
+        nextTime:
+          (Math.floor(before[before.length - 1].t / step) * step) / 1000,
+      }
+    : { s: "no_data" };
+}
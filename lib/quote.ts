@@ -0,0 +1,219 @@
+import { formatUnits, pctOf, toUiNumber } from "./amounts";
+import {
+  PoolKind,
+  PoolReserves,
+  USDC_MINT,
+  USDT_MINT,
+  WSOL_MINT,
+} from "./market-data";
+
+// -----------------------------------------------------------------------------
+// Swap quotes op constant-product pools (x * y = k), exact in bigint.
+// Whirlpools zijn concentrated liquidity en vallen hier buiten.
+// -----------------------------------------------------------------------------
+
+// fees rekenen we in miljoensten (CPMM amm_config gebruikt dezelfde noemer)
+const FEE_DENOMINATOR = 1_000_000n;
+
+export const CONSTANT_PRODUCT_KINDS: PoolKind[] = [
+  "raydium-amm-v4",
+  "raydium-cpmm",
+];
+
+// de kant waar "verkopen" naartoe gaat: SOL of een stablecoin
+export const QUOTE_MINTS = [WSOL_MINT, USDC_MINT, USDT_MINT];
+
+export type SwapMath = {
+  amountOut: bigint;
+  // fee in input token units, gaat van amountIn af
+  feeAmount: bigint;
+};
+
+/**
+ * Output van een constant-product swap. De fee gaat eerst van de input af
+ * (naar boven afgerond), de output wordt naar beneden afgerond, net als
+ * de Raydium programs zelf doen.
+ */
+export function constantProductSwap(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeBps: number
+): SwapMath {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) {
+    return { amountOut: 0n, feeAmount: 0n };
+  }
+  const feeRate = BigInt(Math.round(feeBps * 100));
+  const feeAmount =
+    (amountIn * feeRate + FEE_DENOMINATOR - 1n) / FEE_DENOMINATOR;
+  const inAfterFee = amountIn - feeAmount;
+  const amountOut = (reserveOut * inAfterFee) / (reserveIn + inAfterFee);
+  return { amountOut, feeAmount };
+}
+
+/**
+ * Hoeveel de prijs beweegt door de swap, zonder de fee: 1 - execution /
+ * spot. Bij x * y = k is dat precies inAfterFee / (reserveIn + inAfterFee).
+ */
+export function priceImpactPct(
+  amountIn: bigint,
+  feeAmount: bigint,
+  reserveIn: bigint
+): number {
+  const inAfterFee = amountIn - feeAmount;
+  return pctOf(inAfterFee, reserveIn + inAfterFee);
+}
+
+export type PoolQuote = {
+  pool: string;
+  kind: PoolKind;
+  feeBps: number;
+  inputMint: string;
+  outputMint: string;
+  reserveIn: string;
+  reserveOut: string;
+  amountInRaw: string;
+  amountIn: string;
+  amountOutRaw: string;
+  amountOut: string;
+  feeAmountRaw: string;
+  feeAmount: string;
+  // output per input, in ui units
+  spotPrice: number;
+  executionPrice: number;
+  priceImpactPct: number;
+};
+
+/**
+ * Quote voor één pool, of null als de pool niet bruikbaar is: geen
+ * constant-product, onbekende fee, lege reserves of nog niet open.
+ */
+export function quotePool(
+  pool: PoolReserves,
+  inputMint: string,
+  amountIn: bigint,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): PoolQuote | null {
+  if (!CONSTANT_PRODUCT_KINDS.includes(pool.kind)) return null;
+  if (pool.feeBps === null) return null;
+  if (pool.openTime !== null && pool.openTime > nowSeconds) return null;
+
+  const aToB = pool.mintA === inputMint;
+  if (!aToB && pool.mintB !== inputMint) return null;
+
+  const [reserveIn, reserveOut] = aToB
+    ? [pool.reserveA, pool.reserveB]
+    : [pool.reserveB, pool.reserveA];
+  const [decimalsIn, decimalsOut] = aToB
+    ? [pool.decimalsA, pool.decimalsB]
+    : [pool.decimalsB, pool.decimalsA];
+  if (reserveIn <= 0n || reserveOut <= 0n) return null;
+
+  const { amountOut, feeAmount } = constantProductSwap(
+    amountIn,
+    reserveIn,
+    reserveOut,
+    pool.feeBps
+  );
+  const uiIn = toUiNumber(amountIn, decimalsIn);
+
+  return {
+    pool: pool.pool,
+    kind: pool.kind,
+    feeBps: pool.feeBps,
+    inputMint,
+    outputMint: aToB ? pool.mintB : pool.mintA,
+    reserveIn: formatUnits(reserveIn, decimalsIn),
+    reserveOut: formatUnits(reserveOut, decimalsOut),
+    amountInRaw: amountIn.toString(),
+    amountIn: formatUnits(amountIn, decimalsIn),
+    amountOutRaw: amountOut.toString(),
+    amountOut: formatUnits(amountOut, decimalsOut),
+    feeAmountRaw: feeAmount.toString(),
+    feeAmount: formatUnits(feeAmount, decimalsIn),
+    spotPrice:
+      toUiNumber(reserveOut, decimalsOut) / toUiNumber(reserveIn, decimalsIn),
+    executionPrice: uiIn > 0 ? toUiNumber(amountOut, decimalsOut) / uiIn : 0,
+    priceImpactPct: priceImpactPct(amountIn, feeAmount, reserveIn),
+  };
+}
+
+/**
+ * Alle bruikbare pools tussen twee mints, beste (meeste output) eerst.
+ * De eerste is de beste single-pool route.
+ */
+export function quoteRoutes(
+  pools: PoolReserves[],
+  inputMint: string,
+  outputMint: string,
+  amountIn: bigint
+): PoolQuote[] {
+  const quotes: PoolQuote[] = [];
+  for (const pool of pools) {
+    const quote = quotePool(pool, inputMint, amountIn);
+    if (quote && quote.outputMint === outputMint) quotes.push(quote);
+  }
+  return quotes.sort((a, b) => {
+    const diff = BigInt(b.amountOutRaw) - BigInt(a.amountOutRaw);
+    return diff > 0n ? 1 : diff < 0n ? -1 : a.priceImpactPct - b.priceImpactPct;
+  });
+}
+
+// decimals van een mint volgens de pool (de mint zelf hoeft niet opgehaald)
+export function poolMintDecimals(
+  pools: PoolReserves[],
+  mint: string
+): number | null {
+  for (const p of pools) {
+    if (p.mintA === mint) return p.decimalsA;
+    if (p.mintB === mint) return p.decimalsB;
+  }
+  return null;
+}
+
+export type SellImpact = {
+  pctOfSupply: number;
+  amountRaw: string;
+  amount: string;
+  pool: string;
+  kind: PoolKind;
+  outputMint: string;
+  amountOut: string;
+  priceImpactPct: number;
+};
+
+/**
+ * Wat verkopen van `pct`% van de supply doet in de diepste pool tegen SOL
+ * of een stablecoin. "Diepst" = laagste price impact, want de output is
+ * tussen SOL en USDC niet direct vergelijkbaar.
+ */
+export function sellImpact(
+  pools: PoolReserves[],
+  mint: string,
+  supplyRaw: bigint,
+  pct: number
+): SellImpact | null {
+  // pct als fixed point met 6 decimalen, zodat 0.5% ook exact gaat
+  const amountRaw =
+    (supplyRaw * BigInt(Math.round(pct * 1_000_000))) / 100_000_000n;
+  if (amountRaw <= 0n) return null;
+
+  let best: PoolQuote | null = null;
+  for (const pool of pools) {
+    const quote = quotePool(pool, mint, amountRaw);
+    if (!quote || !QUOTE_MINTS.includes(quote.outputMint)) continue;
+    if (!best || quote.priceImpactPct < best.priceImpactPct) best = quote;
+  }
+  if (!best) return null;
+
+  return {
+    pctOfSupply: pct,
+    amountRaw: amountRaw.toString(),
+    amount: best.amountIn,
+    pool: best.pool,
+    kind: best.kind,
+    outputMint: best.outputMint,
+    amountOut: best.amountOut,
+    priceImpactPct: best.priceImpactPct,
+  };
+}
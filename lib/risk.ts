@@ -0,0 +1,324 @@
+import fs from "fs";
+import path from "path";
+
+// -----------------------------------------------------------------------------
+// Risk scoring: regels met gewicht, drempels uit een JSON-profiel
+// -----------------------------------------------------------------------------
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export type RuleId =
+  | "mint-authority"
+  | "freeze-authority"
+  | "token-extensions"
+  | "liquidity-present"
+  | "liquidity-depth"
+  | "holder-concentration"
+  | "lp-burn"
+  | "pool-age"
+  | "metadata-mutable";
+
+export type RiskProfile = {
+  name: string;
+  description?: string;
+  // score (0-100) vanaf waar het niveau omhoog gaat
+  levels: { medium: number; high: number };
+  weights: Record<RuleId, number>;
+  // minimaal risiconiveau als deze regel faalt
+  severity: Partial<Record<RuleId, RiskLevel | null>>;
+  thresholds: {
+    veryLowLiquidityUsd: number;
+    lowLiquidityUsd: number;
+    maxTop1Pct: number;
+    maxTop10Pct: number;
+    minLpBurnedPct: number;
+    minPoolAgeHours: number;
+  };
+};
+
+export type RuleResult = {
+  id: RuleId;
+  weight: number;
+  // null = niet te beoordelen (data ontbreekt), telt niet mee in de score
+  passed: boolean | null;
+  severity: RiskLevel | null;
+  message: string;
+  evidence: Record<string, any>;
+};
+
+export type RiskInput = {
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  extensionRisk: { dangerous: boolean; reasons: string[] };
+  trustedLiquidityUsd: number;
+  trustedPoolCount: number;
+  // concentratie uit de grootste token accounts, null als onbekend
+  concentration: { top1: number; top10: number } | null;
+  lp: { pairAddress: string; burnedPct: number; lockedPct: number } | null;
+  poolCreatedAt: number | null;
+  metadata: { isMutable: boolean; updateAuthority: string | null } | null;
+  now?: number;
+};
+
+export type RiskAssessment = {
+  profile: string;
+  score: number;
+  riskLevel: RiskLevel;
+  rules: RuleResult[];
+};
+
+// -----------------------------------------------------------------------------
+// Profielen laden (RISK_PROFILES_DIR, default ./risk-profiles)
+// -----------------------------------------------------------------------------
+
+const RISK_PROFILES_DIR =
+  process.env.RISK_PROFILES_DIR || path.join(__dirname, "..", "risk-profiles");
+
+const profileCache = new Map<string, RiskProfile>();
+
+function readProfileFile(name: string): any {
+  const file = path.join(RISK_PROFILES_DIR, `${name}.json`);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * Laadt een profiel op naam. Elk profiel wordt over `default.json` heen
+ * gelegd, zodat een team alleen de afwijkende gewichten en drempels hoeft
+ * op te geven. Geeft null voor onbekende (of ongeldige) namen.
+ */
+export function loadRiskProfile(name = "default"): RiskProfile | null {
+  if (!/^[a-z0-9_-]+$/i.test(name)) return null;
+
+  const cached = profileCache.get(name);
+  if (cached) return cached;
+
+  const base = readProfileFile("default");
+  if (!base) {
+    throw new Error(`Default risk profile not found in ${RISK_PROFILES_DIR}`);
+  }
+  const override = name === "default" ? {} : readProfileFile(name);
+  if (!override) return null;
+
+  const profile: RiskProfile = {
+    ...base,
+    ...override,
+    name,
+    levels: { ...base.levels, ...override.levels },
+    weights: { ...base.weights, ...override.weights },
+    severity: { ...base.severity, ...override.severity },
+    thresholds: { ...base.thresholds, ...override.thresholds },
+  };
+  profileCache.set(name, profile);
+  return profile;
+}
+
+// -----------------------------------------------------------------------------
+// Regels
+// -----------------------------------------------------------------------------
+
+function rule(
+  profile: RiskProfile,
+  id: RuleId,
+  passed: boolean | null,
+  message: string,
+  evidence: Record<string, any>
+): RuleResult {
+  return {
+    id,
+    weight: profile.weights[id] ?? 0,
+    passed,
+    severity: passed === false ? (profile.severity[id] ?? null) : null,
+    message,
+    evidence,
+  };
+}
+
+export function evaluateRules(
+  input: RiskInput,
+  profile: RiskProfile
+): RuleResult[] {
+  const t = profile.thresholds;
+  const now = input.now ?? Date.now();
+  const rules: RuleResult[] = [];
+
+  rules.push(
+    rule(
+      profile,
+      "mint-authority",
+      input.mintAuthority === null,
+      input.mintAuthority === null
+        ? "Mint authority revoked (immutable supply)."
+        : "Mint authority is still set (mintable token).",
+      { mintAuthority: input.mintAuthority }
+    )
+  );
+
+  rules.push(
+    rule(
+      profile,
+      "freeze-authority",
+      input.freezeAuthority === null,
+      input.freezeAuthority === null
+        ? "Freeze authority revoked (no freeze control)."
+        : "Freeze authority is still set.",
+      { freezeAuthority: input.freezeAuthority }
+    )
+  );
+
+  rules.push(
+    rule(
+      profile,
+      "token-extensions",
+      !input.extensionRisk.dangerous,
+      input.extensionRisk.dangerous
+        ? "Dangerous Token-2022 extensions found."
+        : "No dangerous Token-2022 extensions.",
+      { reasons: input.extensionRisk.reasons }
+    )
+  );
+
+  const liq = input.trustedLiquidityUsd;
+  rules.push(
+    rule(
+      profile,
+      "liquidity-present",
+      input.trustedPoolCount > 0 && liq >= t.veryLowLiquidityUsd,
+      input.trustedPoolCount === 0
+        ? "No pools found on trusted DEXes."
+        : `Trusted liquidity ≈ $${liq.toFixed(2)} (minimum $${t.veryLowLiquidityUsd}).`,
+      {
+        trustedPoolCount: input.trustedPoolCount,
+        liquidityUsd: liq,
+        thresholdUsd: t.veryLowLiquidityUsd,
+      }
+    )
+  );
+
+  rules.push(
+    rule(
+      profile,
+      "liquidity-depth",
+      liq >= t.lowLiquidityUsd,
+      liq >= t.lowLiquidityUsd
+        ? `Liquidity depth ok (≥ $${t.lowLiquidityUsd}).`
+        : `Low liquidity (< $${t.lowLiquidityUsd}).`,
+      { liquidityUsd: liq, thresholdUsd: t.lowLiquidityUsd }
+    )
+  );
+
+  const c = input.concentration;
+  rules.push(
+    rule(
+      profile,
+      "holder-concentration",
+      c ? c.top1 <= t.maxTop1Pct && c.top10 <= t.maxTop10Pct : null,
+      c
+        ? `Top holder owns ${c.top1.toFixed(2)}%, top 10 own ${c.top10.toFixed(2)}% of supply.`
+        : "Holder concentration unknown.",
+      {
+        top1Pct: c?.top1 ?? null,
+        top10Pct: c?.top10 ?? null,
+        maxTop1Pct: t.maxTop1Pct,
+        maxTop10Pct: t.maxTop10Pct,
+      }
+    )
+  );
+
+  // verbrand en gelockt tellen allebei als "kan niet weggehaald worden"
+  const lp = input.lp;
+  const lpSafePct = lp ? lp.burnedPct + lp.lockedPct : null;
+  rules.push(
+    rule(
+      profile,
+      "lp-burn",
+      lpSafePct !== null ? lpSafePct >= t.minLpBurnedPct : null,
+      lp
+        ? `${lp.burnedPct.toFixed(2)}% of LP tokens burned and ${lp.lockedPct.toFixed(2)}% locked in the largest pool.`
+        : "LP burn status unknown (no supported pool).",
+      {
+        pairAddress: lp?.pairAddress ?? null,
+        burnedPct: lp?.burnedPct ?? null,
+        lockedPct: lp?.lockedPct ?? null,
+        minBurnedPct: t.minLpBurnedPct,
+      }
+    )
+  );
+
+  const ageHours =
+    input.poolCreatedAt !== null
+      ? (now - input.poolCreatedAt) / (60 * 60 * 1000)
+      : null;
+  rules.push(
+    rule(
+      profile,
+      "pool-age",
+      ageHours !== null ? ageHours >= t.minPoolAgeHours : null,
+      ageHours !== null
+        ? `Largest pool is ${ageHours.toFixed(1)} hours old.`
+        : "Pool age unknown.",
+      {
+        poolCreatedAt: input.poolCreatedAt,
+        ageHours,
+        minPoolAgeHours: t.minPoolAgeHours,
+      }
+    )
+  );
+
+  const meta = input.metadata;
+  rules.push(
+    rule(
+      profile,
+      "metadata-mutable",
+      meta ? !meta.isMutable : null,
+      meta
+        ? meta.isMutable
+          ? "Token metadata is mutable (name/logo can change)."
+          : "Token metadata is immutable."
+        : "No token metadata found.",
+      {
+        isMutable: meta?.isMutable ?? null,
+        updateAuthority: meta?.updateAuthority ?? null,
+      }
+    )
+  );
+
+  return rules;
+}
+
+const LEVEL_ORDER: RiskLevel[] = ["low", "medium", "high"];
+
+function maxLevel(a: RiskLevel, b: RiskLevel): RiskLevel {
+  return LEVEL_ORDER.indexOf(a) >= LEVEL_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Score = gewicht van de gefaalde regels / gewicht van alle beoordeelde
+ * regels, geschaald naar 0-100 (hoger = riskanter). Het niveau volgt uit
+ * de score, maar een gefaalde regel met een severity tilt het minimaal
+ * naar dat niveau.
+ */
+export function assessRisk(
+  input: RiskInput,
+  profile: RiskProfile
+): RiskAssessment {
+  const rules = evaluateRules(input, profile);
+
+  const evaluated = rules.filter((r) => r.passed !== null);
+  const totalWeight = evaluated.reduce((acc, r) => acc + r.weight, 0);
+  const failedWeight = evaluated
+    .filter((r) => r.passed === false)
+    .reduce((acc, r) => acc + r.weight, 0);
+  const score =
+    totalWeight > 0 ? Math.round((failedWeight / totalWeight) * 100) : 0;
+
+  let riskLevel: RiskLevel = "low";
+  if (score >= profile.levels.high) riskLevel = "high";
+  else if (score >= profile.levels.medium) riskLevel = "medium";
+
+  for (const r of rules) {
+    if (r.severity) riskLevel = maxLevel(riskLevel, r.severity);
+  }
+
+  return { profile: profile.name, score, riskLevel, rules };
+}
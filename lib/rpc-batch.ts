@@ -0,0 +1,75 @@
+import {
+  AccountInfo,
+  Connection,
+  ParsedAccountData,
+  PublicKey,
+} from "@solana/web3.js";
+
+// -----------------------------------------------------------------------------
+// Batch helpers: RPC werk in chunks + per-item resultaten
+// -----------------------------------------------------------------------------
+
+// getMultipleAccountsInfo accepteert max 100 keys per call
+export const MULTIPLE_ACCOUNTS_CHUNK = 100;
+
+export const BATCH_MAX_ITEMS = Number(process.env.BATCH_MAX_ITEMS || 100);
+
+export function chunk<T>(list: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < list.length; i += size) {
+    out.push(list.slice(i, i + size));
+  }
+  return out;
+}
+
+export async function getMultipleAccountsInfoChunked(
+  connection: Connection,
+  keys: PublicKey[]
+): Promise<(AccountInfo<Buffer> | null)[]> {
+  const out: (AccountInfo<Buffer> | null)[] = [];
+  for (const part of chunk(keys, MULTIPLE_ACCOUNTS_CHUNK)) {
+    out.push(...(await connection.getMultipleAccountsInfo(part)));
+  }
+  return out;
+}
+
+export async function getMultipleParsedAccountsChunked(
+  connection: Connection,
+  keys: PublicKey[]
+): Promise<(AccountInfo<Buffer | ParsedAccountData> | null)[]> {
+  const out: (AccountInfo<Buffer | ParsedAccountData> | null)[] = [];
+  for (const part of chunk(keys, MULTIPLE_ACCOUNTS_CHUNK)) {
+    const res = await connection.getMultipleParsedAccounts(part);
+    out.push(...res.value);
+  }
+  return out;
+}
+
+// Eén item uit een batch: resultaat of een eigen foutmelding
+export type BatchItem<T> =
+  | { key: string; ok: true; result: T }
+  | { key: string; ok: false; status: number; error: string };
+
+/**
+ * Voert `fn` uit voor elk item met maximaal `limit` tegelijk, zodat een
+ * grote batch de RPC niet in één keer overspoelt. Volgorde blijft gelijk.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        const idx = next++;
+        out[idx] = await fn(items[idx], idx);
+      }
+    }
+  );
+  await Promise.all(workers);
+  return out;
+}
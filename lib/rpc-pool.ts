@@ -0,0 +1,355 @@
+import { Commitment, Connection } from "@solana/web3.js";
+
+// -----------------------------------------------------------------------------
+// RPC pool: meerdere endpoints met gewichten, health checks, failover en
+// retries op 429 / 5xx. Naar buiten gaat alleen het label, nooit de URL.
+// -----------------------------------------------------------------------------
+
+export type RpcEndpointConfig = {
+  label: string;
+  // kan een API key bevatten, daarom nooit in responses
+  url: string;
+  weight: number;
+  wsUrl?: string;
+};
+
+export type RpcEndpointStatus = {
+  label: string;
+  weight: number;
+  healthy: boolean;
+  slot: number | null;
+  // achterstand op het hoogste slot van alle endpoints
+  slotLag: number | null;
+  latencyMs: number | null;
+  // over de laatste RPC_ERROR_WINDOW requests
+  errorRate: number;
+  requests: number;
+  errors: number;
+  lastError: string | null;
+  lastCheckedAt: string | null;
+  coolingDownUntil: string | null;
+};
+
+export const RPC_COMMITMENTS: Commitment[] = [
+  "processed",
+  "confirmed",
+  "finalized",
+];
+
+const RPC_MAX_ATTEMPTS = Number(process.env.RPC_MAX_ATTEMPTS || 3);
+const RPC_TIMEOUT_MS = Number(process.env.RPC_TIMEOUT_MS || 30_000);
+const RPC_RETRY_BASE_MS = Number(process.env.RPC_RETRY_BASE_MS || 250);
+export const RPC_HEALTH_INTERVAL_MS = Number(
+  process.env.RPC_HEALTH_INTERVAL_MS || 15_000
+);
+const RPC_HEALTH_TIMEOUT_MS = Number(process.env.RPC_HEALTH_TIMEOUT_MS || 5000);
+const RPC_MAX_SLOT_LAG = Number(process.env.RPC_MAX_SLOT_LAG || 50);
+const RPC_MAX_ERROR_RATE = Number(process.env.RPC_MAX_ERROR_RATE || 0.5);
+const RPC_ERROR_WINDOW = 50;
+// zonder Retry-After header slaan we een endpoint na een 429 zo lang over
+const RPC_RATE_LIMIT_COOLDOWN_MS = 1000;
+
+function labelFromUrl(url: string): string {
+  try {
+    // alleen de host; keys zitten in path of query
+    return new URL(url).hostname;
+  } catch {
+    return "rpc";
+  }
+}
+
+/**
+ * Leest de endpoints uit RPC_ENDPOINTS, een JSON array met
+ * `{ label, url, weight?, wsUrl? }`. Zonder RPC_ENDPOINTS is er één
+ * endpoint: `fallbackUrl` (RPC_URL of Helius), met RPC_LABEL als label.
+ */
+export function loadRpcEndpoints(
+  fallbackUrl: string,
+  env: NodeJS.ProcessEnv = process.env
+): RpcEndpointConfig[] {
+  if (!env.RPC_ENDPOINTS) {
+    return [
+      {
+        label: env.RPC_LABEL || labelFromUrl(fallbackUrl),
+        url: fallbackUrl,
+        weight: 1,
+      },
+    ];
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(env.RPC_ENDPOINTS);
+  } catch {
+    throw new Error("RPC_ENDPOINTS must be a JSON array");
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error("RPC_ENDPOINTS must be a non-empty JSON array");
+  }
+
+  const labels = new Set<string>();
+  return raw.map((e: any, idx: number) => {
+    if (typeof e?.url !== "string" || !/^https?:\/\//.test(e.url)) {
+      throw new Error(`RPC_ENDPOINTS[${idx}].url must be an http(s) URL`);
+    }
+    const label =
+      typeof e.label === "string" && e.label ? e.label : labelFromUrl(e.url);
+    if (labels.has(label)) {
+      throw new Error(`RPC_ENDPOINTS label "${label}" is used twice`);
+    }
+    labels.add(label);
+    const weight = e.weight === undefined ? 1 : Number(e.weight);
+    if (!isFinite(weight) || weight <= 0) {
+      throw new Error(`RPC_ENDPOINTS[${idx}].weight must be > 0`);
+    }
+    return {
+      label,
+      url: e.url,
+      weight,
+      ...(typeof e.wsUrl === "string" ? { wsUrl: e.wsUrl } : {}),
+    };
+  });
+}
+
+type EndpointState = {
+  config: RpcEndpointConfig;
+  slot: number | null;
+  latencyMs: number | null;
+  lastCheckedAt: number | null;
+  checkError: string | null;
+  // true = gelukt, laatste RPC_ERROR_WINDOW requests
+  outcomes: boolean[];
+  requests: number;
+  errors: number;
+  lastError: string | null;
+  cooldownUntil: number;
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+export function createRpcPool(
+  endpoints: RpcEndpointConfig[],
+  defaultCommitment: Commitment = "confirmed"
+) {
+  const states: EndpointState[] = endpoints.map((config) => ({
+    config,
+    slot: null,
+    latencyMs: null,
+    lastCheckedAt: null,
+    checkError: null,
+    outcomes: [],
+    requests: 0,
+    errors: 0,
+    lastError: null,
+    cooldownUntil: 0,
+  }));
+  // websockets (subscriptions) lopen via het zwaarste endpoint
+  const primary = states.reduce((a, b) =>
+    b.config.weight > a.config.weight ? b : a
+  );
+
+  const errorRate = (s: EndpointState) =>
+    s.outcomes.length
+      ? s.outcomes.filter((ok) => !ok).length / s.outcomes.length
+      : 0;
+
+  const maxSlot = () =>
+    Math.max(0, ...states.map((s) => (s.checkError ? 0 : (s.slot ?? 0))));
+
+  const slotLag = (s: EndpointState) =>
+    s.slot === null || s.checkError ? null : maxSlot() - s.slot;
+
+  function isHealthy(s: EndpointState): boolean {
+    const lag = slotLag(s);
+    return (
+      s.checkError === null &&
+      (lag === null || lag <= RPC_MAX_SLOT_LAG) &&
+      errorRate(s) <= RPC_MAX_ERROR_RATE &&
+      Date.now() >= s.cooldownUntil
+    );
+  }
+
+  function pushOutcome(s: EndpointState, ok: boolean) {
+    s.outcomes.push(ok);
+    if (s.outcomes.length > RPC_ERROR_WINDOW) s.outcomes.shift();
+  }
+
+  function record(s: EndpointState, ok: boolean, error?: string) {
+    s.requests += 1;
+    pushOutcome(s, ok);
+    if (!ok) {
+      s.errors += 1;
+      s.lastError = error ?? null;
+    }
+  }
+
+  // gewogen random over gezonde endpoints; zijn er geen, dan het minst slechte
+  function pick(exclude: Set<EndpointState>): EndpointState | null {
+    const open = states.filter((s) => !exclude.has(s));
+    if (open.length === 0) return null;
+
+    const healthy = open.filter(isHealthy);
+    if (healthy.length === 0) {
+      return open.sort((a, b) => errorRate(a) - errorRate(b))[0];
+    }
+
+    const total = healthy.reduce((acc, s) => acc + s.config.weight, 0);
+    let r = Math.random() * total;
+    for (const s of healthy) {
+      r -= s.config.weight;
+      if (r <= 0) return s;
+    }
+    return healthy[healthy.length - 1];
+  }
+
+  /**
+   * Fetch voor web3.js: stuurt elke JSON-RPC call naar een endpoint uit de
+   * pool en probeert bij netwerkfouten, 429 of 5xx een ander (of, met maar
+   * één endpoint, hetzelfde na een korte backoff).
+   */
+  async function pooledFetch(
+    init: RequestInit | undefined,
+    onServed?: (label: string) => void
+  ): Promise<Response> {
+    const tried = new Set<EndpointState>();
+    let lastResponse: Response | null = null;
+    let lastError: any = null;
+
+    for (let attempt = 0; attempt < RPC_MAX_ATTEMPTS; attempt++) {
+      let s = pick(tried);
+      if (!s) {
+        tried.clear();
+        s = pick(tried)!;
+      }
+      tried.add(s);
+      if (attempt > 0) await sleep(RPC_RETRY_BASE_MS * 2 ** (attempt - 1));
+
+      try {
+        const res = await fetch(s.config.url, {
+          ...init,
+          signal: init?.signal ?? AbortSignal.timeout(RPC_TIMEOUT_MS),
+        });
+        if (isRetryableStatus(res.status)) {
+          record(s, false, `HTTP ${res.status}`);
+          if (res.status === 429) {
+            const retryAfter = Number(res.headers.get("retry-after"));
+            s.cooldownUntil =
+              Date.now() +
+              (retryAfter > 0 ? retryAfter * 1000 : RPC_RATE_LIMIT_COOLDOWN_MS);
+          }
+          lastResponse = res;
+          continue;
+        }
+        record(s, true);
+        onServed?.(s.config.label);
+        return res;
+      } catch (e: any) {
+        record(s, false, e?.message || String(e));
+        lastError = e;
+      }
+    }
+
+    // web3.js maakt van de laatste foutstatus zelf een nette error
+    if (lastResponse) return lastResponse;
+    throw lastError ?? new Error("No RPC endpoint available");
+  }
+
+  /**
+   * Connection met eigen commitment die via de pool loopt. `onServed` hoort
+   * welk endpoint elke call beantwoordde (voor het label in de response).
+   */
+  function connection(
+    commitment: Commitment = defaultCommitment,
+    onServed?: (label: string) => void
+  ): Connection {
+    return new Connection(primary.config.url, {
+      commitment,
+      wsEndpoint: primary.config.wsUrl,
+      // retries doet de pool zelf, over alle endpoints heen
+      disableRetryOnRateLimit: true,
+      fetch: (_input, init) => pooledFetch(init, onServed),
+    });
+  }
+
+  async function checkEndpoint(s: EndpointState) {
+    const started = Date.now();
+    try {
+      const res = await fetch(s.config.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "getSlot",
+          params: [{ commitment: defaultCommitment }],
+        }),
+        signal: AbortSignal.timeout(RPC_HEALTH_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const json: any = await res.json();
+      if (typeof json?.result !== "number") {
+        throw new Error(json?.error?.message || "Invalid getSlot response");
+      }
+      s.slot = json.result;
+      s.latencyMs = Date.now() - started;
+      s.checkError = null;
+      // geslaagde checks tellen mee, zodat een endpoint weer kan herstellen
+      pushOutcome(s, true);
+    } catch (e: any) {
+      s.latencyMs = null;
+      s.checkError = e?.message || String(e);
+      pushOutcome(s, false);
+    } finally {
+      s.lastCheckedAt = Date.now();
+    }
+  }
+
+  async function checkHealth(): Promise<void> {
+    await Promise.all(states.map(checkEndpoint));
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+
+  function startHealthChecks(intervalMs = RPC_HEALTH_INTERVAL_MS) {
+    if (timer) return;
+    checkHealth();
+    timer = setInterval(checkHealth, intervalMs);
+  }
+
+  function status(): RpcEndpointStatus[] {
+    return states.map((s) => ({
+      label: s.config.label,
+      weight: s.config.weight,
+      healthy: isHealthy(s),
+      slot: s.slot,
+      slotLag: slotLag(s),
+      latencyMs: s.latencyMs,
+      errorRate: errorRate(s),
+      requests: s.requests,
+      errors: s.errors,
+      lastError: s.checkError ?? s.lastError,
+      lastCheckedAt: s.lastCheckedAt
+        ? new Date(s.lastCheckedAt).toISOString()
+        : null,
+      coolingDownUntil:
+        s.cooldownUntil > Date.now()
+          ? new Date(s.cooldownUntil).toISOString()
+          : null,
+    }));
+  }
+
+  return {
+    connection,
+    checkHealth,
+    startHealthChecks,
+    status,
+    labels: () => states.map((s) => s.config.label),
+    defaultCommitment,
+  };
+}
+
+export type RpcPool = ReturnType<typeof createRpcPool>;
@@ -0,0 +1,389 @@
+import { PublicKey } from "@solana/web3.js";
+
+// -----------------------------------------------------------------------------
+// Kleine schema-DSL: één definitie geeft validatie (query / body / params),
+// een JSON Schema voor de OpenAPI spec en een TypeScript type via Infer<>
+// -----------------------------------------------------------------------------
+
+export type JsonSchema = { [key: string]: any };
+
+export type ParseResult<T> =
+  { ok: true; value: T } | { ok: false; error: string; field?: string };
+
+export type Schema<T, Opt extends boolean = boolean> = {
+  json: JsonSchema;
+  // false = mag ontbreken (optional of met default)
+  required: boolean;
+  // alleen voor het type: key is optioneel in Infer<>
+  readonly optionalKey?: Opt;
+  parse(value: unknown, field: string): ParseResult<T>;
+};
+
+export type Infer<S> = S extends Schema<infer T, any> ? T : never;
+
+export type Shape = Record<string, Schema<any, boolean>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends Schema<any, true> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+  }
+>;
+
+// query strings komen als "" binnen als de param leeg is
+function isMissing(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "")
+  );
+}
+
+const ok = <T>(value: T): ParseResult<T> => ({ ok: true, value });
+const fail = <T>(error: string, field?: string): ParseResult<T> => ({
+  ok: false,
+  error,
+  field,
+});
+
+function make<T>(
+  json: JsonSchema,
+  parse: (value: unknown, field: string) => ParseResult<T>
+): Schema<T, false> {
+  return { json, required: true, parse };
+}
+
+// bij ?a=1&a=2 geeft express een array; we nemen dan de laatste waarde
+function scalar(value: unknown): unknown {
+  return Array.isArray(value) ? value[value.length - 1] : value;
+}
+
+function string(
+  opts: { minLength?: number; maxLength?: number } = {}
+): Schema<string, false> {
+  return make(
+    {
+      type: "string",
+      ...(opts.minLength !== undefined ? { minLength: opts.minLength } : {}),
+      ...(opts.maxLength !== undefined ? { maxLength: opts.maxLength } : {}),
+    },
+    (raw, field) => {
+      const value = scalar(raw);
+      if (typeof value !== "string")
+        return fail(`${field} must be a string`, field);
+      const s = value.trim();
+      if (opts.minLength !== undefined && s.length < opts.minLength) {
+        return fail(
+          `${field} must be at least ${opts.minLength} characters long`,
+          field
+        );
+      }
+      if (opts.maxLength !== undefined && s.length > opts.maxLength) {
+        return fail(
+          `${field} must be at most ${opts.maxLength} characters`,
+          field
+        );
+      }
+      return ok(s);
+    }
+  );
+}
+
+/** Base58 Solana adres (wallet, mint, pool). */
+function address(): Schema<string, false> {
+  return make(
+    { type: "string", format: "solana-address", example: WSOL_EXAMPLE },
+    (raw, field) => {
+      const value = scalar(raw);
+      if (typeof value !== "string")
+        return fail(`${field} must be a string`, field);
+      const s = value.trim();
+      try {
+        new PublicKey(s);
+      } catch {
+        return fail(`${field} must be a valid Solana address`, field);
+      }
+      return ok(s);
+    }
+  );
+}
+
+const WSOL_EXAMPLE = "So11111111111111111111111111111111111111112";
+
+function rangeText(opts: { min?: number; max?: number }): string {
+  if (opts.min !== undefined && opts.max !== undefined) {
+    return ` between ${opts.min} and ${opts.max}`;
+  }
+  if (opts.min !== undefined) return ` >= ${opts.min}`;
+  if (opts.max !== undefined) return ` <= ${opts.max}`;
+  return "";
+}
+
+/** Getal uit een query string of JSON body; "abc" of NaN geeft een fout. */
+function number(
+  opts: { min?: number; max?: number; integer?: boolean } = {}
+): Schema<number, false> {
+  const kind = opts.integer ? "an integer" : "a number";
+  const message = (field: string) =>
+    `${field} must be ${kind}${rangeText(opts)}`;
+  return make(
+    {
+      type: opts.integer ? "integer" : "number",
+      ...(opts.min !== undefined ? { minimum: opts.min } : {}),
+      ...(opts.max !== undefined ? { maximum: opts.max } : {}),
+    },
+    (raw, field) => {
+      const value = scalar(raw);
+      const n =
+        typeof value === "number"
+          ? value
+          : typeof value === "string" &&
+              /^-?\d*\.?\d+(e[+-]?\d+)?$/i.test(value.trim())
+            ? Number(value.trim())
+            : NaN;
+      if (
+        !isFinite(n) ||
+        (opts.integer && !Number.isInteger(n)) ||
+        (opts.min !== undefined && n < opts.min) ||
+        (opts.max !== undefined && n > opts.max)
+      ) {
+        return fail(message(field), field);
+      }
+      return ok(n);
+    }
+  );
+}
+
+function boolean(): Schema<boolean, false> {
+  return make({ type: "boolean" }, (value, field) =>
+    typeof value === "boolean"
+      ? ok(value)
+      : fail(`${field} must be a boolean`, field)
+  );
+}
+
+/** Vlag: 1/0 in de query, true/false in een JSON body. */
+function flag(): Schema<boolean, false> {
+  return make(
+    { type: "boolean", description: "1/0 or true/false" },
+    (raw, field) => {
+      const value = scalar(raw);
+      if (value === true || value === "1" || value === "true") return ok(true);
+      if (value === false || value === "0" || value === "false") {
+        return ok(false);
+      }
+      return fail(`${field} must be 1 or 0`, field);
+    }
+  );
+}
+
+function enumOf<const V extends string>(
+  values: readonly V[]
+): Schema<V, false> {
+  return make({ type: "string", enum: [...values] }, (raw, field) => {
+    const value = scalar(raw);
+    const s = typeof value === "string" ? value.trim() : value;
+    return values.includes(s as V)
+      ? ok(s as V)
+      : fail(`${field} must be one of ${values.join(", ")}`, field);
+  });
+}
+
+/** Komma-gescheiden lijst (query) of array (body), ontdubbeld. */
+function list<T>(
+  item: Schema<T, any>,
+  opts: { max?: number } = {}
+): Schema<T[], false> {
+  return make(
+    {
+      type: "array",
+      items: item.json,
+      ...(opts.max !== undefined ? { maxItems: opts.max } : {}),
+      description: "Comma separated in the query string",
+    },
+    (value, field) => {
+      const raw = Array.isArray(value)
+        ? value.flatMap((v) => (typeof v === "string" ? v.split(",") : [v]))
+        : typeof value === "string"
+          ? value.split(",")
+          : null;
+      if (!raw) return fail(`${field} must be a comma separated list`, field);
+
+      const out: T[] = [];
+      const seen = new Set<string>();
+      for (const entry of raw) {
+        if (isMissing(entry)) continue;
+        const parsed = item.parse(entry, field);
+        if (!parsed.ok) return parsed;
+        const key = JSON.stringify(parsed.value);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        out.push(parsed.value);
+      }
+      if (opts.max !== undefined && out.length > opts.max) {
+        return fail(`${field} has too many items (max ${opts.max})`, field);
+      }
+      return ok(out);
+    }
+  );
+}
+
+function array<T>(
+  item: Schema<T, any>,
+  opts: { min?: number; max?: number } = {}
+): Schema<T[], false> {
+  return make(
+    {
+      type: "array",
+      items: item.json,
+      ...(opts.min !== undefined ? { minItems: opts.min } : {}),
+      ...(opts.max !== undefined ? { maxItems: opts.max } : {}),
+    },
+    (value, field) => {
+      if (!Array.isArray(value))
+        return fail(`${field} must be an array`, field);
+      if (opts.min !== undefined && value.length < opts.min) {
+        return fail(
+          opts.min === 1
+            ? `${field} must be a non-empty array`
+            : `${field} must contain at least ${opts.min} items`,
+          field
+        );
+      }
+      if (opts.max !== undefined && value.length > opts.max) {
+        return fail(`${field} has too many items (max ${opts.max})`, field);
+      }
+      const out: T[] = [];
+      for (let i = 0; i < value.length; i++) {
+        const parsed = item.parse(value[i], `${field}[${i}]`);
+        if (!parsed.ok) return parsed;
+        out.push(parsed.value);
+      }
+      return ok(out);
+    }
+  );
+}
+
+/**
+ * Object met vaste keys. Onbekende keys worden genegeerd (niet doorgegeven),
+ * zodat extra query params zoals `fresh` bestaande clients niet breken.
+ */
+function object<S extends Shape>(shape: S): Schema<InferShape<S>, false> {
+  const required = Object.keys(shape).filter((k) => shape[k].required);
+  return make(
+    {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([k, s]) => [k, s.json])
+      ),
+      ...(required.length ? { required } : {}),
+    },
+    (value, field) => {
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        return fail(`${field} must be an object`, field);
+      }
+      const out: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const path = field ? `${field}.${key}` : key;
+        const raw = (value as any)[key];
+        if (schema.required && isMissing(raw)) {
+          return fail(`${path} is required`, path);
+        }
+        const parsed = schema.parse(raw, path);
+        if (!parsed.ok) return { ...parsed, field: parsed.field ?? path };
+        if (parsed.value !== undefined) out[key] = parsed.value;
+      }
+      return ok(out as InferShape<S>);
+    }
+  );
+}
+
+function record<T>(values: Schema<T, any>): Schema<Record<string, T>, false> {
+  return make(
+    { type: "object", additionalProperties: values.json },
+    (value, field) =>
+      value !== null && typeof value === "object" && !Array.isArray(value)
+        ? ok(value as Record<string, T>)
+        : fail(`${field} must be an object`, field)
+  );
+}
+
+/**
+ * Vorm die al als TypeScript type in lib/ bestaat (bv. MintExtensions).
+ * Alleen voor responses: er wordt niets gecontroleerd.
+ */
+function typed<T>(json: JsonSchema = {}): Schema<T, false> {
+  return make(json, (value) => ok(value as T));
+}
+
+/** Eigen parser, bv. een timestamp of een webhook conditie. */
+function custom<T>(
+  json: JsonSchema,
+  parse: (value: unknown, field: string) => ParseResult<T>
+): Schema<T, false> {
+  return make(json, parse);
+}
+
+function nullable<T>(schema: Schema<T, any>): Schema<T | null, false> {
+  return make({ ...schema.json, nullable: true }, (value, field) =>
+    value === null ? ok(null) : schema.parse(value, field)
+  );
+}
+
+function optional<T>(schema: Schema<T, any>): Schema<T | undefined, true> {
+  return {
+    json: schema.json,
+    required: false,
+    parse: (value, field) =>
+      isMissing(value) ? ok(undefined) : schema.parse(value, field),
+  };
+}
+
+/** Optioneel in de request, maar na het parsen altijd gevuld. */
+function withDefault<T>(schema: Schema<T, any>, fallback: T): Schema<T, false> {
+  return {
+    json: { ...schema.json, default: fallback },
+    required: false,
+    parse: (value, field) =>
+      isMissing(value) ? ok(fallback) : schema.parse(value, field),
+  };
+}
+
+function describe<T, O extends boolean>(
+  schema: Schema<T, O>,
+  description: string,
+  example?: unknown
+): Schema<T, O> {
+  return {
+    ...schema,
+    json: {
+      ...schema.json,
+      description,
+      ...(example !== undefined ? { example } : {}),
+    },
+  };
+}
+
+export const s = {
+  string,
+  address,
+  number,
+  boolean,
+  flag,
+  enumOf,
+  list,
+  array,
+  object,
+  record,
+  typed,
+  custom,
+  nullable,
+  optional,
+  withDefault,
+  describe,
+};
@@ -0,0 +1,425 @@
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  Finality,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  TokenBalance,
+} from "@solana/web3.js";
+import {
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  PoolKind,
+  RAYDIUM_AMM_V4_PROGRAM_ID,
+  RAYDIUM_CPMM_PROGRAM_ID,
+} from "./market-data";
+import {
+  PARSED_TX_CHUNK,
+  flattenInstructions,
+  isTokenProgram,
+  keyString,
+} from "./wallet-history";
+import { chunk } from "./rpc-batch";
+import { formatUnits, pctOf, sumRaw } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Token historie: creatie, MintTo / Burn, SetAuthority en de eerste pool,
+// uit de signature historie van het mint account
+// -----------------------------------------------------------------------------
+
+// grenzen per request; populaire mints hebben miljoenen signatures
+const MAX_SIGNATURES = Number(process.env.TOKEN_HISTORY_MAX_SIGNATURES || 5000);
+const MAX_PARSED = Number(process.env.TOKEN_HISTORY_MAX_PARSED || 1000);
+
+// een authority die korter dan dit geleden is ingetrokken is verdacht
+const RECENT_REVOKE_MINUTES = Number(
+  process.env.TOKEN_HISTORY_RECENT_REVOKE_MINUTES || 60
+);
+
+// zoveel slots na de eerste pool transactie bewaren we wie tokens kreeg
+export const LAUNCH_WINDOW_MAX_SLOTS = 150;
+
+const POOL_PROGRAMS: Record<string, PoolKind> = {
+  [RAYDIUM_AMM_V4_PROGRAM_ID.toBase58()]: "raydium-amm-v4",
+  [RAYDIUM_CPMM_PROGRAM_ID.toBase58()]: "raydium-cpmm",
+  [ORCA_WHIRLPOOL_PROGRAM_ID.toBase58()]: "orca-whirlpool",
+};
+
+type EventBase = {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+};
+
+export type MintCreation = EventBase & {
+  // fee payer van de InitializeMint transactie
+  creator: string | null;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+};
+
+export type SupplyEvent = EventBase & {
+  type: "mint" | "burn";
+  amountRaw: string;
+  amount: string;
+  // token account waarin gemint / waaruit verbrand is, en de owner ervan
+  account: string | null;
+  owner: string | null;
+  authority: string | null;
+  // true als het na de eerste pool transactie gebeurde
+  afterLaunch: boolean;
+};
+
+export type AuthorityChange = EventBase & {
+  // mintTokens, freezeAccount of een Token-2022 authority
+  authorityType: string;
+  from: string | null;
+  // null = ingetrokken
+  to: string | null;
+};
+
+export type PoolInit = EventBase & {
+  kind: PoolKind;
+  programId: string;
+  // pool (state) account: bij init en swaps van deze programma's het
+  // eerste schrijfbare account dat geen signer is
+  pool: string | null;
+};
+
+// owner die in een transactie netto tokens van de mint kreeg
+export type TokenReceipt = EventBase & {
+  owner: string;
+  amountRaw: string;
+};
+
+export type TokenHistory = {
+  created: MintCreation | null;
+  supplyEvents: SupplyEvent[];
+  authorityChanges: AuthorityChange[];
+  // eerste transactie van een pool programma met deze mint
+  firstPool: PoolInit | null;
+  // ontvangers in de eerste LAUNCH_WINDOW_MAX_SLOTS slots vanaf de pool,
+  // inclusief pool vaults (die filtert de insider analyse weg)
+  launchReceipts: TokenReceipt[];
+  totals: {
+    mintedRaw: string;
+    minted: string;
+    burnedRaw: string;
+    burned: string;
+    // gemint tot en met de eerste pool transactie
+    launchSupplyRaw: string;
+    mintedAfterLaunchRaw: string;
+    mintedAfterLaunch: string;
+    // t.o.v. de launch supply; null zonder pool of launch supply
+    mintedAfterLaunchPct: number | null;
+  };
+  coverage: {
+    signatures: number;
+    parsed: number;
+    // false = niet tot de creatie teruggelopen of niet alles geparsed
+    complete: boolean;
+  };
+};
+
+type ParsedEvents = {
+  created: MintCreation | null;
+  supply: Omit<SupplyEvent, "amount" | "afterLaunch">[];
+  authority: AuthorityChange[];
+  pool: PoolInit | null;
+  receipts: TokenReceipt[];
+};
+
+/** Netto verandering per owner voor één mint, uit de token balances. */
+export function mintDeltasByOwner(
+  tx: ParsedTransactionWithMeta,
+  mint: string
+): Map<string, bigint> {
+  const deltas = new Map<string, bigint>();
+  const add = (balances: TokenBalance[] | null | undefined, sign: bigint) => {
+    for (const b of balances || []) {
+      if (b.mint !== mint || !b.owner) continue;
+      const amount = BigInt(b.uiTokenAmount.amount) * sign;
+      deltas.set(b.owner, (deltas.get(b.owner) ?? 0n) + amount);
+    }
+  };
+  add(tx.meta?.preTokenBalances, -1n);
+  add(tx.meta?.postTokenBalances, 1n);
+  return deltas;
+}
+
+// owner van een token account volgens de token balances van de transactie
+function accountOwner(
+  tx: ParsedTransactionWithMeta,
+  account: string | undefined
+): string | null {
+  if (!account) return null;
+  const idx = tx.transaction.message.accountKeys.findIndex(
+    (k) => keyString(k.pubkey) === account
+  );
+  const balance = [
+    ...(tx.meta?.postTokenBalances || []),
+    ...(tx.meta?.preTokenBalances || []),
+  ].find((b) => b.accountIndex === idx);
+  return balance?.owner ?? null;
+}
+
+function rawAmount(info: any): bigint {
+  const value = info?.tokenAmount?.amount ?? info?.amount;
+  return typeof value === "string" && /^\d+$/.test(value) ? BigInt(value) : 0n;
+}
+
+/**
+ * Events voor `mint` uit één transactie. Puur, dus ook bruikbaar op
+ * opgenomen transactie-JSON (zoals parseWalletTransaction).
+ */
+export function parseMintEvents(
+  tx: ParsedTransactionWithMeta,
+  mint: string
+): ParsedEvents {
+  const base: EventBase = {
+    signature: tx.transaction.signatures[0],
+    slot: tx.slot,
+    blockTime: tx.blockTime ?? null,
+  };
+  const out: ParsedEvents = {
+    created: null,
+    supply: [],
+    authority: [],
+    pool: null,
+    receipts: [],
+  };
+  if (tx.meta?.err) return out;
+
+  for (const [owner, delta] of mintDeltasByOwner(tx, mint)) {
+    if (delta > 0n) {
+      out.receipts.push({ ...base, owner, amountRaw: delta.toString() });
+    }
+  }
+
+  const feePayer = tx.transaction.message.accountKeys[0];
+  const instructions = flattenInstructions(tx);
+  const writable = new Set(
+    tx.transaction.message.accountKeys
+      .filter((k) => k.writable && !k.signer)
+      .map((k) => keyString(k.pubkey))
+  );
+
+  for (const ix of instructions) {
+    const kind = POOL_PROGRAMS[ix.programId];
+    if (kind && !out.pool) {
+      out.pool = {
+        ...base,
+        kind,
+        programId: ix.programId,
+        pool: ix.accounts.find((a) => writable.has(a)) ?? null,
+      };
+    }
+
+    if (!isTokenProgram(ix) || ix.info?.mint !== mint) continue;
+    switch (ix.type) {
+      case "initializeMint":
+      case "initializeMint2":
+        out.created = {
+          ...base,
+          creator: feePayer ? keyString(feePayer.pubkey) : null,
+          decimals: ix.info.decimals,
+          mintAuthority: ix.info.mintAuthority ?? null,
+          freezeAuthority: ix.info.freezeAuthority ?? null,
+        };
+        break;
+      case "mintTo":
+      case "mintToChecked":
+      case "burn":
+      case "burnChecked":
+        out.supply.push({
+          ...base,
+          type: ix.type.startsWith("mint") ? "mint" : "burn",
+          amountRaw: rawAmount(ix.info).toString(),
+          account: ix.info.account ?? null,
+          owner: accountOwner(tx, ix.info.account),
+          authority:
+            ix.info.mintAuthority ??
+            ix.info.authority ??
+            ix.info.multisigMintAuthority ??
+            ix.info.multisigAuthority ??
+            null,
+        });
+        break;
+      case "setAuthority":
+        out.authority.push({
+          ...base,
+          authorityType: ix.info.authorityType,
+          from: ix.info.authority ?? ix.info.multisigAuthority ?? null,
+          to: ix.info.newAuthority ?? null,
+        });
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Events (oudste eerst) samenvoegen tot de historie. Alles tot en met de
+ * eerste pool transactie telt als launch supply.
+ */
+export function buildTokenHistory(
+  parsed: ParsedEvents[],
+  decimals: number,
+  coverage: TokenHistory["coverage"]
+): TokenHistory {
+  const created = parsed.find((p) => p.created)?.created ?? null;
+  const firstPool = parsed.find((p) => p.pool)?.pool ?? null;
+  const launchSlot = firstPool?.slot ?? null;
+
+  const supplyEvents: SupplyEvent[] = parsed
+    .flatMap((p) => p.supply)
+    .map((e) => ({
+      ...e,
+      amount: formatUnits(e.amountRaw, decimals),
+      afterLaunch: launchSlot !== null && e.slot > launchSlot,
+    }));
+
+  const amounts = (filter: (e: SupplyEvent) => boolean) =>
+    sumRaw(supplyEvents.filter(filter).map((e) => e.amountRaw));
+  const minted = amounts((e) => e.type === "mint");
+  const burned = amounts((e) => e.type === "burn");
+  const mintedAfterLaunch = amounts((e) => e.type === "mint" && e.afterLaunch);
+  const launchSupply = minted - mintedAfterLaunch;
+
+  return {
+    created,
+    supplyEvents,
+    authorityChanges: parsed.flatMap((p) => p.authority),
+    firstPool,
+    launchReceipts:
+      launchSlot === null
+        ? []
+        : parsed
+            .flatMap((p) => p.receipts)
+            .filter(
+              (r) =>
+                r.slot >= launchSlot &&
+                r.slot <= launchSlot + LAUNCH_WINDOW_MAX_SLOTS
+            ),
+    totals: {
+      mintedRaw: minted.toString(),
+      minted: formatUnits(minted, decimals),
+      burnedRaw: burned.toString(),
+      burned: formatUnits(burned, decimals),
+      launchSupplyRaw: launchSupply.toString(),
+      mintedAfterLaunchRaw: mintedAfterLaunch.toString(),
+      mintedAfterLaunch: formatUnits(mintedAfterLaunch, decimals),
+      mintedAfterLaunchPct:
+        launchSlot !== null && launchSupply > 0n
+          ? pctOf(mintedAfterLaunch, launchSupply)
+          : null,
+    },
+    coverage,
+  };
+}
+
+/**
+ * Loopt de signatures van de mint terug (max TOKEN_HISTORY_MAX_SIGNATURES)
+ * en parset de oudste geslaagde transacties (max TOKEN_HISTORY_MAX_PARSED),
+ * want daar zitten creatie, launch en de eerste authority wijzigingen.
+ */
+export async function fetchTokenHistory(
+  connection: Connection,
+  mint: string,
+  decimals: number,
+  opts: { maxSignatures?: number; maxParsed?: number } = {}
+): Promise<TokenHistory> {
+  const maxSignatures = opts.maxSignatures ?? MAX_SIGNATURES;
+  const maxParsed = opts.maxParsed ?? MAX_PARSED;
+  const finality: Finality =
+    connection.commitment === "finalized" ? "finalized" : "confirmed";
+  const mintKey = new PublicKey(mint);
+
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let reachedStart = false;
+  while (signatures.length < maxSignatures) {
+    const limit = Math.min(1000, maxSignatures - signatures.length);
+    const page = await connection.getSignaturesForAddress(
+      mintKey,
+      { before: signatures[signatures.length - 1]?.signature, limit },
+      finality
+    );
+    signatures.push(...page);
+    // een volle pagina kan ook bij de cap eindigen: pas korter is het begin
+    if (page.length < limit) {
+      reachedStart = true;
+      break;
+    }
+  }
+
+  const successful = signatures.filter((s) => !s.err).reverse();
+  const toParse = successful.slice(0, maxParsed);
+
+  const parsed: ParsedEvents[] = [];
+  for (const part of chunk(toParse, PARSED_TX_CHUNK)) {
+    const txs = await connection.getParsedTransactions(
+      part.map((s) => s.signature),
+      { commitment: finality, maxSupportedTransactionVersion: 0 }
+    );
+    for (const tx of txs) {
+      if (tx) parsed.push(parseMintEvents(tx, mint));
+    }
+  }
+
+  return buildTokenHistory(parsed, decimals, {
+    signatures: signatures.length,
+    parsed: parsed.length,
+    complete: reachedStart && toParse.length === successful.length,
+  });
+}
+
+/**
+ * Redenen voor de safety check: extra supply na de launch, recent
+ * ingetrokken authorities en authorities die van eigenaar wisselden.
+ * Zonder volledige historie zijn de eerste pool en de laatste wijziging
+ * niet zeker; die redenen vallen dan weg en wissels tellen als minimum.
+ */
+export function historyReasons(
+  history: TokenHistory,
+  now = Date.now()
+): string[] {
+  const reasons: string[] = [];
+  const { complete } = history.coverage;
+  const pct = history.totals.mintedAfterLaunchPct;
+  if (complete && pct !== null && pct > 0) {
+    reasons.push(
+      `Minted ${pct.toFixed(2)}% extra supply after launch (${history.totals.mintedAfterLaunch} tokens).`
+    );
+  }
+
+  const labels: Record<string, string> = {
+    mintTokens: "Mint authority",
+    freezeAccount: "Freeze authority",
+  };
+  for (const [type, label] of Object.entries(labels)) {
+    const changes = history.authorityChanges.filter(
+      (c) => c.authorityType === type
+    );
+    const last = changes[changes.length - 1];
+    if (!last) continue;
+
+    if (complete && last.to === null && last.blockTime !== null) {
+      const minutes = Math.floor((now / 1000 - last.blockTime) / 60);
+      if (minutes < RECENT_REVOKE_MINUTES) {
+        reasons.push(`${label} revoked only ${minutes} minutes ago.`);
+      }
+    }
+    const transfers = changes.filter((c) => c.to !== null);
+    if (transfers.length > 0 && complete) {
+      const to = transfers[transfers.length - 1].to;
+      reasons.push(
+        `${label} was transferred ${transfers.length} time(s), last to ${to}.`
+      );
+    } else if (transfers.length > 0) {
+      reasons.push(
+        `${label} was transferred at least ${transfers.length} time(s) (history only partially covered).`
+      );
+    }
+  }
+  return reasons;
+}
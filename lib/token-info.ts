@@ -0,0 +1,110 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import {
+  MintExtensions,
+  TokenProgramName,
+  parseMintAccount,
+} from "./token-programs";
+import {
+  TokenMetadata,
+  attachOffChainMetadata,
+  metadataFromTokenExtensions,
+  resolveMetadataBatch,
+} from "./metadata";
+import { BatchItem, getMultipleParsedAccountsChunked } from "./rpc-batch";
+
+// -----------------------------------------------------------------------------
+// Token info voor één of meer mints (GET /api/token-info en de batch variant)
+// -----------------------------------------------------------------------------
+
+export type TokenInfo = {
+  mint: string;
+  program: TokenProgramName;
+  programId: string;
+  decimals: number;
+  supplyRaw: string;
+  supply: number;
+  supplyString: string;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  isInitialized: boolean;
+  extensions: MintExtensions;
+  metadata: TokenMetadata | null;
+};
+
+export async function fetchTokenInfos(
+  connection: Connection,
+  mints: string[],
+  opts: { offChain?: boolean } = {}
+): Promise<BatchItem<TokenInfo>[]> {
+  const valid = new Map<string, PublicKey>();
+  for (const mint of mints) {
+    try {
+      valid.set(mint, new PublicKey(mint));
+    } catch {
+      // ongeldige keys krijgen hieronder een eigen 400
+    }
+  }
+
+  const keys = Array.from(valid.keys());
+  const accounts = await getMultipleParsedAccountsChunked(
+    connection,
+    keys.map((k) => valid.get(k)!)
+  );
+
+  const infos = new Map<string, TokenInfo>();
+  const errors = new Map<string, { status: number; error: string }>();
+
+  accounts.forEach((account, idx) => {
+    const mint = keys[idx];
+    if (!account) {
+      errors.set(mint, { status: 404, error: "Mint account not found" });
+      return;
+    }
+    const parsed = parseMintAccount(account);
+    if (!parsed) {
+      errors.set(mint, { status: 400, error: "Account is not an SPL mint" });
+      return;
+    }
+
+    const { rawExtensions, ...rest } = parsed;
+    infos.set(mint, {
+      mint,
+      ...rest,
+      // Token-2022 metadata extension heeft voorrang, anders de Metaplex PDA
+      metadata: metadataFromTokenExtensions(mint, rawExtensions),
+    });
+  });
+
+  const needMetaplex = Array.from(infos.values())
+    .filter((i) => !i.metadata)
+    .map((i) => i.mint);
+  if (needMetaplex.length > 0) {
+    const byMint = await resolveMetadataBatch(connection, needMetaplex);
+    for (const [mint, meta] of byMint) {
+      infos.get(mint)!.metadata = meta;
+    }
+  }
+
+  if (opts.offChain) {
+    await attachOffChainMetadata(
+      Array.from(infos.values())
+        .map((i) => i.metadata)
+        .filter((m): m is TokenMetadata => m !== null)
+    );
+  }
+
+  return mints.map((mint): BatchItem<TokenInfo> => {
+    if (!valid.has(mint)) {
+      return {
+        key: mint,
+        ok: false,
+        status: 400,
+        error: "Invalid mint address",
+      };
+    }
+    const info = infos.get(mint);
+    if (info) return { key: mint, ok: true, result: info };
+    const err = errors.get(mint)!;
+    return { key: mint, ok: false, ...err };
+  });
+}
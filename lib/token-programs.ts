@@ -0,0 +1,328 @@
+import {
+  Connection,
+  PublicKey,
+  ParsedAccountData,
+  AccountInfo,
+} from "@solana/web3.js";
+import { formatUnits, toUiNumber } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Token programs: klassieke SPL Token + Token-2022 (Token Extensions)
+// -----------------------------------------------------------------------------
+
+export const TOKEN_PROGRAM_ID = new PublicKey(
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+);
+
+export const TOKEN_2022_PROGRAM_ID = new PublicKey(
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb"
+);
+
+export type TokenProgramName = "spl-token" | "spl-token-2022";
+
+export const TOKEN_PROGRAMS: {
+  name: TokenProgramName;
+  programId: PublicKey;
+}[] = [
+  { name: "spl-token", programId: TOKEN_PROGRAM_ID },
+  { name: "spl-token-2022", programId: TOKEN_2022_PROGRAM_ID },
+];
+
+export function isTokenProgramName(
+  program: string
+): program is TokenProgramName {
+  return program === "spl-token" || program === "spl-token-2022";
+}
+
+// Een transfer fee boven deze grens (in basispunten) zien we als risico.
+export const HIGH_TRANSFER_FEE_BPS = 500;
+
+// -----------------------------------------------------------------------------
+// Token-2022 extensions (uit de jsonParsed output van de RPC)
+// -----------------------------------------------------------------------------
+
+export type TransferFee = {
+  epoch: number;
+  maximumFee: string;
+  transferFeeBasisPoints: number;
+};
+
+export type MintExtensions = {
+  // alle extension-namen zoals de RPC ze teruggeeft, ook de onbekende
+  names: string[];
+  transferFeeConfig: {
+    transferFeeConfigAuthority: string | null;
+    withdrawWithheldAuthority: string | null;
+    withheldAmount: string;
+    olderTransferFee: TransferFee | null;
+    newerTransferFee: TransferFee | null;
+    // hoogste van older/newer, zodat een geplande verhoging al meetelt
+    maxTransferFeeBasisPoints: number;
+  } | null;
+  permanentDelegate: { delegate: string | null } | null;
+  transferHook: { authority: string | null; programId: string | null } | null;
+  nonTransferable: boolean;
+  defaultAccountState: { accountState: string } | null;
+  metadataPointer: {
+    authority: string | null;
+    metadataAddress: string | null;
+  } | null;
+};
+
+function toTransferFee(raw: any): TransferFee | null {
+  if (!raw) return null;
+  return {
+    epoch: Number(raw.epoch ?? 0),
+    maximumFee: String(raw.maximumFee ?? "0"),
+    transferFeeBasisPoints: Number(raw.transferFeeBasisPoints ?? 0),
+  };
+}
+
+export function decodeMintExtensions(rawExtensions: any): MintExtensions {
+  const list: any[] = Array.isArray(rawExtensions) ? rawExtensions : [];
+
+  const result: MintExtensions = {
+    names: [],
+    transferFeeConfig: null,
+    permanentDelegate: null,
+    transferHook: null,
+    nonTransferable: false,
+    defaultAccountState: null,
+    metadataPointer: null,
+  };
+
+  for (const ext of list) {
+    const name: string = ext?.extension;
+    if (!name) continue;
+    const state: any = ext.state ?? {};
+    result.names.push(name);
+
+    switch (name) {
+      case "transferFeeConfig": {
+        const olderTransferFee = toTransferFee(state.olderTransferFee);
+        const newerTransferFee = toTransferFee(state.newerTransferFee);
+        result.transferFeeConfig = {
+          transferFeeConfigAuthority: state.transferFeeConfigAuthority ?? null,
+          withdrawWithheldAuthority: state.withdrawWithheldAuthority ?? null,
+          withheldAmount: String(state.withheldAmount ?? "0"),
+          olderTransferFee,
+          newerTransferFee,
+          maxTransferFeeBasisPoints: Math.max(
+            olderTransferFee?.transferFeeBasisPoints ?? 0,
+            newerTransferFee?.transferFeeBasisPoints ?? 0
+          ),
+        };
+        break;
+      }
+      case "permanentDelegate":
+        result.permanentDelegate = { delegate: state.delegate ?? null };
+        break;
+      case "transferHook":
+        result.transferHook = {
+          authority: state.authority ?? null,
+          programId: state.programId ?? null,
+        };
+        break;
+      case "nonTransferable":
+        result.nonTransferable = true;
+        break;
+      case "defaultAccountState":
+        result.defaultAccountState = {
+          accountState: String(state.accountState ?? "initialized"),
+        };
+        break;
+      case "metadataPointer":
+        result.metadataPointer = {
+          authority: state.authority ?? null,
+          metadataAddress: state.metadataAddress ?? null,
+        };
+        break;
+      default:
+        break;
+    }
+  }
+
+  return result;
+}
+
+// -----------------------------------------------------------------------------
+// Mint lookup (gedeeld door token-info, safety check, holder-info, whales)
+// -----------------------------------------------------------------------------
+
+export type ParsedMint = {
+  program: TokenProgramName;
+  programId: string;
+  decimals: number;
+  supplyRaw: string;
+  supply: number;
+  // exact, supply kan afronden
+  supplyString: string;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  isInitialized: boolean;
+  extensions: MintExtensions;
+  // ruwe extension-lijst, o.a. voor de tokenMetadata extension
+  rawExtensions: any[];
+};
+
+export type MintLookup =
+  | { ok: true; mint: ParsedMint }
+  | { ok: false; status: 400 | 404; error: string };
+
+export function parseMintAccount(
+  account: AccountInfo<Buffer | ParsedAccountData>
+): ParsedMint | null {
+  const data = account.data as ParsedAccountData;
+  if (
+    !data ||
+    Buffer.isBuffer(data) ||
+    !isTokenProgramName(data.program) ||
+    data.parsed?.type !== "mint"
+  ) {
+    return null;
+  }
+
+  const info: any = data.parsed.info;
+  const decimals: number = info.decimals;
+  const supplyRaw: string = info.supply;
+  const supply = toUiNumber(supplyRaw, decimals);
+  const rawExtensions: any[] = Array.isArray(info.extensions)
+    ? info.extensions
+    : [];
+
+  return {
+    program: data.program,
+    programId: account.owner.toBase58(),
+    decimals,
+    supplyRaw,
+    supply,
+    supplyString: formatUnits(supplyRaw, decimals),
+    mintAuthority: info.mintAuthority ?? null,
+    freezeAuthority: info.freezeAuthority ?? null,
+    isInitialized: !!info.isInitialized,
+    extensions: decodeMintExtensions(rawExtensions),
+    rawExtensions,
+  };
+}
+
+export async function fetchParsedMint(
+  connection: Connection,
+  mintKey: PublicKey
+): Promise<MintLookup> {
+  const parsed = await connection.getParsedAccountInfo(mintKey);
+  if (!parsed.value) {
+    return { ok: false, status: 404, error: "Mint account not found" };
+  }
+
+  const mint = parseMintAccount(parsed.value);
+  if (!mint) {
+    return { ok: false, status: 400, error: "Account is not an SPL mint" };
+  }
+
+  return { ok: true, mint };
+}
+
+// -----------------------------------------------------------------------------
+// Token accounts van een owner over beide programma's
+// -----------------------------------------------------------------------------
+
+export type OwnedTokenAccount = {
+  program: TokenProgramName;
+  pubkey: PublicKey;
+  // rent van het token account, komt terug bij sluiten
+  lamports: number;
+  info: any;
+};
+
+export async function fetchTokenAccountsByOwner(
+  connection: Connection,
+  owner: PublicKey
+): Promise<OwnedTokenAccount[]> {
+  const results = await Promise.all(
+    TOKEN_PROGRAMS.map(async ({ name, programId }) => {
+      const res = await connection.getParsedTokenAccountsByOwner(owner, {
+        programId,
+      });
+      return res.value.map((ta) => ({ name, ta }));
+    })
+  );
+
+  const accounts: OwnedTokenAccount[] = [];
+  for (const { name, ta } of results.flat()) {
+    const data = ta.account.data as ParsedAccountData;
+    if (data.program !== name || data.parsed.type !== "account") continue;
+    accounts.push({
+      program: name,
+      pubkey: ta.pubkey,
+      lamports: ta.account.lamports,
+      info: data.parsed.info,
+    });
+  }
+  return accounts;
+}
+
+// -----------------------------------------------------------------------------
+// Extension-risico's voor de safety check
+// -----------------------------------------------------------------------------
+
+export type ExtensionRisk = {
+  hasPermanentDelegate: boolean;
+  hasTransferHook: boolean;
+  transferFeeBps: number;
+  highTransferFee: boolean;
+  nonTransferable: boolean;
+  defaultFrozen: boolean;
+  // true als één van de extensions de token direct onveilig maakt
+  dangerous: boolean;
+  reasons: string[];
+};
+
+export function assessExtensionRisk(ext: MintExtensions): ExtensionRisk {
+  const reasons: string[] = [];
+
+  const hasPermanentDelegate = !!ext.permanentDelegate?.delegate;
+  const hasTransferHook = !!ext.transferHook?.programId;
+  const transferFeeBps = ext.transferFeeConfig?.maxTransferFeeBasisPoints ?? 0;
+  const highTransferFee = transferFeeBps >= HIGH_TRANSFER_FEE_BPS;
+  const defaultFrozen =
+    ext.defaultAccountState?.accountState?.toLowerCase() === "frozen";
+
+  if (hasPermanentDelegate) {
+    reasons.push(
+      `Permanent delegate set (${ext.permanentDelegate!.delegate}): can transfer or burn tokens from any holder.`
+    );
+  }
+  if (hasTransferHook) {
+    reasons.push(
+      `Transfer hook program set (${ext.transferHook!.programId}): every transfer runs custom code that can block sells.`
+    );
+  }
+  if (ext.transferFeeConfig) {
+    reasons.push(
+      `Transfer fee of ${(transferFeeBps / 100).toFixed(2)}% on every transfer${
+        highTransferFee ? " (high)" : ""
+      }.`
+    );
+  }
+  if (ext.nonTransferable) {
+    reasons.push("Token is non-transferable (soulbound), it cannot be sold.");
+  }
+  if (defaultFrozen) {
+    reasons.push("New token accounts start frozen (default account state).");
+  }
+
+  return {
+    hasPermanentDelegate,
+    hasTransferHook,
+    transferFeeBps,
+    highTransferFee,
+    nonTransferable: ext.nonTransferable,
+    defaultFrozen,
+    dangerous:
+      hasPermanentDelegate ||
+      hasTransferHook ||
+      highTransferFee ||
+      ext.nonTransferable,
+    reasons,
+  };
+}
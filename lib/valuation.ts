@@ -0,0 +1,130 @@
+import { MarketDataResult, WSOL_MINT } from "./market-data";
+import { DEFAULT_TRUSTED_DEXES, buildLiquidityBreakdown } from "./liquidity";
+import { WalletInfo, WalletToken } from "./wallet-info";
+
+// -----------------------------------------------------------------------------
+// Wallet waardering: prijs + waarde per token, totaal en allocatie
+// -----------------------------------------------------------------------------
+
+// tokens met minder (trusted) liquiditeit krijgen de lowLiquidity flag
+export const VALUATION_MIN_LIQUIDITY_USD = Number(
+  process.env.VALUATION_MIN_LIQUIDITY_USD || 1000
+);
+
+export type TokenPrice = {
+  priceUsd: number | null;
+  // liquiditeit van pools waarin deze mint de base token is
+  liquidityUsd: number;
+  source: string | null;
+};
+
+/**
+ * Prijs van `mint` uit de market data: liquidity-gewogen over de pools
+ * waarin de mint de base token is (DexScreener's priceUsd is altijd de
+ * prijs van de base token), alleen op trusted DEXes.
+ */
+export function priceFromMarketData(
+  mint: string,
+  result: MarketDataResult | undefined,
+  trustedDexes: string[] = DEFAULT_TRUSTED_DEXES
+): TokenPrice {
+  if (!result) return { priceUsd: null, liquidityUsd: 0, source: null };
+
+  const basePairs = result.pairs.filter(
+    (p) =>
+      p.baseToken?.address === mint &&
+      trustedDexes.includes(p.dexId.toLowerCase())
+  );
+  const breakdown = buildLiquidityBreakdown(basePairs, trustedDexes);
+
+  return {
+    priceUsd: breakdown.weightedPriceUsd,
+    liquidityUsd: breakdown.trustedLiquidityUsd,
+    source: result.source,
+  };
+}
+
+export type ValuedToken = WalletToken & {
+  priceUsd: number | null;
+  valueUsd: number | null;
+  liquidityUsd: number;
+  // aandeel in totalUsd; null voor tokens die niet meetellen
+  allocationPct: number | null;
+  flags: { noPrice: boolean; lowLiquidity: boolean };
+};
+
+export type WalletValuation = {
+  minLiquidityUsd: number;
+  solPriceUsd: number | null;
+  solValueUsd: number | null;
+  solAllocationPct: number | null;
+  // SOL + tokens zonder flags
+  totalUsd: number;
+  // waarde van tokens met lowLiquidity (vaak nep-prijzen van scam airdrops)
+  flaggedValueUsd: number;
+  pricedTokens: number;
+  flaggedTokens: number;
+};
+
+export function valuateWallet(
+  wallet: WalletInfo,
+  prices: Map<string, TokenPrice>,
+  minLiquidityUsd = VALUATION_MIN_LIQUIDITY_USD
+): { tokens: ValuedToken[]; valuation: WalletValuation } {
+  const solPriceUsd = prices.get(WSOL_MINT)?.priceUsd ?? null;
+  const solValueUsd = solPriceUsd !== null ? wallet.sol * solPriceUsd : null;
+
+  const priced = wallet.tokens.map((t) => {
+    const price = prices.get(t.mint);
+    const priceUsd = price?.priceUsd ?? null;
+    const liquidityUsd = price?.liquidityUsd ?? 0;
+    return {
+      ...t,
+      priceUsd,
+      valueUsd: priceUsd !== null ? t.uiAmount * priceUsd : null,
+      liquidityUsd,
+      allocationPct: null as number | null,
+      flags: {
+        noPrice: priceUsd === null,
+        lowLiquidity: priceUsd !== null && liquidityUsd < minLiquidityUsd,
+      },
+    };
+  });
+
+  const counted = priced.filter(
+    (t) => !t.flags.noPrice && !t.flags.lowLiquidity
+  );
+  const totalUsd =
+    (solValueUsd ?? 0) + counted.reduce((acc, t) => acc + (t.valueUsd ?? 0), 0);
+  const flaggedValueUsd = priced
+    .filter((t) => t.flags.lowLiquidity)
+    .reduce((acc, t) => acc + (t.valueUsd ?? 0), 0);
+
+  const share = (value: number | null) =>
+    value !== null && totalUsd > 0 ? (value / totalUsd) * 100 : null;
+
+  for (const t of counted) t.allocationPct = share(t.valueUsd);
+
+  // getelde tokens eerst (op waarde), daarna de geflagde
+  const flagged = (t: ValuedToken) =>
+    t.flags.noPrice || t.flags.lowLiquidity ? 1 : 0;
+  const tokens = priced.sort(
+    (a, b) => flagged(a) - flagged(b) || (b.valueUsd ?? -1) - (a.valueUsd ?? -1)
+  );
+
+  return {
+    tokens,
+    valuation: {
+      minLiquidityUsd,
+      solPriceUsd,
+      solValueUsd,
+      solAllocationPct: share(solValueUsd),
+      totalUsd,
+      flaggedValueUsd,
+      pricedTokens: priced.filter((t) => !t.flags.noPrice).length,
+      flaggedTokens: priced.filter(
+        (t) => t.flags.noPrice || t.flags.lowLiquidity
+      ).length,
+    },
+  };
+}
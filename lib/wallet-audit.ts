@@ -0,0 +1,283 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import {
+  OwnedTokenAccount,
+  TokenProgramName,
+  assessExtensionRisk,
+} from "./token-programs";
+import { TokenInfo } from "./token-info";
+import { OwnerLabel } from "./owner-labels";
+import { formatUnits, sumRaw } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Wallet audit: delegate approvals, frozen en lege token accounts, en
+// tokens die op een scam airdrop lijken
+// -----------------------------------------------------------------------------
+
+// max aantal verschillende mints dat we op scam kenmerken controleren
+export const AUDIT_MAX_MINTS = Number(process.env.AUDIT_MAX_MINTS || 100);
+
+export type ApprovedAccount = {
+  tokenAccount: string;
+  mint: string;
+  program: TokenProgramName;
+  // hoeveel de delegate nog mag verplaatsen
+  delegatedAmountRaw: string;
+  delegatedAmount: string;
+  balance: string;
+};
+
+export type DelegateApproval = {
+  delegate: string;
+  label: OwnerLabel | null;
+  accounts: ApprovedAccount[];
+};
+
+export type FrozenAccount = {
+  tokenAccount: string;
+  mint: string;
+  program: TokenProgramName;
+  balance: string;
+};
+
+export type CloseableAccount = {
+  tokenAccount: string;
+  mint: string;
+  program: TokenProgramName;
+  lamports: number;
+  sol: number;
+};
+
+export type SuspiciousToken = {
+  mint: string;
+  tokenAccount: string;
+  balance: string;
+  name: string | null;
+  symbol: string | null;
+  reasons: string[];
+};
+
+export type WalletAudit = {
+  tokenAccounts: number;
+  approvals: DelegateApproval[];
+  frozen: FrozenAccount[];
+  closeable: {
+    accounts: CloseableAccount[];
+    reclaimableLamports: number;
+    reclaimableSol: number;
+  };
+  // lege accounts die de wallet zelf niet kan sluiten (andere close
+  // authority of frozen)
+  notCloseable: number;
+  suspicious: SuspiciousToken[];
+  // mints boven AUDIT_MAX_MINTS, die zijn niet gecontroleerd
+  uncheckedMints: number;
+};
+
+// extra input per mint, opgehaald in server.ts
+export type AuditMintInput = {
+  info: TokenInfo | null;
+  // trusted liquiditeit van pools met deze mint als base token
+  liquidityUsd: number;
+};
+
+type ParsedTokenAccount = {
+  tokenAccount: string;
+  mint: string;
+  program: TokenProgramName;
+  lamports: number;
+  amountRaw: bigint;
+  decimals: number;
+  frozen: boolean;
+  delegate: string | null;
+  delegatedAmountRaw: bigint;
+  closeAuthority: string | null;
+};
+
+function parseTokenAccount(ta: OwnedTokenAccount): ParsedTokenAccount | null {
+  const info: any = ta.info;
+  const amount = info?.tokenAmount?.amount;
+  if (typeof info?.mint !== "string" || !/^\d+$/.test(amount ?? "")) {
+    return null;
+  }
+  const delegated = info.delegatedAmount?.amount;
+  return {
+    tokenAccount: ta.pubkey.toBase58(),
+    mint: info.mint,
+    program: ta.program,
+    lamports: ta.lamports,
+    amountRaw: BigInt(amount),
+    decimals: info.tokenAmount.decimals,
+    frozen: info.state === "frozen",
+    delegate: typeof info.delegate === "string" ? info.delegate : null,
+    delegatedAmountRaw:
+      typeof delegated === "string" && /^\d+$/.test(delegated)
+        ? BigInt(delegated)
+        : 0n,
+    closeAuthority:
+      typeof info.closeAuthority === "string" ? info.closeAuthority : null,
+  };
+}
+
+// woorden die je in namen van scam airdrops ziet ("Claim at ...", "$500 reward")
+const LURE_PATTERN =
+  /(https?:\/\/|www\.|\.(com|io|net|org|xyz|app|site|fun)\b|t\.me\/|claim|airdrop|reward|voucher|visit|redeem|gift|bonus)/i;
+
+/**
+ * Redenen waarom een mint op een scam airdrop lijkt; leeg = niets gevonden.
+ * Lokkende naam of gevaarlijke extensions zijn genoeg, geen liquiditeit
+ * alleen niet (dat geldt ook voor legitieme nieuwe tokens).
+ */
+export function scamAirdropReasons(
+  mint: AuditMintInput,
+  minLiquidityUsd: number
+): string[] {
+  const reasons: string[] = [];
+  const info = mint.info;
+  if (!info) return reasons;
+
+  const text = [info.metadata?.name, info.metadata?.symbol]
+    .filter(Boolean)
+    .join(" ");
+  if (LURE_PATTERN.test(text)) {
+    reasons.push(`Name or symbol looks like a lure: "${text}".`);
+  }
+
+  const extensionRisk = assessExtensionRisk(info.extensions);
+  if (extensionRisk.dangerous) reasons.push(...extensionRisk.reasons);
+
+  const noLiquidity = mint.liquidityUsd < minLiquidityUsd;
+  const authorityKept =
+    info.mintAuthority !== null || info.freezeAuthority !== null;
+  if (reasons.length > 0 || (noLiquidity && authorityKept)) {
+    if (noLiquidity) {
+      reasons.push(
+        `No trusted liquidity (< $${minLiquidityUsd}), the token cannot be sold.`
+      );
+    }
+    if (info.freezeAuthority !== null) {
+      reasons.push("Freeze authority is still set.");
+    }
+    if (info.mintAuthority !== null) {
+      reasons.push("Mint authority is still set.");
+    }
+  }
+  return reasons;
+}
+
+/**
+ * Audit van de token accounts van één wallet. `mints` bevat info voor de
+ * mints met saldo (max AUDIT_MAX_MINTS). Delegate labels vult server.ts in,
+ * die komen uit de owner label cache.
+ */
+export function auditTokenAccounts(
+  owner: string,
+  accounts: OwnedTokenAccount[],
+  mints: Map<string, AuditMintInput>,
+  minLiquidityUsd: number
+): WalletAudit {
+  const parsed = accounts
+    .map(parseTokenAccount)
+    .filter((a): a is ParsedTokenAccount => a !== null);
+
+  const byDelegate = new Map<string, ApprovedAccount[]>();
+  const frozen: FrozenAccount[] = [];
+  const closeable: CloseableAccount[] = [];
+  const suspicious: SuspiciousToken[] = [];
+  let notCloseable = 0;
+
+  for (const a of parsed) {
+    const balance = formatUnits(a.amountRaw, a.decimals);
+
+    if (a.delegate && a.delegatedAmountRaw > 0n) {
+      const list = byDelegate.get(a.delegate) ?? [];
+      list.push({
+        tokenAccount: a.tokenAccount,
+        mint: a.mint,
+        program: a.program,
+        delegatedAmountRaw: a.delegatedAmountRaw.toString(),
+        delegatedAmount: formatUnits(a.delegatedAmountRaw, a.decimals),
+        balance,
+      });
+      byDelegate.set(a.delegate, list);
+    }
+
+    if (a.frozen) {
+      frozen.push({
+        tokenAccount: a.tokenAccount,
+        mint: a.mint,
+        program: a.program,
+        balance,
+      });
+    }
+
+    if (a.amountRaw === 0n) {
+      // sluiten kan alleen door de close authority (default de owner)
+      if (a.frozen || (a.closeAuthority && a.closeAuthority !== owner)) {
+        notCloseable += 1;
+      } else {
+        closeable.push({
+          tokenAccount: a.tokenAccount,
+          mint: a.mint,
+          program: a.program,
+          lamports: a.lamports,
+          sol: a.lamports / LAMPORTS_PER_SOL,
+        });
+      }
+      continue;
+    }
+
+    const mint = mints.get(a.mint);
+    if (!mint) continue;
+    const reasons = scamAirdropReasons(mint, minLiquidityUsd);
+    if (reasons.length > 0) {
+      suspicious.push({
+        mint: a.mint,
+        tokenAccount: a.tokenAccount,
+        balance,
+        name: mint.info?.metadata?.name ?? null,
+        symbol: mint.info?.metadata?.symbol ?? null,
+        reasons,
+      });
+    }
+  }
+
+  // delegates met het meeste (aantal accounts) eerst
+  const approvals = Array.from(byDelegate.entries())
+    .map(([delegate, list]) => ({
+      delegate,
+      label: null,
+      accounts: list,
+    }))
+    .sort((a, b) => b.accounts.length - a.accounts.length);
+
+  const reclaimableLamports = Number(
+    sumRaw(closeable.map((c) => BigInt(c.lamports)))
+  );
+  const heldMints = new Set(
+    parsed.filter((a) => a.amountRaw > 0n).map((a) => a.mint)
+  );
+
+  return {
+    tokenAccounts: parsed.length,
+    approvals,
+    frozen,
+    closeable: {
+      accounts: closeable,
+      reclaimableLamports,
+      reclaimableSol: reclaimableLamports / LAMPORTS_PER_SOL,
+    },
+    notCloseable,
+    suspicious,
+    uncheckedMints: Math.max(0, heldMints.size - mints.size),
+  };
+}
+
+/** Verschillende mints met saldo, max AUDIT_MAX_MINTS. */
+export function heldMints(accounts: OwnedTokenAccount[]): string[] {
+  const mints = new Set<string>();
+  for (const ta of accounts) {
+    const a = parseTokenAccount(ta);
+    if (a && a.amountRaw > 0n) mints.add(a.mint);
+  }
+  return Array.from(mints).slice(0, AUDIT_MAX_MINTS);
+}
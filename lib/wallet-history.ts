@@ -0,0 +1,330 @@
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  Finality,
+  LAMPORTS_PER_SOL,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  TokenBalance,
+} from "@solana/web3.js";
+import { WSOL_MINT } from "./market-data";
+import { chunk } from "./rpc-batch";
+import { formatUnits, toUiNumber } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Wallet history: transacties parsen naar balance deltas + classificatie
+// -----------------------------------------------------------------------------
+
+export const HISTORY_DEFAULT_LIMIT = 20;
+export const HISTORY_MAX_LIMIT = 100;
+
+// getParsedTransactions is een JSON-RPC batch; kleine chunks houden
+// providers met een batch limiet tevreden
+export const PARSED_TX_CHUNK = 25;
+
+// SOL bewegingen tot ongeveer de rent van een token account tellen niet als
+// "echte" in/out naast token bewegingen (ATA aanmaken / sluiten)
+const RENT_NOISE_LAMPORTS = 2_500_000n;
+
+export type TxClassification =
+  | "transfer-in"
+  | "transfer-out"
+  | "swap"
+  | "mint"
+  | "burn"
+  | "close-account"
+  | "unknown";
+
+export type TokenDelta = {
+  mint: string;
+  decimals: number;
+  preRaw: string;
+  postRaw: string;
+  deltaRaw: string;
+  uiDelta: number;
+  uiDeltaString: string;
+};
+
+export type WalletTransaction = {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  status: "success" | "failed";
+  error: any;
+  // null als de transactie niet (meer) op te halen was
+  fee: number | null;
+  feePayer: string | null;
+  // netto verandering van de wallet zelf, inclusief fee
+  solDeltaLamports: number;
+  solDelta: number;
+  tokenDeltas: TokenDelta[];
+  classification: TxClassification;
+  programs: string[];
+};
+
+// PublicKey uit web3.js of string uit opgenomen JSON fixtures
+type KeyLike = PublicKey | string;
+
+export function keyString(key: KeyLike): string {
+  return typeof key === "string" ? key : key.toBase58();
+}
+
+export type FlatInstruction = {
+  program: string | null;
+  programId: string;
+  type: string | null;
+  info: any;
+  // accounts van een niet-geparste instructie, anders leeg
+  accounts: string[];
+};
+
+// outer + inner instructies in één lijst
+export function flattenInstructions(
+  tx: ParsedTransactionWithMeta
+): FlatInstruction[] {
+  const outer = tx.transaction.message.instructions;
+  const inner = (tx.meta?.innerInstructions || []).flatMap(
+    (i) => i.instructions
+  );
+  return [...outer, ...inner].map((ix: any) => ({
+    program: ix.program ?? null,
+    programId: keyString(ix.programId),
+    type: ix.parsed?.type ?? null,
+    info: ix.parsed?.info ?? null,
+    accounts: (ix.accounts ?? []).map(keyString),
+  }));
+}
+
+function tokenDeltasFor(
+  tx: ParsedTransactionWithMeta,
+  wallet: string
+): TokenDelta[] {
+  const byMint = new Map<
+    string,
+    { decimals: number; pre: bigint; post: bigint }
+  >();
+
+  const add = (
+    balances: TokenBalance[] | null | undefined,
+    field: "pre" | "post"
+  ) => {
+    for (const b of balances || []) {
+      if (b.owner !== wallet) continue;
+      const entry = byMint.get(b.mint) ?? {
+        decimals: b.uiTokenAmount.decimals,
+        pre: 0n,
+        post: 0n,
+      };
+      entry[field] += BigInt(b.uiTokenAmount.amount);
+      byMint.set(b.mint, entry);
+    }
+  };
+
+  add(tx.meta?.preTokenBalances, "pre");
+  add(tx.meta?.postTokenBalances, "post");
+
+  return Array.from(byMint.entries())
+    .map(([mint, e]) => {
+      const delta = e.post - e.pre;
+      return {
+        mint,
+        decimals: e.decimals,
+        preRaw: e.pre.toString(),
+        postRaw: e.post.toString(),
+        deltaRaw: delta.toString(),
+        uiDelta: toUiNumber(delta, e.decimals),
+        uiDeltaString: formatUnits(delta, e.decimals),
+      };
+    })
+    .filter((d) => d.deltaRaw !== "0");
+}
+
+export function isTokenProgram(ix: FlatInstruction): boolean {
+  return ix.program === "spl-token" || ix.program === "spl-token-2022";
+}
+
+/**
+ * Bepaalt wat een transactie voor `wallet` betekende, op basis van de
+ * balance deltas en de token instructies:
+ * - mint / burn: de wallet kreeg (of verloor) tokens van een mint waarop in
+ *   deze transactie gemint (of verbrand) werd
+ * - swap: er ging een asset uit én een ander asset in (wSOL telt als SOL)
+ * - transfer-in / transfer-out: alleen inkomend of alleen uitgaand
+ * - close-account: alleen een token account van de wallet gesloten
+ */
+function classify(
+  wallet: string,
+  solChange: bigint,
+  tokenDeltas: TokenDelta[],
+  instructions: FlatInstruction[]
+): TxClassification {
+  const tokenIx = instructions.filter(isTokenProgram);
+
+  const mintedMints = new Set(
+    tokenIx
+      .filter((ix) => ix.type === "mintTo" || ix.type === "mintToChecked")
+      .map((ix) => ix.info?.mint)
+  );
+  if (
+    tokenDeltas.some((d) => BigInt(d.deltaRaw) > 0n && mintedMints.has(d.mint))
+  ) {
+    return "mint";
+  }
+
+  const burnedMints = new Set(
+    tokenIx
+      .filter((ix) => ix.type === "burn" || ix.type === "burnChecked")
+      .map((ix) => ix.info?.mint)
+  );
+  if (
+    tokenDeltas.some((d) => BigInt(d.deltaRaw) < 0n && burnedMints.has(d.mint))
+  ) {
+    return "burn";
+  }
+
+  // wSOL en native SOL samen als één asset
+  let sol = solChange;
+  const others: bigint[] = [];
+  for (const d of tokenDeltas) {
+    if (d.mint === WSOL_MINT) sol += BigInt(d.deltaRaw);
+    else others.push(BigInt(d.deltaRaw));
+  }
+
+  const closedOwnAccount = tokenIx.some(
+    (ix) =>
+      ix.type === "closeAccount" &&
+      (ix.info?.owner === wallet || ix.info?.destination === wallet)
+  );
+
+  const changes = [...others];
+  const solIsNoise =
+    others.length > 0 || closedOwnAccount
+      ? (sol < 0n ? -sol : sol) <= RENT_NOISE_LAMPORTS
+      : sol === 0n;
+  if (!solIsNoise) changes.push(sol);
+
+  const hasIn = changes.some((c) => c > 0n);
+  const hasOut = changes.some((c) => c < 0n);
+
+  if (hasIn && hasOut) return "swap";
+  if (hasIn) return "transfer-in";
+  if (hasOut) return "transfer-out";
+  if (closedOwnAccount) return "close-account";
+  return "unknown";
+}
+
+/**
+ * Parse een transactie (getParsedTransaction / jsonParsed) vanuit het
+ * perspectief van `wallet`. Puur: geen RPC calls, dus ook bruikbaar op
+ * opgenomen transactie-JSON (keys als strings i.p.v. PublicKey).
+ */
+export function parseWalletTransaction(
+  tx: ParsedTransactionWithMeta,
+  wallet: string
+): WalletTransaction {
+  const meta = tx.meta;
+  const accountKeys = tx.transaction.message.accountKeys.map((a) =>
+    keyString(a.pubkey)
+  );
+  const feePayer = accountKeys[0] ?? null;
+  const fee = meta?.fee ?? 0;
+
+  const idx = accountKeys.indexOf(wallet);
+  const solDelta =
+    idx >= 0 && meta
+      ? BigInt(meta.postBalances[idx] ?? 0) - BigInt(meta.preBalances[idx] ?? 0)
+      : 0n;
+  // voor de classificatie telt de fee niet als "uitgaand"
+  const solChange = feePayer === wallet ? solDelta + BigInt(fee) : solDelta;
+
+  const instructions = flattenInstructions(tx);
+  const tokenDeltas = tokenDeltasFor(tx, wallet);
+  const failed = !!meta?.err;
+
+  return {
+    signature: tx.transaction.signatures[0],
+    slot: tx.slot,
+    blockTime: tx.blockTime ?? null,
+    status: failed ? "failed" : "success",
+    error: meta?.err ?? null,
+    fee,
+    feePayer,
+    solDeltaLamports: Number(solDelta),
+    solDelta: Number(solDelta) / LAMPORTS_PER_SOL,
+    tokenDeltas,
+    classification: failed
+      ? "unknown"
+      : classify(wallet, solChange, tokenDeltas, instructions),
+    programs: Array.from(
+      new Set(
+        tx.transaction.message.instructions.map((ix) => keyString(ix.programId))
+      )
+    ),
+  };
+}
+
+// signature zonder (opvraagbare) transactie, bv. buiten de RPC historie
+function unparsedTransaction(sig: ConfirmedSignatureInfo): WalletTransaction {
+  return {
+    signature: sig.signature,
+    slot: sig.slot,
+    blockTime: sig.blockTime ?? null,
+    status: sig.err ? "failed" : "success",
+    error: sig.err ?? null,
+    fee: null,
+    feePayer: null,
+    solDeltaLamports: 0,
+    solDelta: 0,
+    tokenDeltas: [],
+    classification: "unknown",
+    programs: [],
+  };
+}
+
+export type WalletHistoryPage = {
+  transactions: WalletTransaction[];
+  // signature om als `before` mee te geven voor de volgende pagina
+  nextCursor: string | null;
+};
+
+export async function fetchWalletHistory(
+  connection: Connection,
+  address: string,
+  opts: { before?: string; limit?: number } = {}
+): Promise<WalletHistoryPage> {
+  const limit = Math.min(
+    opts.limit ?? HISTORY_DEFAULT_LIMIT,
+    HISTORY_MAX_LIMIT
+  );
+  // transacties bestaan niet op "processed", dan vallen we terug op confirmed
+  const finality: Finality =
+    connection.commitment === "finalized" ? "finalized" : "confirmed";
+
+  const signatures = await connection.getSignaturesForAddress(
+    new PublicKey(address),
+    { before: opts.before, limit },
+    finality
+  );
+
+  const parsed: (ParsedTransactionWithMeta | null)[] = [];
+  for (const part of chunk(signatures, PARSED_TX_CHUNK)) {
+    const txs = await connection.getParsedTransactions(
+      part.map((s) => s.signature),
+      { commitment: finality, maxSupportedTransactionVersion: 0 }
+    );
+    parsed.push(...txs);
+  }
+
+  const transactions = signatures.map((sig, i) => {
+    const tx = parsed[i];
+    return tx ? parseWalletTransaction(tx, address) : unparsedTransaction(sig);
+  });
+
+  return {
+    transactions,
+    nextCursor:
+      signatures.length === limit
+        ? signatures[signatures.length - 1].signature
+        : null,
+  };
+}
@@ -0,0 +1,166 @@
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import {
+  OwnedTokenAccount,
+  TokenProgramName,
+  fetchTokenAccountsByOwner,
+} from "./token-programs";
+import {
+  TokenMetadata,
+  attachOffChainMetadata,
+  resolveMetadataBatch,
+} from "./metadata";
+import {
+  BatchItem,
+  getMultipleAccountsInfoChunked,
+  mapWithConcurrency,
+} from "./rpc-batch";
+import { formatUnits, toUiNumber } from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Wallet info voor één of meer wallets (GET /api/wallet-info en batch)
+// -----------------------------------------------------------------------------
+
+// max aantal wallets waarvan we tegelijk token accounts opvragen
+const WALLET_CONCURRENCY = Number(process.env.WALLET_CONCURRENCY || 5);
+
+export type WalletToken = {
+  mint: string;
+  tokenAccount: string;
+  program: TokenProgramName;
+  amountRaw: string;
+  uiAmount: number;
+  // exact, uiAmount kan afronden
+  uiAmountString: string;
+  decimals: number;
+  isNative: boolean;
+  metadata: TokenMetadata | null;
+};
+
+export type WalletInfo = {
+  address: string;
+  lamports: number;
+  sol: number;
+  tokens: WalletToken[];
+};
+
+function toWalletTokens(
+  tokenAccounts: OwnedTokenAccount[]
+): Omit<WalletToken, "metadata">[] {
+  return tokenAccounts
+    .map((ta) => {
+      const parsed: any = ta.info;
+      const mintStr: string = parsed.mint;
+      const tokenAmount = parsed.tokenAmount;
+
+      const decimals: number = tokenAmount.decimals;
+      const amountRaw: string = tokenAmount.amount;
+
+      // lege token accounts laten we weg
+      if (!/^\d+$/.test(amountRaw) || BigInt(amountRaw) === 0n) return null;
+
+      return {
+        mint: mintStr,
+        tokenAccount: ta.pubkey.toBase58(),
+        program: ta.program,
+        amountRaw,
+        uiAmount: toUiNumber(amountRaw, decimals),
+        uiAmountString: formatUnits(amountRaw, decimals),
+        decimals,
+        isNative: false,
+      };
+    })
+    .filter((t): t is Omit<WalletToken, "metadata"> => t !== null)
+    .sort((a, b) => (b.uiAmount || 0) - (a.uiAmount || 0));
+}
+
+export async function fetchWalletInfos(
+  connection: Connection,
+  addresses: string[],
+  opts: { offChain?: boolean } = {}
+): Promise<BatchItem<WalletInfo>[]> {
+  const valid = new Map<string, PublicKey>();
+  for (const address of addresses) {
+    try {
+      valid.set(address, new PublicKey(address));
+    } catch {
+      // ongeldige adressen krijgen hieronder een eigen 400
+    }
+  }
+  const keys = Array.from(valid.keys());
+
+  // SOL balansen in één keer via getMultipleAccountsInfo (geen account = 0)
+  const accounts = await getMultipleAccountsInfoChunked(
+    connection,
+    keys.map((k) => valid.get(k)!)
+  );
+  const lamportsByAddress = new Map<string, number>();
+  accounts.forEach((info, idx) => {
+    lamportsByAddress.set(keys[idx], info?.lamports ?? 0);
+  });
+
+  // SPL Token + Token-2022 accounts, per wallet (daar bestaat geen batch call voor)
+  const tokenResults = await mapWithConcurrency(
+    keys,
+    WALLET_CONCURRENCY,
+    async (address) => {
+      try {
+        const tokenAccounts = await fetchTokenAccountsByOwner(
+          connection,
+          valid.get(address)!
+        );
+        return { address, tokens: toWalletTokens(tokenAccounts) };
+      } catch (e: any) {
+        console.error("wallet-info token accounts error:", e?.message || e);
+        return { address, error: e?.message || String(e) };
+      }
+    }
+  );
+
+  // Namen / symbolen / uri voor alle tokens van alle wallets in één lookup
+  const allTokens = tokenResults.flatMap((r) => r.tokens ?? []);
+  const metadataByMint = await resolveMetadataBatch(
+    connection,
+    allTokens.map((t) => t.mint),
+    allTokens.filter((t) => t.program === "spl-token-2022").map((t) => t.mint)
+  );
+  if (opts.offChain) {
+    await attachOffChainMetadata(Array.from(metadataByMint.values()));
+  }
+
+  const byAddress = new Map(tokenResults.map((r) => [r.address, r]));
+
+  return addresses.map((address): BatchItem<WalletInfo> => {
+    if (!valid.has(address)) {
+      return {
+        key: address,
+        ok: false,
+        status: 400,
+        error: "Invalid Solana address",
+      };
+    }
+    const tokenResult = byAddress.get(address)!;
+    if (!tokenResult.tokens) {
+      return {
+        key: address,
+        ok: false,
+        status: 500,
+        error: tokenResult.error ?? "Failed to fetch token accounts",
+      };
+    }
+
+    const lamports = lamportsByAddress.get(address) ?? 0;
+    return {
+      key: address,
+      ok: true,
+      result: {
+        address,
+        lamports,
+        sol: lamports / LAMPORTS_PER_SOL,
+        tokens: tokenResult.tokens.map((t) => ({
+          ...t,
+          metadata: metadataByMint.get(t.mint) ?? null,
+        })),
+      },
+    };
+  });
+}
@@ -0,0 +1,819 @@
+import crypto from "crypto";
+import dns from "dns";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import net from "net";
+import path from "path";
+import { PublicKey } from "@solana/web3.js";
+import fetch from "node-fetch";
+import { mapWithConcurrency } from "./rpc-batch";
+
+// -----------------------------------------------------------------------------
+// Webhooks: subscriptions met condities, evaluator op interval en
+// gesigneerde deliveries met retry/backoff
+// -----------------------------------------------------------------------------
+
+export type WebhookCondition =
+  | {
+      type: "liquidity-below";
+      mint: string;
+      thresholdUsd: number;
+      dexes?: string[];
+    }
+  | { type: "whale-move"; mint: string; minPctOfSupply: number }
+  | { type: "mint-authority-change"; mint: string }
+  | {
+      type: "wallet-balance-change";
+      address: string;
+      // zonder mint: SOL balance
+      mint?: string;
+      minDelta?: number;
+    };
+
+export type WebhookSubscription = {
+  id: string;
+  // client die hem aanmaakte ("key:<id>" of "anon:<ip>"); null = van vóór
+  // de API keys, alleen nog zichtbaar voor admin keys
+  owner: string | null;
+  url: string;
+  secret: string;
+  condition: WebhookCondition;
+  createdAt: string;
+  // laatst waargenomen toestand, basis voor de volgende vergelijking
+  state: any;
+  lastEvaluatedAt: string | null;
+  lastError: string | null;
+};
+
+export type DeliveryAttempt = {
+  at: string;
+  status: number | null;
+  error: string | null;
+  ms: number;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  subscriptionId: string;
+  event: string;
+  payload: any;
+  status: "pending" | "delivered" | "failed";
+  attempts: DeliveryAttempt[];
+  createdAt: string;
+  nextRetryAt: string | null;
+};
+
+export const WEBHOOK_DIR =
+  process.env.WEBHOOK_DIR || path.join(__dirname, "..", "data", "webhooks");
+
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 10_000);
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS || 5);
+const WEBHOOK_BACKOFF_MS = Number(process.env.WEBHOOK_BACKOFF_MS || 1000);
+const WEBHOOK_BACKOFF_MAX_MS = 5 * 60 * 1000;
+// zoveel deliveries houden we in de log (geheugen + bestand bij opstart)
+const DELIVERY_LOG_SIZE = Number(process.env.WEBHOOK_DELIVERY_LOG_SIZE || 1000);
+// alleen voor lokale ontwikkeling: ook loopback / private netwerken toestaan
+const WEBHOOK_ALLOW_PRIVATE = process.env.WEBHOOK_ALLOW_PRIVATE === "1";
+
+// -----------------------------------------------------------------------------
+// Validatie van nieuwe subscriptions
+// -----------------------------------------------------------------------------
+
+function isAddress(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value) && value >= 0;
+}
+
+export function parseWebhookCondition(
+  raw: any
+): { ok: true; condition: WebhookCondition } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object") {
+    return { ok: false, error: "condition must be an object" };
+  }
+
+  switch (raw.type) {
+    case "liquidity-below":
+      if (!isAddress(raw.mint)) {
+        return { ok: false, error: "condition.mint must be a valid mint" };
+      }
+      if (!isNonNegative(raw.thresholdUsd)) {
+        return { ok: false, error: "condition.thresholdUsd must be a number" };
+      }
+      if (
+        raw.dexes !== undefined &&
+        (!Array.isArray(raw.dexes) ||
+          raw.dexes.some((d: unknown) => typeof d !== "string"))
+      ) {
+        return { ok: false, error: "condition.dexes must be a string array" };
+      }
+      return {
+        ok: true,
+        condition: {
+          type: raw.type,
+          mint: raw.mint,
+          thresholdUsd: raw.thresholdUsd,
+          ...(raw.dexes ? { dexes: raw.dexes } : {}),
+        },
+      };
+
+    case "whale-move":
+      if (!isAddress(raw.mint)) {
+        return { ok: false, error: "condition.mint must be a valid mint" };
+      }
+      if (!isNonNegative(raw.minPctOfSupply)) {
+        return {
+          ok: false,
+          error: "condition.minPctOfSupply must be a number",
+        };
+      }
+      return {
+        ok: true,
+        condition: {
+          type: raw.type,
+          mint: raw.mint,
+          minPctOfSupply: raw.minPctOfSupply,
+        },
+      };
+
+    case "mint-authority-change":
+      if (!isAddress(raw.mint)) {
+        return { ok: false, error: "condition.mint must be a valid mint" };
+      }
+      return { ok: true, condition: { type: raw.type, mint: raw.mint } };
+
+    case "wallet-balance-change":
+      if (!isAddress(raw.address)) {
+        return {
+          ok: false,
+          error: "condition.address must be a valid address",
+        };
+      }
+      if (raw.mint !== undefined && !isAddress(raw.mint)) {
+        return { ok: false, error: "condition.mint must be a valid mint" };
+      }
+      if (raw.minDelta !== undefined && !isNonNegative(raw.minDelta)) {
+        return { ok: false, error: "condition.minDelta must be a number" };
+      }
+      return {
+        ok: true,
+        condition: {
+          type: raw.type,
+          address: raw.address,
+          ...(raw.mint ? { mint: raw.mint } : {}),
+          ...(raw.minDelta !== undefined ? { minDelta: raw.minDelta } : {}),
+        },
+      };
+
+    default:
+      return {
+        ok: false,
+        error:
+          "condition.type must be liquidity-below, whale-move, mint-authority-change or wallet-balance-change",
+      };
+  }
+}
+
+export function isWebhookUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Doeladressen: geen loopback, private, link-local of metadata ranges (SSRF)
+// -----------------------------------------------------------------------------
+
+const blockedRanges = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  // CGNAT, ook de metadata service van sommige clouds
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  // link-local, met 169.254.169.254 (cloud metadata)
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  // multicast, gereserveerd en broadcast
+  ["224.0.0.0", 3],
+] as const) {
+  blockedRanges.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64; IPv4-mapped (::ffff:a.b.c.d) toetst BlockList zelf aan de IPv4 lijst
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedRanges.addSubnet(prefix, bits, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedRanges.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolvet de host van een webhook URL en geeft een foutmelding als één
+ * van de adressen niet publiek is, anders null.
+ */
+export async function checkWebhookTarget(
+  url: string,
+  allowPrivate = WEBHOOK_ALLOW_PRIVATE
+): Promise<string | null> {
+  if (allowPrivate) return null;
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host)
+      ? [host]
+      : (await dns.promises.lookup(host, { all: true, verbatim: true })).map(
+          (a) => a.address
+        );
+  } catch (e: any) {
+    return `cannot resolve ${host}: ${e?.code || e?.message || e}`;
+  }
+  const blocked = addresses.find(isPrivateAddress);
+  return blocked
+    ? `${host} resolves to a non-public address (${blocked})`
+    : null;
+}
+
+// De check vooraf plus dezelfde check bij het verbinden, zodat een host die
+// tussendoor naar een intern adres gaat wijzen (DNS rebinding) niets bereikt.
+function guardedLookup(hostname: string, options: any, callback: any) {
+  dns.lookup(hostname, options, (err: any, address: any, family: any) => {
+    if (err) return callback(err, address, family);
+    const list: { address: string }[] = Array.isArray(address)
+      ? address
+      : [{ address }];
+    const blocked = list.find((a) => isPrivateAddress(a.address));
+    if (blocked) {
+      return callback(
+        new Error(`${hostname} resolves to a non-public address`),
+        address,
+        family
+      );
+    }
+    callback(null, address, family);
+  });
+}
+
+const guardedAgents = {
+  http: new http.Agent({ lookup: guardedLookup as any }),
+  https: new https.Agent({ lookup: guardedLookup as any }),
+};
+
+/** node-fetch `agent` optie die alleen met publieke adressen verbindt. */
+export function guardedAgent(url: URL): http.Agent {
+  return url.protocol === "https:" ? guardedAgents.https : guardedAgents.http;
+}
+
+// -----------------------------------------------------------------------------
+// Store: subscriptions als JSON bestand, deliveries als JSONL log
+// -----------------------------------------------------------------------------
+
+export function createWebhookStore(
+  dir = WEBHOOK_DIR,
+  logSize = DELIVERY_LOG_SIZE
+) {
+  const subsFile = path.join(dir, "subscriptions.json");
+  const deliveriesFile = path.join(dir, "deliveries.jsonl");
+
+  const subscriptions = new Map<string, WebhookSubscription>();
+  const deliveries: WebhookDelivery[] = [];
+  // regels in deliveries.jsonl, om te weten wanneer we moeten inkorten
+  let logLines = 0;
+
+  try {
+    const list: WebhookSubscription[] = JSON.parse(
+      fs.readFileSync(subsFile, "utf8")
+    );
+    for (const s of list) {
+      subscriptions.set(s.id, { ...s, owner: s.owner ?? null });
+    }
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") {
+      console.error("webhook subscriptions load error:", e?.message || e);
+    }
+  }
+  try {
+    const lines = fs
+      .readFileSync(deliveriesFile, "utf8")
+      .split("\n")
+      .filter((l) => l.trim() !== "");
+    logLines = lines.length;
+    for (const line of lines.slice(-logSize)) {
+      deliveries.push(JSON.parse(line));
+    }
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") {
+      console.error("webhook deliveries load error:", e?.message || e);
+    }
+  }
+
+  // schrijven via tmp + rename, zodat een crash geen half bestand achterlaat
+  let saving = Promise.resolve();
+  function persist(): Promise<void> {
+    const body = JSON.stringify(Array.from(subscriptions.values()), null, 2);
+    saving = saving
+      .then(async () => {
+        await fs.promises.mkdir(dir, { recursive: true });
+        await fs.promises.writeFile(`${subsFile}.tmp`, body);
+        await fs.promises.rename(`${subsFile}.tmp`, subsFile);
+      })
+      .catch((e: any) => {
+        console.error("webhook subscriptions save error:", e?.message || e);
+      });
+    return saving;
+  }
+
+  // appends en het inkorten van de delivery log ook na elkaar
+  let logging = Promise.resolve();
+
+  return {
+    list: () => Array.from(subscriptions.values()),
+    get: (id: string) => subscriptions.get(id) ?? null,
+    async save(sub: WebhookSubscription) {
+      subscriptions.set(sub.id, sub);
+      await persist();
+    },
+    async remove(id: string): Promise<boolean> {
+      const existed = subscriptions.delete(id);
+      if (existed) await persist();
+      return existed;
+    },
+
+    addDelivery(delivery: WebhookDelivery) {
+      deliveries.push(delivery);
+      if (deliveries.length > logSize) deliveries.shift();
+    },
+    /**
+     * Eindstatus (delivered / failed) gaat naar het bestand. Groeit dat
+     * boven 2x de logSize, dan houden we alleen de laatste logSize regels.
+     */
+    finishDelivery(delivery: WebhookDelivery): Promise<void> {
+      const line = JSON.stringify(delivery) + "\n";
+      logging = logging
+        .then(async () => {
+          await fs.promises.mkdir(dir, { recursive: true });
+          await fs.promises.appendFile(deliveriesFile, line);
+          logLines++;
+          if (logLines <= 2 * logSize) return;
+
+          const keep = (await fs.promises.readFile(deliveriesFile, "utf8"))
+            .split("\n")
+            .filter((l) => l.trim() !== "")
+            .slice(-logSize);
+          await fs.promises.writeFile(
+            `${deliveriesFile}.tmp`,
+            keep.join("\n") + "\n"
+          );
+          await fs.promises.rename(`${deliveriesFile}.tmp`, deliveriesFile);
+          logLines = keep.length;
+        })
+        .catch((e: any) => {
+          console.error("webhook delivery log error:", e?.message || e);
+        });
+      return logging;
+    },
+    deliveriesFor(subscriptionId: string, limit = 50): WebhookDelivery[] {
+      return deliveries
+        .filter((d) => d.subscriptionId === subscriptionId)
+        .slice(-limit)
+        .reverse();
+    },
+  };
+}
+
+export type WebhookStore = ReturnType<typeof createWebhookStore>;
+
+/** Alleen de maker van een subscription mag hem zien en beheren, of een admin. */
+export function canManageWebhook(
+  sub: WebhookSubscription,
+  client: { id: string; key: { admin: boolean } | null }
+): boolean {
+  return client.key?.admin === true || sub.owner === client.id;
+}
+
+/** Publieke weergave: het secret gaat alleen mee bij het aanmaken. */
+export function redactSubscription(sub: WebhookSubscription) {
+  const { secret: _secret, ...rest } = sub;
+  return rest;
+}
+
+// -----------------------------------------------------------------------------
+// Signeren + afleveren met retry/backoff
+// -----------------------------------------------------------------------------
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`. De ontvanger rekent dit na met
+ * het secret en de X-Webhook-Timestamp header (en weigert oude timestamps).
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+function isRetryable(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+export function createWebhookDispatcher(
+  store: WebhookStore,
+  options: { allowPrivate?: boolean } = {}
+) {
+  const allowPrivate = options.allowPrivate ?? WEBHOOK_ALLOW_PRIVATE;
+
+  async function attempt(sub: WebhookSubscription, delivery: WebhookDelivery) {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const started = Date.now();
+
+    // het adres kan sinds het aanmaken veranderd zijn; opnieuw proberen
+    // heeft dan geen zin
+    const blocked = await checkWebhookTarget(sub.url, allowPrivate);
+    if (blocked) {
+      delivery.attempts.push({
+        at: new Date(started).toISOString(),
+        status: null,
+        error: blocked,
+        ms: Date.now() - started,
+      });
+      delivery.status = "failed";
+      delivery.nextRetryAt = null;
+      await store.finishDelivery(delivery);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+    let status: number | null = null;
+    let error: string | null = null;
+    try {
+      const res = await fetch(sub.url, {
+        method: "POST",
+        body,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "solana-tools-api-webhooks",
+          "X-Webhook-Id": delivery.id,
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Timestamp": timestamp,
+          "X-Webhook-Signature": `sha256=${signWebhookPayload(sub.secret, timestamp, body)}`,
+        },
+        signal: controller.signal as any,
+        // een redirect zou de adrescheck omzeilen
+        redirect: "manual",
+        agent: allowPrivate ? undefined : guardedAgent,
+      });
+      status = res.status;
+      if (!res.ok) error = `HTTP ${res.status}`;
+    } catch (e: any) {
+      error = e?.message || String(e);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    delivery.attempts.push({
+      at: new Date(started).toISOString(),
+      status,
+      error,
+      ms: Date.now() - started,
+    });
+
+    if (!error) {
+      delivery.status = "delivered";
+      delivery.nextRetryAt = null;
+      await store.finishDelivery(delivery);
+      return;
+    }
+
+    if (
+      isRetryable(status) &&
+      delivery.attempts.length < WEBHOOK_MAX_ATTEMPTS
+    ) {
+      const backoff = Math.min(
+        WEBHOOK_BACKOFF_MS * 2 ** (delivery.attempts.length - 1),
+        WEBHOOK_BACKOFF_MAX_MS
+      );
+      delivery.nextRetryAt = new Date(Date.now() + backoff).toISOString();
+      setTimeout(() => {
+        attempt(sub, delivery).catch((e: any) =>
+          console.error("webhook delivery error:", e?.message || e)
+        );
+      }, backoff);
+      return;
+    }
+
+    delivery.status = "failed";
+    delivery.nextRetryAt = null;
+    await store.finishDelivery(delivery);
+  }
+
+  /** Maakt een delivery aan en start de eerste poging (niet blokkerend). */
+  function dispatch(
+    sub: WebhookSubscription,
+    event: string,
+    data: any
+  ): WebhookDelivery {
+    const id = crypto.randomUUID();
+    const delivery: WebhookDelivery = {
+      id,
+      subscriptionId: sub.id,
+      event,
+      payload: {
+        id,
+        subscriptionId: sub.id,
+        event,
+        condition: sub.condition,
+        occurredAt: new Date().toISOString(),
+        data,
+      },
+      status: "pending",
+      attempts: [],
+      createdAt: new Date().toISOString(),
+      nextRetryAt: null,
+    };
+    store.addDelivery(delivery);
+    attempt(sub, delivery).catch((e: any) =>
+      console.error("webhook delivery error:", e?.message || e)
+    );
+    return delivery;
+  }
+
+  return { dispatch };
+}
+
+export type WebhookDispatcher = ReturnType<typeof createWebhookDispatcher>;
+
+// -----------------------------------------------------------------------------
+// Condities evalueren
+// -----------------------------------------------------------------------------
+
+/** Bronnen voor de evaluator; de server vult ze met de bestaande logica. */
+export interface WebhookObservers {
+  liquidityUsd(mint: string, dexes?: string[]): Promise<number>;
+  // % van de supply per owner (grootste holders)
+  holderPcts(mint: string): Promise<Record<string, number>>;
+  authorities(
+    mint: string
+  ): Promise<{ mintAuthority: string | null; freezeAuthority: string | null }>;
+  // ui amount; zonder mint de SOL balance
+  walletBalance(address: string, mint?: string): Promise<number>;
+}
+
+type Evaluation = {
+  state: any;
+  event: { name: string; data: any } | null;
+};
+
+function lowestPct(pcts: Record<string, number>): number {
+  const values = Object.values(pcts);
+  return values.length > 0 ? Math.min(...values) : 0;
+}
+
+/**
+ * Vergelijkt de nieuwe waarneming met de vorige toestand. De eerste
+ * evaluatie legt alleen de toestand vast (behalve liquidity-below, die
+ * meteen afgaat als de liquiditeit al onder de drempel zit).
+ */
+export async function evaluateCondition(
+  condition: WebhookCondition,
+  prev: any,
+  observers: WebhookObservers
+): Promise<Evaluation> {
+  switch (condition.type) {
+    case "liquidity-below": {
+      const liquidityUsd = await observers.liquidityUsd(
+        condition.mint,
+        condition.dexes
+      );
+      const below = liquidityUsd < condition.thresholdUsd;
+      // alleen bij het onder de drempel zakken, niet elke tick opnieuw
+      const fire = below && prev?.below !== true;
+      return {
+        state: { below, liquidityUsd },
+        event: fire
+          ? {
+              name: "liquidity.below",
+              data: {
+                mint: condition.mint,
+                liquidityUsd,
+                thresholdUsd: condition.thresholdUsd,
+                previousLiquidityUsd: prev?.liquidityUsd ?? null,
+              },
+            }
+          : null,
+      };
+    }
+
+    case "whale-move": {
+      const pcts = await observers.holderPcts(condition.mint);
+      if (!prev?.pcts) return { state: { pcts }, event: null };
+
+      // wie uit de toplijst valt (of erin komt) zit hooguit op het laagste
+      // percentage van die lijst: deltaPct is dan een ondergrens
+      const prevFloor = lowestPct(prev.pcts);
+      const floor = lowestPct(pcts);
+      const owners = new Set([...Object.keys(prev.pcts), ...Object.keys(pcts)]);
+      const movers = Array.from(owners)
+        .map((owner) => {
+          const before: number | undefined = prev.pcts[owner];
+          const after: number | undefined = pcts[owner];
+          if (before === undefined) {
+            return {
+              owner,
+              status: "entered-top-list",
+              beforePct: null,
+              afterPct: after,
+              deltaPct: Math.max(0, after - prevFloor),
+            };
+          }
+          if (after === undefined) {
+            return {
+              owner,
+              status: "left-top-list",
+              beforePct: before,
+              afterPct: null,
+              deltaPct: Math.min(0, floor - before),
+            };
+          }
+          return {
+            owner,
+            status: "moved",
+            beforePct: before,
+            afterPct: after,
+            deltaPct: after - before,
+          };
+        })
+        .filter((m) => Math.abs(m.deltaPct) >= condition.minPctOfSupply)
+        .sort((a, b) => Math.abs(b.deltaPct) - Math.abs(a.deltaPct));
+
+      return {
+        state: { pcts },
+        event:
+          movers.length > 0
+            ? { name: "whale.moved", data: { mint: condition.mint, movers } }
+            : null,
+      };
+    }
+
+    case "mint-authority-change": {
+      const auth = await observers.authorities(condition.mint);
+      const changed =
+        prev &&
+        (prev.mintAuthority !== auth.mintAuthority ||
+          prev.freezeAuthority !== auth.freezeAuthority);
+      return {
+        state: auth,
+        event: changed
+          ? {
+              name: "mint.authority_changed",
+              data: { mint: condition.mint, before: prev, after: auth },
+            }
+          : null,
+      };
+    }
+
+    case "wallet-balance-change": {
+      const balance = await observers.walletBalance(
+        condition.address,
+        condition.mint
+      );
+      const delta = prev ? balance - prev.balance : 0;
+      const fire =
+        prev && delta !== 0 && Math.abs(delta) >= (condition.minDelta ?? 0);
+      return {
+        // kleine wijzigingen tellen op tot ze minDelta halen
+        state: fire || !prev ? { balance } : prev,
+        event: fire
+          ? {
+              name: "wallet.balance_changed",
+              data: {
+                address: condition.address,
+                mint: condition.mint ?? null,
+                before: prev.balance,
+                after: balance,
+                delta,
+              },
+            }
+          : null,
+      };
+    }
+  }
+}
+
+// binnen één tick dezelfde waarneming maar één keer ophalen
+function memoizeObservers(observers: WebhookObservers): WebhookObservers {
+  const memo = new Map<string, Promise<any>>();
+  const once = <T>(key: string, fn: () => Promise<T>): Promise<T> => {
+    if (!memo.has(key)) memo.set(key, fn());
+    return memo.get(key)!;
+  };
+  return {
+    liquidityUsd: (mint, dexes) =>
+      once(`liq:${mint}:${(dexes || []).join(",")}`, () =>
+        observers.liquidityUsd(mint, dexes)
+      ),
+    holderPcts: (mint) =>
+      once(`holders:${mint}`, () => observers.holderPcts(mint)),
+    authorities: (mint) =>
+      once(`auth:${mint}`, () => observers.authorities(mint)),
+    walletBalance: (address, mint) =>
+      once(`wallet:${address}:${mint ?? "SOL"}`, () =>
+        observers.walletBalance(address, mint)
+      ),
+  };
+}
+
+const EVAL_CONCURRENCY = Number(process.env.WEBHOOK_EVAL_CONCURRENCY || 4);
+
+export function createWebhookEvaluator(
+  store: WebhookStore,
+  observers: WebhookObservers,
+  dispatcher: WebhookDispatcher
+) {
+  let running = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  /** Eén ronde over alle subscriptions; overlappende rondes worden overgeslagen. */
+  async function tick(): Promise<void> {
+    if (running) return;
+    running = true;
+    try {
+      const memo = memoizeObservers(observers);
+      await mapWithConcurrency(store.list(), EVAL_CONCURRENCY, async (sub) => {
+        try {
+          const { state, event } = await evaluateCondition(
+            sub.condition,
+            sub.state,
+            memo
+          );
+          // subscription kan tijdens de evaluatie verwijderd zijn
+          if (!store.get(sub.id)) return;
+          if (event) dispatcher.dispatch(sub, event.name, event.data);
+          await store.save({
+            ...sub,
+            state,
+            lastEvaluatedAt: new Date().toISOString(),
+            lastError: null,
+          });
+        } catch (e: any) {
+          console.error(`webhook ${sub.id} evaluation error:`, e?.message || e);
+          if (!store.get(sub.id)) return;
+          await store.save({
+            ...sub,
+            lastEvaluatedAt: new Date().toISOString(),
+            lastError: e?.message || String(e),
+          });
+        }
+      });
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    tick,
+    start(intervalMs: number) {
+      if (timer) return;
+      timer = setInterval(() => {
+        tick().catch((e: any) =>
+          console.error("webhook evaluator error:", e?.message || e)
+        );
+      }, intervalMs);
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
@@ -0,0 +1,286 @@
+import fs from "fs";
+import path from "path";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { fetchParsedMint } from "./token-programs";
+import { fetchLargestHolders } from "./holders";
+import {
+  PCT_DECIMALS,
+  formatUnits,
+  pctOf,
+  pctOfScaled,
+  toUiNumber,
+} from "./amounts";
+
+// -----------------------------------------------------------------------------
+// Whale snapshots: top holders per mint over tijd, in een lokale file store
+// -----------------------------------------------------------------------------
+
+export type SnapshotHolder = {
+  owner: string;
+  amountRaw: string;
+  uiAmount: number;
+  uiAmountString: string;
+  percentageOfSupply: number;
+};
+
+export type WhaleSnapshot = {
+  mint: string;
+  takenAt: number;
+  decimals: number;
+  supplyRaw: string;
+  supply: number;
+  // per owner geaggregeerd, grootste eerst
+  holders: SnapshotHolder[];
+};
+
+export const SNAPSHOT_DIR =
+  process.env.WHALE_SNAPSHOT_DIR ||
+  path.join(__dirname, "..", "data", "whale-snapshots");
+
+// ouder dan dit aantal snapshots per mint wordt weggegooid
+const SNAPSHOT_MAX_PER_MINT = Number(process.env.WHALE_SNAPSHOT_MAX || 500);
+
+/**
+ * Eén JSONL bestand per mint, append-only. Bij meer dan
+ * WHALE_SNAPSHOT_MAX regels wordt het bestand herschreven (via een tmp
+ * bestand + rename, zodat een crash geen half bestand achterlaat).
+ */
+export function createSnapshotStore(
+  dir = SNAPSHOT_DIR,
+  maxPerMint = SNAPSHOT_MAX_PER_MINT
+) {
+  const fileFor = (mint: string) => path.join(dir, `${mint}.jsonl`);
+
+  // appends per mint na elkaar, anders kan het inkorten van de ene een
+  // net toegevoegde snapshot van de andere weggooien
+  const writing = new Map<string, Promise<void>>();
+  function queued(mint: string, fn: () => Promise<void>): Promise<void> {
+    const run = (writing.get(mint) ?? Promise.resolve()).then(fn);
+    const done = run.catch(() => {});
+    writing.set(mint, done);
+    done.then(() => {
+      if (writing.get(mint) === done) writing.delete(mint);
+    });
+    return run;
+  }
+
+  async function list(mint: string): Promise<WhaleSnapshot[]> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(fileFor(mint), "utf8");
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return [];
+      throw e;
+    }
+    return raw
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as WhaleSnapshot)
+      .sort((a, b) => a.takenAt - b.takenAt);
+  }
+
+  function append(snapshot: WhaleSnapshot): Promise<void> {
+    return queued(snapshot.mint, () => write(snapshot));
+  }
+
+  async function write(snapshot: WhaleSnapshot): Promise<void> {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const file = fileFor(snapshot.mint);
+    await fs.promises.appendFile(file, JSON.stringify(snapshot) + "\n");
+
+    const all = await list(snapshot.mint);
+    if (all.length > maxPerMint) {
+      const keep = all.slice(-maxPerMint);
+      const tmp = `${file}.tmp`;
+      await fs.promises.writeFile(
+        tmp,
+        keep.map((s) => JSON.stringify(s)).join("\n") + "\n"
+      );
+      await fs.promises.rename(tmp, file);
+    }
+  }
+
+  return { list, append };
+}
+
+export type SnapshotStore = ReturnType<typeof createSnapshotStore>;
+
+/**
+ * Neemt een snapshot van de grootste holders (getTokenLargestAccounts),
+ * samengevoegd per owner. Geeft de lookup-fout door als de mint niet
+ * bestaat.
+ */
+export async function takeWhaleSnapshot(
+  connection: Connection,
+  mintKey: PublicKey
+): Promise<
+  | { ok: true; snapshot: WhaleSnapshot }
+  | { ok: false; status: number; error: string }
+> {
+  const lookup = await fetchParsedMint(connection, mintKey);
+  if (!lookup.ok) return lookup;
+
+  const { decimals, supplyRaw, supply } = lookup.mint;
+  const largest = await fetchLargestHolders(
+    connection,
+    mintKey,
+    decimals,
+    supplyRaw
+  );
+
+  const byOwner = new Map<string, bigint>();
+  for (const h of largest.holders) {
+    byOwner.set(h.owner, (byOwner.get(h.owner) ?? 0n) + BigInt(h.amountRaw));
+  }
+
+  const holders = Array.from(byOwner.entries())
+    .filter(([, amount]) => amount > 0n)
+    .sort((a, b) => (a[1] === b[1] ? 0 : a[1] > b[1] ? -1 : 1))
+    .map(([owner, amount]) => ({
+      owner,
+      amountRaw: amount.toString(),
+      uiAmount: toUiNumber(amount, decimals),
+      uiAmountString: formatUnits(amount, decimals),
+      percentageOfSupply: pctOf(amount, supplyRaw),
+    }));
+
+  return {
+    ok: true,
+    snapshot: {
+      mint: mintKey.toBase58(),
+      takenAt: Date.now(),
+      decimals,
+      supplyRaw,
+      supply,
+      holders,
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Verschil tussen twee snapshots
+// -----------------------------------------------------------------------------
+
+export type HolderChangeStatus =
+  "new-whale" | "exited-whale" | "increased" | "decreased" | "unchanged";
+
+export type HolderChange = {
+  owner: string;
+  status: HolderChangeStatus;
+  // null = owner stond niet in de top lijst van die snapshot
+  before: { amountRaw: string; percentageOfSupply: number } | null;
+  after: { amountRaw: string; percentageOfSupply: number } | null;
+  deltaRaw: string;
+  deltaUi: number;
+  deltaUiString: string;
+  pctOfSupplyChange: number;
+};
+
+export type SnapshotDiff = {
+  from: { takenAt: string; holders: number };
+  to: { takenAt: string; holders: number };
+  minPct: number;
+  newWhales: string[];
+  exitedWhales: string[];
+  changes: HolderChange[];
+};
+
+/**
+ * Vergelijkt twee snapshots per owner. Een whale is een owner met minstens
+ * `minPct` van de supply. Owners die uit de top lijst vallen tellen als 0;
+ * snapshots bevatten alleen de grootste accounts, dus dat is een ondergrens.
+ */
+export function diffSnapshots(
+  from: WhaleSnapshot,
+  to: WhaleSnapshot,
+  minPct: number
+): SnapshotDiff {
+  const before = new Map(from.holders.map((h) => [h.owner, h]));
+  const after = new Map(to.holders.map((h) => [h.owner, h]));
+  const owners = Array.from(new Set([...before.keys(), ...after.keys()]));
+
+  const isWhale = (h: SnapshotHolder | undefined) =>
+    !!h && h.percentageOfSupply >= minPct;
+
+  const changes: HolderChange[] = owners.map((owner) => {
+    const b = before.get(owner);
+    const a = after.get(owner);
+    const delta = BigInt(a?.amountRaw ?? "0") - BigInt(b?.amountRaw ?? "0");
+
+    let status: HolderChangeStatus;
+    if (!isWhale(b) && isWhale(a)) status = "new-whale";
+    else if (isWhale(b) && !isWhale(a)) status = "exited-whale";
+    else if (delta > 0n) status = "increased";
+    else if (delta < 0n) status = "decreased";
+    else status = "unchanged";
+
+    return {
+      owner,
+      status,
+      before: b
+        ? { amountRaw: b.amountRaw, percentageOfSupply: b.percentageOfSupply }
+        : null,
+      after: a
+        ? { amountRaw: a.amountRaw, percentageOfSupply: a.percentageOfSupply }
+        : null,
+      deltaRaw: delta.toString(),
+      deltaUi: toUiNumber(delta, to.decimals),
+      deltaUiString: formatUnits(delta, to.decimals),
+      pctOfSupplyChange: toUiNumber(
+        pctOfScaled(a?.amountRaw ?? "0", to.supplyRaw) -
+          pctOfScaled(b?.amountRaw ?? "0", from.supplyRaw),
+        PCT_DECIMALS
+      ),
+    };
+  });
+
+  // grootste bewegingen eerst
+  changes.sort(
+    (x, y) => Math.abs(y.pctOfSupplyChange) - Math.abs(x.pctOfSupplyChange)
+  );
+
+  return {
+    from: {
+      takenAt: new Date(from.takenAt).toISOString(),
+      holders: from.holders.length,
+    },
+    to: {
+      takenAt: new Date(to.takenAt).toISOString(),
+      holders: to.holders.length,
+    },
+    minPct,
+    newWhales: changes
+      .filter((c) => c.status === "new-whale")
+      .map((c) => c.owner),
+    exitedWhales: changes
+      .filter((c) => c.status === "exited-whale")
+      .map((c) => c.owner),
+    changes,
+  };
+}
+
+/**
+ * Kiest de basis-snapshot voor `since`: de laatste van vóór of op dat
+ * moment, anders de eerste daarna.
+ */
+export function snapshotAtOrBefore(
+  snapshots: WhaleSnapshot[],
+  since: number
+): WhaleSnapshot | null {
+  let base: WhaleSnapshot | null = null;
+  for (const s of snapshots) {
+    if (s.takenAt <= since) base = s;
+  }
+  return base ?? snapshots.find((s) => s.takenAt > since) ?? null;
+}
+
+/** Accepteert een ISO datum, unix seconden of unix milliseconden. */
+export function parseTimestamp(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    const n = Number(value);
+    // alles onder ~2001 in ms is waarschijnlijk in seconden bedoeld
+    return n < 1e12 ? n * 1000 : n;
+  }
+  const t = Date.parse(value);
+  return isNaN(t) ? null : t;
+}
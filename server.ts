@@ -1,15 +1,157 @@
 import dotenv from "dotenv";
 dotenv.config();
 
-import express, { Request, Response } from "express";
+import crypto from "crypto";
+import express, { NextFunction, Request, Response } from "express";
 import cors from "cors";
+import { Commitment, Connection, PublicKey } from "@solana/web3.js";
 import {
-  Connection,
-  PublicKey,
-  LAMPORTS_PER_SOL,
-  ParsedAccountData,
-} from "@solana/web3.js";
-import fetch from "node-fetch";
+  ParsedMint,
+  fetchParsedMint,
+  fetchTokenAccountsByOwner,
+  assessExtensionRisk,
+} from "./lib/token-programs";
+import {
+  resolveMetadataBatch,
+  metadataFromTokenExtensions,
+  TokenMetadata,
+} from "./lib/metadata";
+import {
+  DexPair,
+  MarketDataResult,
+  WSOL_MINT,
+  createMarketDataProviders,
+  fetchPairsForMintsWithFallback,
+  fetchPairsWithFallback,
+  fetchPoolReservesForMint,
+  fetchPoolReservesForPair,
+  marketDataConfigFromEnv,
+  poolReservesFromJson,
+  poolReservesToJson,
+} from "./lib/market-data";
+import {
+  buildLiquidityBreakdown,
+  isTrustedDex,
+  parseDexAllowlist,
+  summarizePair,
+} from "./lib/liquidity";
+import { fetchLargestHolders } from "./lib/holders";
+import {
+  HolderScan,
+  createBackgroundJobs,
+  scanHolders,
+} from "./lib/holder-scan";
+import { fetchLpStatus } from "./lib/lp-status";
+import {
+  QUOTE_MINTS,
+  poolMintDecimals,
+  quoteRoutes,
+  sellImpact,
+} from "./lib/quote";
+import { parseUnits } from "./lib/amounts";
+import {
+  OwnerLabel,
+  classifyOwners,
+  concentrationReport,
+} from "./lib/owner-labels";
+import { assessRisk, loadRiskProfile } from "./lib/risk";
+import { WalletInfo, fetchWalletInfos } from "./lib/wallet-info";
+import {
+  TokenPrice,
+  priceFromMarketData,
+  valuateWallet,
+} from "./lib/valuation";
+import { fetchWalletHistory } from "./lib/wallet-history";
+import {
+  AuditMintInput,
+  auditTokenAccounts,
+  heldMints,
+} from "./lib/wallet-audit";
+import { fetchTokenInfos } from "./lib/token-info";
+import { fetchTokenHistory, historyReasons } from "./lib/token-history";
+import {
+  analyzeInsiders,
+  fetchLaunchBuyers,
+  insiderCandidates,
+} from "./lib/insiders";
+import {
+  PRICE_DEFAULT_CANDLES,
+  PRICE_INTERVALS,
+  PRICE_MAX_CANDLES,
+  backfillSwaps,
+  buildCandles,
+  createPriceStore,
+  samplePrice,
+} from "./lib/price-history";
+import {
+  WalletOrigin,
+  buildFundingClusters,
+  collectOrigins,
+  fetchWalletOrigins,
+  topOwners,
+} from "./lib/funding-clusters";
+import {
+  createSnapshotStore,
+  diffSnapshots,
+  snapshotAtOrBefore,
+  takeWhaleSnapshot,
+} from "./lib/whale-snapshots";
+import {
+  WebhookObservers,
+  WebhookSubscription,
+  canManageWebhook,
+  checkWebhookTarget,
+  createWebhookDispatcher,
+  createWebhookEvaluator,
+  createWebhookStore,
+  redactSubscription,
+} from "./lib/webhooks";
+import {
+  STREAM_MAX_KEYS,
+  StreamListener,
+  StreamTopic,
+  attachWebSocketStream,
+  createStreamHub,
+} from "./lib/live-stream";
+import { Cached, createCache, createCacheBackendFromEnv } from "./lib/cache";
+import { createRpcPool, loadRpcEndpoints } from "./lib/rpc-pool";
+import {
+  ApiRoute,
+  RouteInput,
+  RouteInputSource,
+  ValidationError,
+  buildOpenApiDocument,
+  docsPage,
+  matchRoute,
+  parseRequest,
+  routeCost,
+} from "./lib/openapi";
+import {
+  API_COMPONENTS,
+  API_ROUTE_LIST,
+  AdminUsageResponse,
+  CbsMetricsResponse,
+  HolderInfoResponse,
+  InsiderAnalysisResponse,
+  PriceHistoryResponse,
+  QuoteResponse,
+  TokenHistoryResponse,
+  TokenSafetyCheckResponse,
+  WalletAuditResponse,
+  WalletInfoResponse,
+  WhaleTrackerResponse,
+  apiRoutes,
+} from "./lib/api-routes";
+import {
+  ANONYMOUS_LIMIT,
+  ApiClient,
+  apiKeyFrom,
+  createApiKeyRegistry,
+  createTokenBuckets,
+  createUsageMeter,
+  loadApiKeys,
+  parseCorsOrigins,
+} from "./lib/api-keys";
 
 // -----------------------------------------------------------------------------
 // RPC CONFIG (met Helius key als je die hebt)
@@ -25,137 +167,571 @@ const DEFAULT_RPC = HELIUS_KEY
 const RPC_URL = process.env.RPC_URL || DEFAULT_RPC;
 const PORT = Number(process.env.PORT || 3000);
 
-const connection = new Connection(RPC_URL, "confirmed");
+// Meerdere endpoints via RPC_ENDPOINTS (JSON), anders alleen RPC_URL
+const rpcPool = createRpcPool(loadRpcEndpoints(RPC_URL), "confirmed");
 
-const TOKEN_PROGRAM_ID = new PublicKey(
-  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
-);
+// gedeelde connection voor achtergrondwerk (snapshots, webhooks, streams)
+const connection = rpcPool.connection();
+
+type RpcContext = {
+  connection: Connection;
+  commitment: Commitment;
+  // labels van de endpoints die dit request bediend hebben
+  endpoints: Set<string>;
+};
+
+function createRpcContext(
+  commitment: Commitment = rpcPool.defaultCommitment
+): RpcContext {
+  const endpoints = new Set<string>();
+  return {
+    connection: rpcPool.connection(commitment, (label) =>
+      endpoints.add(label)
+    ),
+    commitment,
+    endpoints,
+  };
+}
+
+const backgroundRpc: RpcContext = {
+  connection,
+  commitment: rpcPool.defaultCommitment,
+  endpoints: new Set(),
+};
+
+// alleen labels naar buiten; de URL's kunnen API keys bevatten
+function rpcMeta(rpc: RpcContext) {
+  return { commitment: rpc.commitment, endpoints: Array.from(rpc.endpoints) };
+}
+
+// cache keys voor de default commitment blijven zoals ze waren
+function rpcCacheKey(rpc: RpcContext, key: string): string {
+  return rpc.commitment === rpcPool.defaultCommitment
+    ? key
+    : `${key}@${rpc.commitment}`;
+}
 
 // -----------------------------------------------------------------------------
 // EXPRESS APP
 // -----------------------------------------------------------------------------
 
 const app = express();
-app.use(cors());
+
+// achter een proxy (Render, nginx): aantal hops, zodat req.ip klopt
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", Number(process.env.TRUST_PROXY) || 1);
+}
+
+// CORS_ORIGINS=https://app.example.com,https://other.example; leeg = alle
+const CORS_ORIGINS = parseCorsOrigins(process.env.CORS_ORIGINS);
+
+app.use(
+  cors({
+    origin: CORS_ORIGINS ?? "*",
+    allowedHeaders: ["Content-Type", "Authorization", "X-API-Key"],
+    exposedHeaders: [
+      "X-RateLimit-Limit",
+      "X-RateLimit-Remaining",
+      "X-RateLimit-Reset",
+      "X-RateLimit-Cost",
+      "Retry-After",
+    ],
+  })
+);
+
+// -----------------------------------------------------------------------------
+// API keys + rate limits (token bucket per key, of per IP zonder key)
+// -----------------------------------------------------------------------------
+
+// required: elk /api request heeft een key nodig; optional: anoniem mag,
+// met ANON_RATE_PER_MINUTE / ANON_BURST
+const API_AUTH: "optional" | "required" =
+  process.env.API_AUTH === "required" ? "required" : "optional";
+
+const apiKeys = createApiKeyRegistry(loadApiKeys());
+const rateLimits = createTokenBuckets();
+const usageMeter = createUsageMeter();
+
+// anonieme clients tellen samen in de usage, de bucket is per IP
+const ANONYMOUS_USAGE_ID = "anonymous";
+
+type Access =
+  | { ok: true; client: ApiClient }
+  | { ok: false; status: number; error: string };
+
+function resolveClient(
+  req: {
+    headers: Record<string, string | string[] | undefined>;
+    query: Record<string, unknown>;
+  },
+  ip: string,
+  admin: boolean,
+  queryKey = false
+): Access {
+  if (!queryKey && req.query.apiKey !== undefined) {
+    return {
+      ok: false,
+      status: 400,
+      error: "apiKey is only accepted as query parameter on /api/stream",
+    };
+  }
+  const raw = apiKeyFrom(req, queryKey);
+  const key = raw ? apiKeys.lookup(raw) : null;
+  if (raw && !key) return { ok: false, status: 401, error: "Unknown API key" };
+
+  if (!key) {
+    if (API_AUTH === "required" || admin) {
+      return {
+        ok: false,
+        status: 401,
+        error: "API key required (X-API-Key header)",
+      };
+    }
+    return {
+      ok: true,
+      client: { id: `anon:${ip}`, key: null, limit: ANONYMOUS_LIMIT },
+    };
+  }
+
+  // een key voor een bepaalde site mag niet vanaf andere origins gebruikt
+  // worden; server-side clients sturen geen Origin header
+  const origin = req.headers.origin;
+  if (key.origins && typeof origin === "string") {
+    if (!key.origins.includes(origin)) {
+      return {
+        ok: false,
+        status: 403,
+        error: "Origin not allowed for this API key",
+      };
+    }
+  }
+  if (admin && !key.admin) {
+    return { ok: false, status: 403, error: "API key is not an admin key" };
+  }
+  return { ok: true, client: { id: `key:${key.id}`, key, limit: key.limit } };
+}
+
+// trekt de kosten van de route af en zet de X-RateLimit-* headers
+function chargeClient(
+  client: ApiClient,
+  routeName: string,
+  cost: number,
+  setHeader: (name: string, value: string) => void
+) {
+  const result = rateLimits.take(client.id, client.limit, cost);
+  setHeader("X-RateLimit-Limit", String(result.limit));
+  setHeader("X-RateLimit-Remaining", String(result.remaining));
+  setHeader("X-RateLimit-Reset", String(result.resetSeconds));
+  setHeader("X-RateLimit-Cost", String(cost));
+  if (result.retryAfterSeconds !== null) {
+    setHeader("Retry-After", String(result.retryAfterSeconds));
+  }
+  usageMeter.record(
+    client.key ? client.id : ANONYMOUS_USAGE_ID,
+    routeName,
+    cost,
+    !result.allowed
+  );
+  return result;
+}
+
+function apiAccess(req: Request, res: Response, next: NextFunction) {
+  // /, /docs en /openapi.json blijven open
+  if (!req.path.startsWith("/api/")) return next();
+
+  const route = matchRoute(API_ROUTE_LIST, req.method, req.path);
+  const access = resolveClient(
+    req,
+    req.ip || "unknown",
+    !!route?.admin,
+    route === apiRoutes.stream
+  );
+  if (!access.ok) {
+    return res.status(access.status).json({ error: access.error });
+  }
+
+  const cost = routeCost(route, req);
+  const routeName = route
+    ? `${route.method.toUpperCase()} ${route.path}`
+    : "other";
+  const limit = chargeClient(access.client, routeName, cost, (name, value) =>
+    res.setHeader(name, value)
+  );
+  if (!limit.allowed) {
+    return res.status(429).json({
+      error: "Rate limit exceeded",
+      cost,
+      limit: limit.limit,
+      retryAfterSeconds: limit.retryAfterSeconds,
+    });
+  }
+
+  res.locals.client = access.client;
+  next();
+}
+
 app.use(express.json());
+app.use(apiAccess);
 
 // root: simpele status
 app.get("/", (_req: Request, res: Response) => {
   res.json({
     name: "solana-tools-api",
     status: "ok",
-    rpcUrl: RPC_URL,
+    rpc: {
+      endpoints: rpcPool.labels(),
+      defaultCommitment: rpcPool.defaultCommitment,
+    },
+    // params + responses staan in de OpenAPI spec
+    docs: "/docs",
+    openapi: "/openapi.json",
     endpoints: [
-      "/api/wallet-info?address=...",
-      "/api/token-info?mint=...",
-      "/api/cbs-metrics?mint=...",
-      "/api/holder-info?mint=...",
-      "/api/token-safety-check?mint=...",
-      "/api/whale-tracker?mint=...&minPct=1&limit=20",
+      ...API_ROUTE_LIST.map((r) => `${r.method.toUpperCase()} ${r.path}`),
+      "WS /api/stream/ws",
     ],
   });
 });
 
 // -----------------------------------------------------------------------------
-// HELPER: DexScreener fetch
+// /openapi.json + /docs  -> spec uit de route schemas (lib/api-routes.ts)
 // -----------------------------------------------------------------------------
 
-type DexPair = {
-  chainId: string;
-  dexId: string;
-  url: string;
-  pairAddress: string;
-  baseToken: { address: string; symbol: string; name: string };
-  quoteToken: { address: string; symbol: string; name: string };
-  priceUsd?: string;
-  liquidity?: { usd?: number; base?: number; quote?: number };
-  volume?: { h24?: number; h6?: number; h1?: number };
-  fdv?: number;
-  marketCap?: number;
-  [key: string]: any;
-};
+const openApiDocument = buildOpenApiDocument({
+  title: "solana-tools-api",
+  version: "1.0.0",
+  description:
+    "Solana wallet, token, holder and market data tools. Every RPC endpoint accepts commitment=processed|confirmed|finalized; fresh=1 skips the cache.",
+  routes: API_ROUTE_LIST,
+  components: API_COMPONENTS,
+});
 
-async function fetchDexPairsForMint(mint: string): Promise<DexPair[]> {
-  const url = `https://api.dexscreener.com/latest/dex/tokens/${mint}`;
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`DexScreener error ${res.status} for ${mint}`);
+app.get("/openapi.json", (_req: Request, res: Response) => {
+  res.json(openApiDocument);
+});
+
+app.get("/docs", (_req: Request, res: Response) => {
+  res.type("html").send(docsPage("solana-tools-api docs", "/openapi.json"));
+});
+
+// -----------------------------------------------------------------------------
+// HELPER: request validatie (uniforme 400 met het veld dat niet klopt)
+// -----------------------------------------------------------------------------
+
+function badRequest(
+  res: Response,
+  field: string,
+  where: RouteInputSource,
+  error: string
+) {
+  const body: ValidationError = { error, field, in: where };
+  return res.status(400).json(body);
+}
+
+// geparste query / body / params, of null als er al een 400 is gestuurd
+function validate<R extends ApiRoute>(
+  route: R,
+  req: Request,
+  res: Response
+): RouteInput<R> | null {
+  const parsed = parseRequest(route, req);
+  if (!parsed.ok) {
+    badRequest(res, parsed.field, parsed.in, parsed.error);
+    return null;
   }
-  const data: any = await res.json();
-  const pairs: DexPair[] = Array.isArray(data.pairs) ? data.pairs : [];
-  return pairs;
+  return parsed.input;
 }
 
 // -----------------------------------------------------------------------------
-// /api/wallet-info  -> SOL + SPL balances
+// HELPER: market data (DexScreener, on-chain reserves of fixtures)
 // -----------------------------------------------------------------------------
 
-app.get("/api/wallet-info", async (req: Request, res: Response) => {
-  const address = (req.query.address as string | undefined)?.trim();
+// Volgorde via MARKET_DATA_PROVIDERS, bv. "dexscreener,onchain"
+const marketDataProviders = createMarketDataProviders(
+  marketDataConfigFromEnv(),
+  connection
+);
 
-  if (!address) {
-    return res.status(400).json({ error: "Missing address query param" });
-  }
+async function fetchDexPairsForMint(mint: string): Promise<MarketDataResult> {
+  return fetchPairsWithFallback(marketDataProviders, mint);
+}
 
-  let pubkey: PublicKey;
-  try {
-    pubkey = new PublicKey(address);
-  } catch {
-    return res.status(400).json({ error: "Invalid Solana address" });
+function marketDataAttribution(result: MarketDataResult) {
+  return { source: result.source, attempts: result.attempts };
+}
+
+// -----------------------------------------------------------------------------
+// HELPER: cache (TTL per datatype, fresh=1 slaat de cache over)
+// -----------------------------------------------------------------------------
+
+const responseCache = createCache(createCacheBackendFromEnv());
+
+function cachedMint(rpc: RpcContext, mintKey: PublicKey, fresh: boolean) {
+  return responseCache.wrap(
+    "mint",
+    rpcCacheKey(rpc, mintKey.toBase58()),
+    () => fetchParsedMint(rpc.connection, mintKey),
+    { fresh }
+  );
+}
+
+function cachedLargestHolders(
+  rpc: RpcContext,
+  mintKey: PublicKey,
+  decimals: number,
+  supplyRaw: string,
+  fresh: boolean
+) {
+  return responseCache.wrap(
+    "largest",
+    rpcCacheKey(rpc, mintKey.toBase58()),
+    () => fetchLargestHolders(rpc.connection, mintKey, decimals, supplyRaw),
+    { fresh }
+  );
+}
+
+function cachedTokenHistory(
+  rpc: RpcContext,
+  mint: string,
+  decimals: number,
+  fresh: boolean
+) {
+  return responseCache.wrap(
+    "history",
+    rpcCacheKey(rpc, mint),
+    () => fetchTokenHistory(rpc.connection, mint, decimals),
+    { fresh }
+  );
+}
+
+// reserves als strings in de cache, bigints pas bij het uitlezen
+async function cachedPoolReserves(
+  rpc: RpcContext,
+  mint: string,
+  fresh: boolean
+) {
+  const cached = await responseCache.wrap(
+    "pools",
+    rpcCacheKey(rpc, mint),
+    async () =>
+      (await fetchPoolReservesForMint(rpc.connection, mint)).map(
+        poolReservesToJson
+      ),
+    { fresh }
+  );
+  return { ...cached, value: cached.value.map(poolReservesFromJson) };
+}
+
+function cachedDexPairs(mint: string, fresh: boolean) {
+  return responseCache.wrap("pairs", mint, () => fetchDexPairsForMint(mint), {
+    fresh,
+  });
+}
+
+function cachedDexPairsMany(mints: string[], fresh: boolean) {
+  return responseCache.wrapMany(
+    "pairs",
+    mints,
+    (keys) => fetchPairsForMintsWithFallback(marketDataProviders, keys),
+    { fresh }
+  );
+}
+
+// prijzen voor SOL + alle mints van de wallets, in één batch
+async function priceWallets(wallets: WalletInfo[], fresh: boolean) {
+  const mints = Array.from(
+    new Set([WSOL_MINT, ...wallets.flatMap((w) => w.tokens.map((t) => t.mint))])
+  );
+  const pairs = await cachedDexPairsMany(mints, fresh);
+
+  const prices = new Map<string, TokenPrice>();
+  for (const mint of mints) {
+    prices.set(mint, priceFromMarketData(mint, pairs.get(mint)?.value));
   }
+  return { prices, cache: responseCache.meta(Array.from(pairs.values())) };
+}
 
-  try {
-    const lamports = await connection.getBalance(pubkey, "confirmed");
-    const sol = lamports / LAMPORTS_PER_SOL;
+// Labels per owner veranderen zelden, die cachen we per owner
+function cachedOwnerLabels(rpc: RpcContext, owners: string[], fresh: boolean) {
+  return responseCache.wrapMany(
+    "owners",
+    owners,
+    (keys) => classifyOwners(rpc.connection, keys),
+    { fresh }
+  );
+}
 
-    const tokenAccounts = await connection.getParsedTokenAccountsByOwner(
-      pubkey,
-      { programId: TOKEN_PROGRAM_ID },
-      "confirmed"
-    );
+// zonder labels (RPC fout) krijgt elke holder label null en valt de
+// concentratie zonder infra terug op de ruwe cijfers
+async function labelHolders<T extends { owner: string }>(
+  rpc: RpcContext,
+  holders: T[],
+  fresh: boolean
+): Promise<(T & { label: OwnerLabel | null })[]> {
+  const labels = await cachedOwnerLabels(
+    rpc,
+    holders.map((h) => h.owner),
+    fresh
+  ).catch((e: any) => {
+    console.error("owner labels error:", e?.message || e);
+    return null;
+  });
+  return holders.map((h) => ({
+    ...h,
+    label: labels?.get(h.owner)?.value ?? null,
+  }));
+}
 
-    const tokens = tokenAccounts.value
-      .map((ta) => {
-        const info = ta.account.data as ParsedAccountData;
-        if (info.program !== "spl-token" || info.parsed.type !== "account") {
-          return null;
-        }
+// eerste funding van een wallet hangt niet van de mint af, dus per adres
+function cachedWalletOrigins(
+  rpc: RpcContext,
+  wallets: string[],
+  fresh: boolean
+) {
+  return responseCache.wrapMany(
+    "funding",
+    wallets,
+    (keys) => fetchWalletOrigins(rpc.connection, keys),
+    { fresh }
+  );
+}
 
-        const parsed: any = info.parsed.info;
-        const mintStr: string = parsed.mint;
-        const tokenAmount = parsed.tokenAmount;
+// funding clusters over de grootste holders zonder infrastructuur
+async function holderClusters(
+  rpc: RpcContext,
+  mint: string,
+  decimals: number,
+  supplyRaw: string,
+  holders: { owner: string; amountRaw: string; label: OwnerLabel | null }[],
+  count: number,
+  depth: number,
+  fresh: boolean
+) {
+  const top = topOwners(
+    holders.filter((h) => !h.label?.infrastructure),
+    count
+  );
+  const cached: Cached<WalletOrigin>[] = [];
+  const { origins, truncated } = await collectOrigins(
+    top.map((h) => h.owner),
+    mint,
+    depth,
+    async (wallets) => {
+      const batch = await cachedWalletOrigins(rpc, wallets, fresh);
+      const values = new Map<string, WalletOrigin>();
+      for (const [wallet, entry] of Array.from(batch.entries())) {
+        values.set(wallet, entry.value);
+        cached.push(entry);
+      }
+      return values;
+    }
+  );
 
-        const decimals: number = tokenAmount.decimals;
-        const amountRaw: string = tokenAmount.amount;
+  // exchanges en DEX'en als funder of afzender verbinden niets
+  const linked = Array.from(origins.values()).flatMap((o) => [
+    ...(o.funder ? [o.funder] : []),
+    ...o.tokenSources.map((t) => t.from),
+  ]);
+  const labeled = await labelHolders(
+    rpc,
+    Array.from(new Set(linked), (owner) => ({ owner })),
+    fresh
+  );
+  const ignored = new Set(
+    labeled.filter((l) => l.label?.infrastructure).map((l) => l.owner)
+  );
 
-        let uiAmount = 0;
-        try {
-          uiAmount = Number(amountRaw) / Math.pow(10, decimals);
-        } catch {
-          uiAmount = 0;
-        }
+  return {
+    report: buildFundingClusters(
+      top,
+      mint,
+      decimals,
+      supplyRaw,
+      depth,
+      origins,
+      ignored,
+      truncated
+    ),
+    cached,
+  };
+}
 
-        if (!uiAmount || uiAmount === 0) return null;
+// Volledige holder scans draaien als job; een request wacht max
+// HOLDER_SCAN_WAIT_MS en krijgt anders een 202 om later terug te komen
+const HOLDER_SCAN_WAIT_MS = Number(process.env.HOLDER_SCAN_WAIT_MS || 8000);
+const holderScanJobs = createBackgroundJobs<Cached<HolderScan>>();
+
+function cachedHolderScan(
+  rpc: RpcContext,
+  mintKey: PublicKey,
+  mint: ParsedMint,
+  fresh: boolean
+) {
+  const key = rpcCacheKey(rpc, mintKey.toBase58());
+  return holderScanJobs.run(
+    key,
+    () =>
+      responseCache.wrap(
+        "holders",
+        key,
+        () =>
+          scanHolders(
+            rpc.connection,
+            mintKey,
+            mint.program,
+            mint.decimals,
+            mint.supplyRaw
+          ),
+        { fresh }
+      ),
+    HOLDER_SCAN_WAIT_MS
+  );
+}
 
-        return {
-          mint: mintStr,
-          tokenAccount: ta.pubkey.toBase58(),
-          amountRaw,
-          uiAmount,
-          decimals,
-          isNative: false,
-        };
-      })
-      .filter((t) => t !== null)
-      .sort((a: any, b: any) => (b.uiAmount || 0) - (a.uiAmount || 0));
+// -----------------------------------------------------------------------------
+// /api/wallet-info  -> SOL + SPL balances
+// -----------------------------------------------------------------------------
+
+app.get(apiRoutes.walletInfo.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.walletInfo, req, res);
+  if (!input) return;
+  const { address, offchain, valuate, minLiquidityUsd } = input.query;
+  const rpc = createRpcContext(input.query.commitment);
+
+  try {
+    const [item] = await fetchWalletInfos(rpc.connection, [address], {
+      offChain: offchain,
+    });
+    if (!item.ok) {
+      return res.status(item.status).json({ error: item.error, address });
+    }
+
+    const { lamports, sol, tokens } = item.result;
+
+    if (!valuate) {
+      return res.json({
+        address,
+        rpc: rpcMeta(rpc),
+        lamports,
+        sol,
+        tokens,
+      } satisfies WalletInfoResponse);
+    }
+
+    const { prices, cache } = await priceWallets(
+      [item.result],
+      input.query.fresh
+    );
+    const valued = valuateWallet(item.result, prices, minLiquidityUsd);
 
     return res.json({
       address,
-      rpcUrl: RPC_URL,
+      rpc: rpcMeta(rpc),
+      cache,
       lamports,
       sol,
-      tokens,
-    });
+      valuation: valued.valuation,
+      tokens: valued.tokens,
+    } satisfies WalletInfoResponse);
   } catch (e: any) {
     console.error("wallet-info error:", e);
     return res.status(500).json({
@@ -166,127 +742,287 @@ app.get("/api/wallet-info", async (req: Request, res: Response) => {
 });
 
 // -----------------------------------------------------------------------------
-// /api/token-info  -> mint metadata / supply / authorities
+// /api/wallet-history  -> transacties met SOL/SPL deltas + classificatie
 // -----------------------------------------------------------------------------
 
-app.get("/api/token-info", async (req: Request, res: Response) => {
-  const mint = (req.query.mint as string | undefined)?.trim();
+app.get(apiRoutes.walletHistory.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.walletHistory, req, res);
+  if (!input) return;
+  const { address, before, limit } = input.query;
+  const rpc = createRpcContext(input.query.commitment);
+
+  try {
+    const page = await fetchWalletHistory(rpc.connection, address, {
+      before,
+      limit,
+    });
 
-  if (!mint) {
-    return res.status(400).json({ error: "Missing mint query param" });
+    return res.json({
+      address,
+      rpc: rpcMeta(rpc),
+      before: before ?? null,
+      limit,
+      count: page.transactions.length,
+      nextCursor: page.nextCursor,
+      transactions: page.transactions,
+    });
+  } catch (e: any) {
+    console.error("wallet-history error:", e);
+    return res.status(500).json({
+      error: "Failed to fetch wallet history",
+      message: e?.message || String(e),
+    });
   }
+});
+
+// -----------------------------------------------------------------------------
+// /api/wallet-audit  -> approvals, frozen / lege accounts, scam airdrops
+// -----------------------------------------------------------------------------
+
+app.get(apiRoutes.walletAudit.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.walletAudit, req, res);
+  if (!input) return;
+  const { address, minLiquidityUsd, fresh } = input.query;
+  const rpc = createRpcContext(input.query.commitment);
 
-  let mintKey: PublicKey;
   try {
-    mintKey = new PublicKey(mint);
-  } catch {
-    return res.status(400).json({ error: "Invalid mint address" });
+    const accounts = await fetchTokenAccountsByOwner(
+      rpc.connection,
+      new PublicKey(address)
+    );
+
+    // mint info + liquiditeit voor de scam check, alleen voor mints met saldo
+    const mints = heldMints(accounts);
+    const [infos, pairs] = await Promise.all([
+      fetchTokenInfos(rpc.connection, mints),
+      cachedDexPairsMany(mints, fresh),
+    ]);
+    const mintInputs = new Map<string, AuditMintInput>();
+    for (const item of infos) {
+      mintInputs.set(item.key, {
+        info: item.ok ? item.result : null,
+        liquidityUsd: priceFromMarketData(item.key, pairs.get(item.key)?.value)
+          .liquidityUsd,
+      });
+    }
+
+    const audit = auditTokenAccounts(
+      address,
+      accounts,
+      mintInputs,
+      minLiquidityUsd
+    );
+
+    // labels maken zichtbaar of een delegate een bekend programma is
+    const approvals = await labelHolders(
+      rpc,
+      audit.approvals.map((a) => ({ ...a, owner: a.delegate })),
+      fresh
+    );
+
+    return res.json({
+      address,
+      rpc: rpcMeta(rpc),
+      cache: responseCache.meta(Array.from(pairs.values())),
+      ...audit,
+      approvals: approvals.map(({ owner, ...a }) => a),
+      summary: {
+        delegates: audit.approvals.length,
+        approvedAccounts: audit.approvals.reduce(
+          (acc, a) => acc + a.accounts.length,
+          0
+        ),
+        frozen: audit.frozen.length,
+        closeable: audit.closeable.accounts.length,
+        reclaimableSol: audit.closeable.reclaimableSol,
+        suspicious: audit.suspicious.length,
+      },
+    } satisfies WalletAuditResponse);
+  } catch (e: any) {
+    console.error("wallet-audit error:", e);
+    return res.status(500).json({
+      error: "Failed to audit wallet",
+      message: e?.message || String(e),
+    });
   }
+});
+
+// -----------------------------------------------------------------------------
+// /api/token-info  -> mint metadata / supply / authorities / naam + symbool
+// -----------------------------------------------------------------------------
+
+app.get(apiRoutes.tokenInfo.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.tokenInfo, req, res);
+  if (!input) return;
+  const { mint, offchain } = input.query;
+  const rpc = createRpcContext(input.query.commitment);
 
   try {
-    const parsed = await connection.getParsedAccountInfo(mintKey, "confirmed");
-    if (!parsed.value) {
-      return res.status(404).json({
-        error: "Mint account not found",
-        mint,
-      });
+    const [item] = await fetchTokenInfos(rpc.connection, [mint], {
+      offChain: offchain,
+    });
+    if (!item.ok) {
+      return res.status(item.status).json({ error: item.error, mint });
     }
 
-    const data = parsed.value.data as ParsedAccountData;
-    if (data.program !== "spl-token" || data.parsed.type !== "mint") {
-      return res.status(400).json({
-        error: "Account is not an SPL mint",
-        mint,
+    return res.json({
+      ...item.result,
+      rpc: rpcMeta(rpc),
+    });
+  } catch (e: any) {
+    console.error("token-info error:", e);
+    return res.status(500).json({
+      error: "Failed to fetch token info",
+      message: e?.message || String(e),
+    });
+  }
+});
+
+// -----------------------------------------------------------------------------
+// /api/batch/*  -> POST varianten voor meerdere wallets / mints tegelijk
+// -----------------------------------------------------------------------------
+
+app.post(apiRoutes.batchWalletInfo.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.batchWalletInfo, req, res);
+  if (!input) return;
+  const { addresses, offchain, valuate, minLiquidityUsd } = input.body;
+  const rpc = createRpcContext(input.body.commitment);
+
+  try {
+    let results = await fetchWalletInfos(rpc.connection, addresses, {
+      offChain: offchain,
+    });
+
+    if (valuate) {
+      const wallets = results.flatMap((r) => (r.ok ? [r.result] : []));
+      const { prices } = await priceWallets(wallets, false);
+      results = results.map((r) => {
+        if (!r.ok) return r;
+        const valued = valuateWallet(r.result, prices, minLiquidityUsd);
+        return { ...r, result: { ...r.result, ...valued } };
       });
     }
 
-    const info: any = data.parsed.info;
-    const decimals: number = info.decimals;
-    const supplyRaw: string = info.supply;
-    const supply =
-      decimals >= 0
-        ? Number(supplyRaw) / Math.pow(10, decimals)
-        : Number(supplyRaw);
-    const mintAuthority = info.mintAuthority ?? null;
-    const freezeAuthority = info.freezeAuthority ?? null;
-    const isInitialized = !!info.isInitialized;
+    return res.json({
+      rpc: rpcMeta(rpc),
+      count: results.length,
+      results,
+    });
+  } catch (e: any) {
+    console.error("batch wallet-info error:", e);
+    return res.status(500).json({
+      error: "Failed to fetch wallet info batch",
+      message: e?.message || String(e),
+    });
+  }
+});
+
+app.post(apiRoutes.batchTokenInfo.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.batchTokenInfo, req, res);
+  if (!input) return;
+  const { mints, offchain } = input.body;
+  const rpc = createRpcContext(input.body.commitment);
 
+  try {
+    const results = await fetchTokenInfos(rpc.connection, mints, {
+      offChain: offchain,
+    });
     return res.json({
-      mint,
-      rpcUrl: RPC_URL,
-      decimals,
-      supplyRaw,
-      supply,
-      mintAuthority,
-      freezeAuthority,
-      isInitialized,
+      rpc: rpcMeta(rpc),
+      count: results.length,
+      results,
     });
   } catch (e: any) {
-    console.error("token-info error:", e);
+    console.error("batch token-info error:", e);
     return res.status(500).json({
-      error: "Failed to fetch token info",
+      error: "Failed to fetch token info batch",
       message: e?.message || String(e),
     });
   }
 });
 
 // -----------------------------------------------------------------------------
-// /api/cbs-metrics  -> DexScreener pools & liquidity
+// /api/token-history  -> creatie, MintTo / Burn, SetAuthority, eerste pool
 // -----------------------------------------------------------------------------
 
-app.get("/api/cbs-metrics", async (req: Request, res: Response) => {
-  const mint = (req.query.mint as string | undefined)?.trim();
+app.get(apiRoutes.tokenHistory.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.tokenHistory, req, res);
+  if (!input) return;
+  const { mint, fresh } = input.query;
+  const rpc = createRpcContext(input.query.commitment);
 
-  if (!mint) {
-    return res.status(400).json({ error: "Missing mint query param" });
+  try {
+    const cachedLookup = await cachedMint(rpc, new PublicKey(mint), fresh);
+    const lookup = cachedLookup.value;
+    if (!lookup.ok) {
+      return res.status(lookup.status).json({ error: lookup.error, mint });
+    }
+
+    const { decimals } = lookup.mint;
+    const cachedHistory = await cachedTokenHistory(rpc, mint, decimals, fresh);
+    const history = cachedHistory.value;
+
+    return res.json({
+      mint,
+      rpc: rpcMeta(rpc),
+      cache: responseCache.meta([cachedLookup, cachedHistory]),
+      decimals,
+      ...history,
+      reasons: historyReasons(history),
+    } satisfies TokenHistoryResponse);
+  } catch (e: any) {
+    console.error("token-history error:", e);
+    return res.status(500).json({
+      error: "Failed to fetch token history",
+      message: e?.message || String(e),
+    });
   }
+});
+
+// -----------------------------------------------------------------------------
+// /api/cbs-metrics  -> DEX pools & liquidity (via market data providers)
+// -----------------------------------------------------------------------------
+
+app.get(apiRoutes.cbsMetrics.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.cbsMetrics, req, res);
+  if (!input) return;
+  const { mint, fresh } = input.query;
+  const trustedDexes = parseDexAllowlist(input.query.dexes?.join(","));
+  const rpc = createRpcContext(input.query.commitment);
 
   try {
-    const pairs = await fetchDexPairsForMint(mint);
+    const cachedPairs = await cachedDexPairs(mint, fresh);
+    const marketData = cachedPairs.value;
+    const pairs = marketData.pairs;
 
     const raydiumPairs = pairs.filter(
       (p) => p.chainId === "solana" && p.dexId.toLowerCase() === "raydium"
     );
-
-    const summary = raydiumPairs.map((p) => ({
-      chainId: p.chainId,
-      dexId: p.dexId,
-      url: p.url,
-      pairAddress: p.pairAddress,
-      baseToken: p.baseToken,
-      quoteToken: p.quoteToken,
-      priceUsd: p.priceUsd,
-      liquidityUsd: p.liquidity?.usd ?? null,
-      volume24h: p.volume?.h24 ?? null,
-      fdv: p.fdv ?? p.marketCap ?? null,
-    }));
-
-    const totalLiquidityUsd = summary.reduce(
-      (acc, p) => acc + (p.liquidityUsd || 0),
-      0
+    const trustedPairs = pairs.filter(
+      (p) => p.chainId === "solana" && isTrustedDex(p.dexId, trustedDexes)
     );
 
+    // per-DEX liquiditeit, volume, prijs + spread tussen pools
+    const liquidity = buildLiquidityBreakdown(pairs, trustedDexes);
+
     return res.json({
       mint,
-      rpcUrl: RPC_URL,
+      rpc: rpcMeta(rpc),
+      cache: responseCache.meta([cachedPairs]),
+      marketData: marketDataAttribution(marketData),
       totalPools: pairs.length,
       raydiumCount: raydiumPairs.length,
       otherDexCount: pairs.length - raydiumPairs.length,
-      totalLiquidityUsd,
-      raydium: summary,
+      trustedCount: trustedPairs.length,
+      // liquiditeit op DEXes uit de allowlist (default: alle bekende DEXes)
+      totalLiquidityUsd: liquidity.trustedLiquidityUsd,
+      liquidity,
+      raydium: raydiumPairs.map(summarizePair),
+      trusted: trustedPairs.map(summarizePair),
       others: pairs
         .filter((p) => p.dexId.toLowerCase() !== "raydium")
-        .map((p) => ({
-          chainId: p.chainId,
-          dexId: p.dexId,
-          url: p.url,
-          pairAddress: p.pairAddress,
-          baseToken: p.baseToken,
-          quoteToken: p.quoteToken,
-          priceUsd: p.priceUsd,
-          liquidityUsd: p.liquidity?.usd ?? null,
-        })),
-    });
+        .map(summarizePair),
+    } satisfies CbsMetricsResponse);
   } catch (e: any) {
     console.error("cbs-metrics error:", e);
     return res.status(500).json({
@@ -300,57 +1036,59 @@ app.get("/api/cbs-metrics", async (req: Request, res: Response) => {
 // /api/token-safety-check  -> heuristische risico-analyse
 // -----------------------------------------------------------------------------
 
-app.get("/api/token-safety-check", async (req: Request, res: Response) => {
-  const mint = (req.query.mint as string | undefined)?.trim();
-
-  if (!mint) {
-    return res.status(400).json({ error: "Missing mint query param" });
+app.get(apiRoutes.tokenSafetyCheck.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.tokenSafetyCheck, req, res);
+  if (!input) return;
+  const { mint, fresh, sellPct, history } = input.query;
+  const trustedDexes = parseDexAllowlist(input.query.dexes?.join(","));
+  const rpc = createRpcContext(input.query.commitment);
+
+  const profile = loadRiskProfile(input.query.profile);
+  if (!profile) {
+    return badRequest(
+      res,
+      "profile",
+      "query",
+      `Unknown risk profile: ${input.query.profile}`
+    );
   }
 
-  let mintKey: PublicKey;
-  try {
-    mintKey = new PublicKey(mint);
-  } catch {
-    return res.status(400).json({ error: "Invalid mint address" });
-  }
+  const mintKey = new PublicKey(mint);
 
   try {
-    const parsed = await connection.getParsedAccountInfo(mintKey, "confirmed");
-    if (!parsed.value) {
-      return res.status(404).json({
-        error: "Mint account not found",
-        mint,
-      });
-    }
-
-    const data = parsed.value.data as ParsedAccountData;
-    if (data.program !== "spl-token" || data.parsed.type !== "mint") {
-      return res.status(400).json({
-        error: "Account is not an SPL mint",
-        mint,
-      });
+    const cachedLookup = await cachedMint(rpc, mintKey, fresh);
+    const lookup = cachedLookup.value;
+    if (!lookup.ok) {
+      return res.status(lookup.status).json({ error: lookup.error, mint });
     }
 
-    const info: any = data.parsed.info;
-    const decimals: number = info.decimals;
-    const supplyRaw: string = info.supply;
-    const supply =
-      decimals >= 0
-        ? Number(supplyRaw) / Math.pow(10, decimals)
-        : Number(supplyRaw);
-    const mintAuthority = info.mintAuthority ?? null;
-    const freezeAuthority = info.freezeAuthority ?? null;
-    const isInitialized = !!info.isInitialized;
-
-    const pairs = await fetchDexPairsForMint(mint);
-    const raydiumPairs = pairs.filter(
+    const {
+      program,
+      decimals,
+      supplyRaw,
+      supply,
+      supplyString,
+      mintAuthority,
+      freezeAuthority,
+      isInitialized,
+      extensions,
+      rawExtensions,
+    } = lookup.mint;
+    const extensionRisk = assessExtensionRisk(extensions);
+
+    const cachedPairs = await cachedDexPairs(mint, fresh);
+    const marketData = cachedPairs.value;
+    const pairs = marketData.pairs;
+    const raydiumPairs = pairs.filter(
       (p) => p.chainId === "solana" && p.dexId.toLowerCase() === "raydium"
     );
-    const totalLiquidityUsd = raydiumPairs.reduce(
-      (acc, p) => acc + (p.liquidity?.usd || 0),
-      0
+    // alleen pools op DEXes uit de allowlist tellen als echte liquiditeit
+    const trustedPairs = pairs.filter(
+      (p) => p.chainId === "solana" && isTrustedDex(p.dexId, trustedDexes)
     );
-    const largestPool = raydiumPairs.reduce<DexPair | null>(
+    const liquidity = buildLiquidityBreakdown(pairs, trustedDexes);
+    const totalLiquidityUsd = liquidity.trustedLiquidityUsd;
+    const largestPool = trustedPairs.reduce<DexPair | null>(
       (acc, p) => {
         const liq = p.liquidity?.usd || 0;
         if (!acc) return p;
@@ -359,66 +1097,153 @@ app.get("/api/token-safety-check", async (req: Request, res: Response) => {
       null
     );
 
-    const reasons: string[] = [];
     const immutableMint = mintAuthority === null;
     const canFreeze = freezeAuthority !== null;
     const hasRaydiumPool = raydiumPairs.length > 0;
+    const hasTrustedPool = trustedPairs.length > 0;
+
+    // Extra input voor de regels: holders, LP burn en metadata. Een fout
+    // hier maakt die regel "onbekend" in plaats van de hele check te breken.
+    // historie loopt parallel mee, alleen met history=1
+    const historyRequest = history
+      ? cachedTokenHistory(rpc, mint, decimals, fresh).catch((e: any) => {
+          console.error("safety-check history error:", e?.message || e);
+          return null;
+        })
+      : Promise.resolve(null);
 
-    if (immutableMint) {
-      reasons.push("Mint authority revoked (immutable supply).");
-    } else {
-      reasons.push("Mint authority is still set (mintable token).");
-    }
+    const [cachedLargest, lp, metadata, cachedPools] = await Promise.all([
+      cachedLargestHolders(rpc, mintKey, decimals, supplyRaw, fresh).catch(
+        (e: any) => {
+          console.error("safety-check holders error:", e?.message || e);
+          return null;
+        }
+      ),
+      largestPool && largestPool.dexId.toLowerCase() === "raydium"
+        ? fetchLpStatus(rpc.connection, largestPool.pairAddress).catch(
+            (e: any) => {
+              console.error("safety-check lp error:", e?.message || e);
+              return null;
+            }
+          )
+        : Promise.resolve(null),
+      (async (): Promise<TokenMetadata | null> => {
+        const fromExtension = metadataFromTokenExtensions(mint, rawExtensions);
+        if (fromExtension) return fromExtension;
+        const byMint = await resolveMetadataBatch(rpc.connection, [mint]);
+        return byMint.get(mint) ?? null;
+      })().catch((e: any) => {
+        console.error("safety-check metadata error:", e?.message || e);
+        return null;
+      }),
+      // reserves voor de sell impact; SOL / stables zelf zijn de quote kant
+      QUOTE_MINTS.includes(mint)
+        ? Promise.resolve(null)
+        : cachedPoolReserves(rpc, mint, fresh).catch((e: any) => {
+            console.error("safety-check pools error:", e?.message || e);
+            return null;
+          }),
+    ]);
+    const cachedHistory = await historyRequest;
+    const impact = cachedPools
+      ? sellImpact(cachedPools.value, mint, BigInt(supplyRaw), sellPct)
+      : null;
+
+    const labeledHolders = cachedLargest
+      ? await labelHolders(rpc, cachedLargest.value.holders, fresh)
+      : null;
+    const concentration = labeledHolders
+      ? concentrationReport(labeledHolders, supplyRaw)
+      : null;
+
+    const assessment = assessRisk(
+      {
+        mintAuthority,
+        freezeAuthority,
+        extensionRisk,
+        trustedLiquidityUsd: totalLiquidityUsd,
+        trustedPoolCount: trustedPairs.length,
+        // pool vaults / exchanges / burn tellen niet als whale
+        concentration: concentration?.excludingInfrastructure ?? null,
+        lp: lp
+          ? {
+              pairAddress: lp.pairAddress,
+              // burn via supply-verlaging of via de incinerator
+              burnedPct: lp.breakdown.burnedPct + lp.breakdown.incineratorPct,
+              lockedPct: lp.breakdown.lockedPct,
+            }
+          : null,
+        poolCreatedAt:
+          typeof largestPool?.pairCreatedAt === "number"
+            ? largestPool.pairCreatedAt
+            : null,
+        metadata,
+      },
+      profile
+    );
 
-    if (!canFreeze) {
-      reasons.push("Freeze authority revoked (no freeze control).");
-    } else {
-      reasons.push("Freeze authority is still set.");
-    }
+    const reasons: string[] = assessment.rules.map((r) => r.message);
 
-    if (hasRaydiumPool) {
+    if (hasTrustedPool) {
+      const venues = liquidity.venues
+        .filter((v) => v.trusted)
+        .map((v) => `${v.dexId} (${v.poolCount})`)
+        .join(", ");
       reasons.push(
-        `Raydium pools found (${raydiumPairs.length}), total liquidity ≈ $${totalLiquidityUsd.toFixed(
-          2
-        )}.`
+        `Pools found on ${venues}, dominant venue: ${liquidity.dominantVenue ?? "n/a"}.`
       );
     } else {
-      reasons.push("No Raydium pools found on DexScreener.");
+      reasons.push(
+        `No pools found on trusted DEXes (${trustedDexes.join(", ")}) (source: ${marketData.source}).`
+      );
     }
 
-    let riskLevel: "low" | "medium" | "high" = "medium";
-    let lowLiquidity = false;
-    let veryLowLiquidity = false;
+    // Token-2022 extensions (permanent delegate, transfer hook, fees, ...)
+    reasons.push(...extensionRisk.reasons);
 
-    if (totalLiquidityUsd < 200) {
-      veryLowLiquidity = true;
-      lowLiquidity = true;
-    } else if (totalLiquidityUsd < 1000) {
-      lowLiquidity = true;
-    }
+    const tokenHistory = cachedHistory?.value ?? null;
+    if (tokenHistory) reasons.push(...historyReasons(tokenHistory));
 
-    if (!hasRaydiumPool || veryLowLiquidity || !immutableMint) {
-      riskLevel = "high";
-    } else if (lowLiquidity || canFreeze) {
-      riskLevel = "medium";
-    } else {
-      riskLevel = "low";
+    if (impact) {
+      reasons.push(
+        `Selling ${sellPct}% of the supply would move the price by ${impact.priceImpactPct.toFixed(2)}% in the deepest pool (${impact.kind}).`
+      );
     }
 
+    const lowLiquidity = totalLiquidityUsd < profile.thresholds.lowLiquidityUsd;
+    const veryLowLiquidity =
+      totalLiquidityUsd < profile.thresholds.veryLowLiquidityUsd;
+
     return res.json({
       mint,
-      rpcUrl: RPC_URL,
+      rpc: rpcMeta(rpc),
+      cache: responseCache.meta(
+        [
+          cachedLookup,
+          cachedPairs,
+          cachedLargest,
+          cachedHistory,
+          cachedPools,
+        ].filter((c): c is Cached<any> => c !== null)
+      ),
       onChain: {
+        program,
         decimals,
         supplyRaw,
         supply,
+        supplyString,
         mintAuthority,
         freezeAuthority,
         isInitialized,
+        extensions,
       },
       dex: {
+        marketData: marketDataAttribution(marketData),
         totalPools: pairs.length,
         totalLiquidityUsd,
+        trustedDexes,
+        dominantVenue: liquidity.dominantVenue,
+        priceSpreadPct: liquidity.priceSpreadPct,
         largestPool: largestPool
           ? {
               dexId: largestPool.dexId,
@@ -428,18 +1253,49 @@ app.get("/api/token-safety-check", async (req: Request, res: Response) => {
             }
           : null,
       },
+      // LP burn/lock status van de grootste pool (alleen Raydium AMM v4 / CPMM)
+      lp,
+      ...(history
+        ? {
+            history: tokenHistory && {
+              createdAt: tokenHistory.created?.blockTime ?? null,
+              creator: tokenHistory.created?.creator ?? null,
+              firstPoolAt: tokenHistory.firstPool?.blockTime ?? null,
+              mintedAfterLaunchPct: tokenHistory.totals.mintedAfterLaunchPct,
+              authorityChanges: tokenHistory.authorityChanges.length,
+              complete: tokenHistory.coverage.complete,
+            },
+          }
+        : {}),
       safety: {
         immutableMint,
         canFreeze,
         hasRaydiumPool,
+        hasTrustedPool,
         lowLiquidity,
         veryLowLiquidity,
-        riskLevel,
+        hasPermanentDelegate: extensionRisk.hasPermanentDelegate,
+        hasTransferHook: extensionRisk.hasTransferHook,
+        transferFeeBps: extensionRisk.transferFeeBps,
+        highTransferFee: extensionRisk.highTransferFee,
+        nonTransferable: extensionRisk.nonTransferable,
+        defaultFrozen: extensionRisk.defaultFrozen,
+        lpBurnedPct: lp?.burnedPct ?? null,
+        lpSafePct: lp?.safePct ?? null,
+        concentration: concentration?.raw ?? null,
+        concentrationExcludingInfrastructure:
+          concentration?.excludingInfrastructure ?? null,
+        infrastructurePct: concentration?.infrastructurePct ?? null,
+        sellImpact: impact,
+        profile: assessment.profile,
+        score: assessment.score,
+        riskLevel: assessment.riskLevel,
+        rules: assessment.rules,
         reasons,
       },
       disclaimer:
-        "This is a heuristic safety check based on on-chain metadata and DexScreener data. It is NOT financial advice. Always do your own research.",
-    });
+        "This is a heuristic safety check based on on-chain metadata and market data (DexScreener or on-chain pool reserves). It is NOT financial advice. Always do your own research.",
+    } satisfies TokenSafetyCheckResponse);
   } catch (e: any) {
     console.error("token-safety-check error:", e);
     return res.status(500).json({
@@ -450,326 +1306,1040 @@ app.get("/api/token-safety-check", async (req: Request, res: Response) => {
 });
 
 // -----------------------------------------------------------------------------
-// /api/holder-info  -> top holders + concentratie (lichtgewicht versie)
+// /api/lp-status  -> LP tokens van een pool: verbrand / gelockt / EOA
 // -----------------------------------------------------------------------------
 
-app.get("/api/holder-info", async (req: Request, res: Response) => {
-  const mint = (req.query.mint as string | undefined)?.trim();
-  const minStr = (req.query.min as string | undefined)?.trim();
-  const limitStr = (req.query.limit as string | undefined)?.trim();
-
-  if (!mint) {
-    return res.status(400).json({ error: "Missing mint query param" });
-  }
+app.get(apiRoutes.lpStatus.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.lpStatus, req, res);
+  if (!input) return;
+  const { pair } = input.query;
+  const rpc = createRpcContext(input.query.commitment);
 
-  let mintKey: PublicKey;
   try {
-    mintKey = new PublicKey(mint);
-  } catch {
-    return res.status(400).json({ error: "Invalid mint address" });
+    const status = await fetchLpStatus(rpc.connection, pair);
+    if (!status) {
+      return res.status(400).json({
+        error: "Pool not found or not a Raydium AMM v4 / CPMM pool",
+        pair,
+      });
+    }
+
+    return res.json({
+      pair,
+      rpc: rpcMeta(rpc),
+      ...status,
+      note:
+        "Percentages are relative to the LP supply tracked by the pool, including burned LP. Only the largest LP accounts are classified.",
+    });
+  } catch (e: any) {
+    console.error("lp-status error:", e);
+    return res.status(500).json({
+      error: "Failed to fetch LP status",
+      message: e?.message || String(e),
+    });
   }
+});
 
-  const minAmount = minStr ? parseFloat(minStr) : 0;
-  const limit = limitStr ? parseInt(limitStr, 10) : 50;
+// -----------------------------------------------------------------------------
+// /api/quote  -> swap quote via constant-product pools (x * y = k)
+// -----------------------------------------------------------------------------
+
+app.get(apiRoutes.quote.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.quote, req, res);
+  if (!input) return;
+  const { inputMint, outputMint, amount } = input.query;
+  if (inputMint === outputMint) {
+    return badRequest(
+      res,
+      "outputMint",
+      "query",
+      "outputMint must differ from inputMint"
+    );
+  }
+  const rpc = createRpcContext(input.query.commitment);
 
   try {
-    // 1) Mint info voor decimals + supply
-    const parsedMint = await connection.getParsedAccountInfo(
-      mintKey,
-      "confirmed"
+    // reserves veranderen elk blok, dus hier geen cache
+    const pools = await fetchPoolReservesForPair(
+      rpc.connection,
+      inputMint,
+      outputMint
     );
-    if (!parsedMint.value) {
+    const decimals = poolMintDecimals(pools, inputMint);
+    if (decimals === null) {
       return res.status(404).json({
-        error: "Mint account not found",
-        mint,
+        error: "No Raydium AMM v4 / CPMM pool found for this pair",
+        inputMint,
+        outputMint,
       });
     }
 
-    const mintData = parsedMint.value.data as ParsedAccountData;
-    if (mintData.program !== "spl-token" || mintData.parsed.type !== "mint") {
-      return res.status(400).json({
-        error: "Account is not an SPL mint",
-        mint,
+    const amountRaw = parseUnits(amount, decimals);
+    if (amountRaw === null || amountRaw <= 0n) {
+      return badRequest(
+        res,
+        "amount",
+        "query",
+        `amount must be a positive number with at most ${decimals} decimals`
+      );
+    }
+
+    const routes = quoteRoutes(pools, inputMint, outputMint, amountRaw);
+    if (routes.length === 0) {
+      return res.status(404).json({
+        error: "No open constant-product pool with reserves for this pair",
+        inputMint,
+        outputMint,
       });
     }
 
-    const mInfo: any = mintData.parsed.info;
-    const decimals: number = mInfo.decimals;
-    const supplyRaw: string = mInfo.supply;
-    const supply =
-      decimals >= 0
-        ? Number(supplyRaw) / Math.pow(10, decimals)
-        : Number(supplyRaw);
+    return res.json({
+      inputMint,
+      outputMint,
+      rpc: rpcMeta(rpc),
+      best: routes[0],
+      routes,
+      note:
+        "Price impact excludes the pool fee. Only single-pool routes on Raydium AMM v4 / CPMM are considered; concentrated liquidity pools are ignored.",
+    } satisfies QuoteResponse);
+  } catch (e: any) {
+    console.error("quote error:", e);
+    return res.status(500).json({
+      error: "Failed to compute quote",
+      message: e?.message || String(e),
+    });
+  }
+});
+
+// -----------------------------------------------------------------------------
+// /api/price-history  -> OHLCV candles uit de lokale price recorder
+// -----------------------------------------------------------------------------
+
+const priceStore = createPriceStore();
+
+// Mints waarvan de hoofdpool periodiek gesampled wordt, bv.
+// PRICE_RECORDER_MINTS=mint1,mint2
+const PRICE_RECORDER_MINTS = (process.env.PRICE_RECORDER_MINTS || "")
+  .split(",")
+  .map((s) => s.trim())
+  .filter(Boolean);
+const PRICE_RECORDER_INTERVAL_MS = Number(
+  process.env.PRICE_RECORDER_INTERVAL_MS || 60_000
+);
+
+async function runPriceRecorder() {
+  for (const mint of PRICE_RECORDER_MINTS) {
+    try {
+      const result = await samplePrice(backgroundRpc.connection, mint);
+      if (result) await priceStore.add(mint, [result.sample]);
+      else console.error(`price sample ${mint} skipped: no main pool`);
+    } catch (e: any) {
+      console.error(`price sample ${mint} error:`, e?.message || e);
+    }
+  }
+}
 
-    // 2) Vraag de grootste tokenaccounts op (de node doet de zware scan)
-    const largest = await connection.getTokenLargestAccounts(
+app.get(apiRoutes.priceHistory.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.priceHistory, req, res);
+  if (!input) return;
+  const { mint, interval, backfill } = input.query;
+  const step = PRICE_INTERVALS[interval];
+  const to = input.query.to ?? Date.now();
+  const from = input.query.from ?? to - step * PRICE_DEFAULT_CANDLES;
+  if (from >= to) {
+    return badRequest(res, "from", "query", "from must be before to");
+  }
+  if ((to - from) / step > PRICE_MAX_CANDLES) {
+    return badRequest(
+      res,
+      "from",
+      "query",
+      `from..to spans more than ${PRICE_MAX_CANDLES} ${interval} candles`
+    );
+  }
+  const rpc = createRpcContext(input.query.commitment);
+
+  try {
+    // backfill=1: swaps uit recente pool transacties + een reserve sample
+    let filled: { signatures: number; swaps: number; added: number } | null =
+      null;
+    if (backfill) {
+      const current = await samplePrice(rpc.connection, mint);
+      const swaps = current
+        ? await backfillSwaps(rpc.connection, current.pool, mint)
+        : { signatures: 0, samples: [] };
+      const added = current
+        ? await priceStore.add(mint, [...swaps.samples, current.sample])
+        : 0;
+      filled = {
+        signatures: swaps.signatures,
+        swaps: swaps.samples.length,
+        added,
+      };
+    }
+
+    const samples = await priceStore.list(mint);
+    const latest = samples[samples.length - 1] ?? null;
+
+    return res.json({
+      mint,
+      rpc: rpcMeta(rpc),
+      interval,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      pool: latest?.pool ?? null,
+      quoteMint: latest?.quoteMint ?? null,
+      recording: PRICE_RECORDER_MINTS.includes(mint),
+      samples: samples.length,
+      backfill: filled,
+      ...buildCandles(samples, interval, from, to),
+      note:
+        "Prices are in the quote token (quoteMint) of the main pool. Reserve samples from the recorder carry no volume; v only counts backfilled swaps, in base token units.",
+    } satisfies PriceHistoryResponse);
+  } catch (e: any) {
+    console.error("price-history error:", e);
+    return res.status(500).json({
+      error: "Failed to fetch price history",
+      message: e?.message || String(e),
+    });
+  }
+});
+
+// -----------------------------------------------------------------------------
+// /api/holder-info  -> top holders + concentratie (lichtgewicht versie)
+// -----------------------------------------------------------------------------
+
+app.get(apiRoutes.holderInfo.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.holderInfo, req, res);
+  if (!input) return;
+  const { mint, min: minAmount, limit, scan, fresh } = input.query;
+  const { clusters, clusterHolders, clusterDepth } = input.query;
+  const mintKey = new PublicKey(mint);
+  const rpc = createRpcContext(input.query.commitment);
+
+  try {
+    // 1) Mint info voor decimals + supply
+    const cachedLookup = await cachedMint(rpc, mintKey, fresh);
+    const lookup = cachedLookup.value;
+    if (!lookup.ok) {
+      return res.status(lookup.status).json({ error: lookup.error, mint });
+    }
+
+    const { program, decimals, supplyRaw, supply, supplyString } =
+      lookup.mint;
+
+    // Volledige scan: alle token accounts, geaggregeerd per owner
+    if (scan === "full") {
+      const job = await cachedHolderScan(rpc, mintKey, lookup.mint, fresh);
+      if (!job.done) {
+        res.setHeader("Retry-After", "5");
+        return res.status(202).json({
+          mint,
+          rpc: rpcMeta(rpc),
+          status: "running",
+          startedAt: new Date(job.startedAt).toISOString(),
+          lastError: job.lastError,
+          note:
+            "Full holder scan is running in the background. Retry this request to get the result.",
+        });
+      }
+
+      const result = job.value.value;
+      const labeled = await labelHolders(rpc, result.topHolders, fresh);
+      const report = concentrationReport(labeled, supplyRaw);
+      const holders = labeled.filter(
+        (h) => !(minAmount > 0 && h.uiAmount < minAmount)
+      );
+      const top = holders.slice(0, limit);
+      const clustered = clusters
+        ? await holderClusters(
+            rpc,
+            mint,
+            decimals,
+            supplyRaw,
+            labeled,
+            clusterHolders,
+            clusterDepth,
+            fresh
+          )
+        : null;
+
+      return res.json({
+        mint,
+        rpc: rpcMeta(rpc),
+        cache: responseCache.meta([
+          cachedLookup,
+          job.value,
+          ...(clustered?.cached ?? []),
+        ]),
+        program,
+        decimals,
+        supplyRaw,
+        supply,
+        supplyString,
+        scan: {
+          mode: "full",
+          scannedAt: new Date(result.scannedAt).toISOString(),
+          durationMs: result.durationMs,
+          tokenAccounts: result.tokenAccounts,
+          zeroBalanceAccounts: result.zeroBalanceAccounts,
+        },
+        totalHolders: result.holderCount,
+        holderCountExact: true,
+        filteredCount: top.length,
+        topCount: top.length,
+        concentration: report.raw,
+        concentrationExcludingInfrastructure: report.excludingInfrastructure,
+        infrastructurePct: report.infrastructurePct,
+        distribution: result.distribution,
+        holders: top,
+        clusters: clustered?.report,
+        note:
+          "Holders are aggregated by owner from a full scan of all token accounts for this mint.",
+      } satisfies HolderInfoResponse);
+    }
+
+    // 2) Grootste tokenaccounts + owners (de node doet de zware scan)
+    const cachedLargest = await cachedLargestHolders(
+      rpc,
       mintKey,
-      "confirmed"
+      decimals,
+      supplyRaw,
+      fresh
     );
-    const rawList = largest.value || [];
+    const largest = cachedLargest.value;
 
-    if (rawList.length === 0) {
+    if (largest.accountCount === 0) {
       return res.json({
         mint,
-        rpcUrl: RPC_URL,
+        rpc: rpcMeta(rpc),
+        cache: responseCache.meta([cachedLookup, cachedLargest]),
+        program,
         decimals,
         supplyRaw,
         supply,
+        supplyString,
         totalHolders: 0,
+        holderCountExact: false,
         filteredCount: 0,
         topCount: 0,
         concentration: { top1: 0, top5: 0, top10: 0 },
+        concentrationExcludingInfrastructure: { top1: 0, top5: 0, top10: 0 },
+        infrastructurePct: 0,
         holders: [],
         note:
           "No token accounts found for this mint. Data based on getTokenLargestAccounts.",
-      });
+      } satisfies HolderInfoResponse);
     }
 
-    // 3) Owners van deze accounts ophalen met getMultipleAccountsInfo
-    //    (we beperken tot max 100 om het licht te houden)
-    const accountPubkeys = rawList
-      .slice(0, 100)
-      .map((r) => r.address);
-
-    const accountInfos = await connection.getMultipleAccountsInfo(
-      accountPubkeys,
-      "confirmed"
-    );
-
-    type HolderRow = {
-      owner: string;
-      uiAmount: number;
-      percentageOfSupply: number;
-    };
+    const labeled = await labelHolders(rpc, largest.holders, fresh);
+    const holders = labeled.filter((h) => {
+      if (!h.uiAmount || h.uiAmount === 0) return false;
+      if (minAmount > 0 && h.uiAmount < minAmount) return false;
+      return true;
+    });
 
-    const holders: HolderRow[] = [];
+    const top = holders.slice(0, limit);
 
-    accountInfos.forEach((ai, idx) => {
-      const info = ai;
-      if (!info) return;
+    const report = concentrationReport(holders, supplyRaw);
+    const clustered = clusters
+      ? await holderClusters(
+          rpc,
+          mint,
+          decimals,
+          supplyRaw,
+          labeled,
+          clusterHolders,
+          clusterDepth,
+          fresh
+        )
+      : null;
 
-      const data = info.data;
-      if (!data || data.length < 96) return;
+    return res.json({
+      mint,
+      rpc: rpcMeta(rpc),
+      cache: responseCache.meta([
+        cachedLookup,
+        cachedLargest,
+        ...(clustered?.cached ?? []),
+      ]),
+      program,
+      decimals,
+      supplyRaw,
+      supply,
+      supplyString,
+      // Dit is het aantal grootste accounts dat de RPC teruggeeft,
+      // niet het echte totale aantal unieke holders.
+      totalHolders: largest.accountCount,
+      holderCountExact: false,
+      filteredCount: top.length,
+      topCount: top.length,
+      concentration: report.raw,
+      concentrationExcludingInfrastructure: report.excludingInfrastructure,
+      infrastructurePct: report.infrastructurePct,
+      holders: top,
+      clusters: clustered?.report,
+      note:
+        "Top holder distribution based on getTokenLargestAccounts (largest token accounts on-chain). For very large tokens this is an approximation of total holders; use scan=full for the exact count.",
+    } satisfies HolderInfoResponse);
+  } catch (e: any) {
+    console.error("holder-info error:", e);
+    return res.status(500).json({
+      error: "Failed to fetch holder info",
+      message: e?.message || String(e),
+    });
+  }
+});
 
-      // owner bytes in SPL-token account: offset 32, length 32
-      const ownerBytes = data.slice(32, 64);
-      const owner = new PublicKey(ownerBytes).toBase58();
+// -----------------------------------------------------------------------------
+// /api/insider-analysis  -> creator / snipers en waar hun tokens heen gingen
+// -----------------------------------------------------------------------------
 
-      const raw = rawList[idx];
-      const amountRaw = raw.amount;
+const INSIDER_NOTE =
+  "Insiders are the creator, MintTo recipients and buyers in the first slots after the first pool transaction. Fresh wallets are recipients of insider transfers with almost no history; their balance counts towards insiderPct.";
+const INSIDER_POOL_NOTE =
+  "The pool account could not be walked back to the launch (unknown pool account or too many transactions since), so snipers only include buys that reference the mint account and can be incomplete.";
+const INSIDER_PARTIAL_HISTORY_NOTE =
+  "The token history is only partially covered, so the first pool transaction is uncertain: launch and snipers are left out.";
 
-      const uiAmount =
-        decimals >= 0
-          ? Number(amountRaw) / Math.pow(10, decimals)
-          : Number(amountRaw);
+app.get(apiRoutes.insiderAnalysis.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.insiderAnalysis, req, res);
+  if (!input) return;
+  const { mint, slots, fresh } = input.query;
+  const mintKey = new PublicKey(mint);
+  const rpc = createRpcContext(input.query.commitment);
 
-      if (!uiAmount || uiAmount === 0) return;
+  try {
+    const cachedLookup = await cachedMint(rpc, mintKey, fresh);
+    const lookup = cachedLookup.value;
+    if (!lookup.ok) {
+      return res.status(lookup.status).json({ error: lookup.error, mint });
+    }
+    const { decimals, supplyRaw } = lookup.mint;
+
+    const cachedHistory = await cachedTokenHistory(rpc, mint, decimals, fresh);
+    const history = cachedHistory.value;
+
+    // zonder volledige historie is dit niet per se de eerste pool
+    const pool = history.coverage.complete ? history.firstPool : null;
+    // AMM swaps raken vaak alleen de pool, niet de mint
+    const buyers = pool
+      ? await fetchLaunchBuyers(rpc.connection, mint, pool, slots)
+      : null;
+    const snipersComplete =
+      history.coverage.complete && (pool === null || buyers!.complete);
+
+    // pool vaults, exchanges en burn adressen zijn geen insiders
+    const candidates = (
+      await labelHolders(
+        rpc,
+        insiderCandidates(history, slots, buyers?.receipts),
+        fresh
+      )
+    ).filter((c) => !c.label?.infrastructure);
+
+    const [analysis, cachedLargest] = await Promise.all([
+      analyzeInsiders(rpc.connection, mint, decimals, supplyRaw, candidates),
+      cachedLargestHolders(rpc, mintKey, decimals, supplyRaw, fresh).catch(
+        (e: any) => {
+          console.error("insider holders error:", e?.message || e);
+          return null;
+        }
+      ),
+    ]);
 
-      if (minAmount > 0 && uiAmount < minAmount) return;
+    const concentration = cachedLargest
+      ? concentrationReport(
+          await labelHolders(rpc, cachedLargest.value.holders, fresh),
+          supplyRaw
+        )
+      : null;
 
-      const pct =
-        supply > 0 ? (uiAmount / supply) * 100 : 0;
+    const notes = [INSIDER_NOTE];
+    if (!history.coverage.complete) notes.push(INSIDER_PARTIAL_HISTORY_NOTE);
+    else if (!snipersComplete) notes.push(INSIDER_POOL_NOTE);
 
-      holders.push({
-        owner,
-        uiAmount,
-        percentageOfSupply: pct,
-      });
+    return res.json({
+      mint,
+      rpc: rpcMeta(rpc),
+      cache: responseCache.meta(
+        cachedLargest
+          ? [cachedLookup, cachedHistory, cachedLargest]
+          : [cachedLookup, cachedHistory]
+      ),
+      launch: pool
+        ? {
+            signature: pool.signature,
+            kind: pool.kind,
+            pool: pool.pool,
+            slot: pool.slot,
+            blockTime: pool.blockTime,
+            windowSlots: slots,
+          }
+        : null,
+      ...analysis,
+      concentration: concentration?.raw ?? null,
+      concentrationExcludingInfrastructure:
+        concentration?.excludingInfrastructure ?? null,
+      historyComplete: history.coverage.complete,
+      snipersComplete,
+      note: notes.join(" "),
+    } satisfies InsiderAnalysisResponse);
+  } catch (e: any) {
+    console.error("insider-analysis error:", e);
+    return res.status(500).json({
+      error: "Failed to analyze insiders",
+      message: e?.message || String(e),
     });
+  }
+});
 
-    // sorteer op grootste holdings
-    holders.sort((a, b) => b.uiAmount - a.uiAmount);
+// -----------------------------------------------------------------------------
+// /api/whale-tracker  -> top largest accounts via getTokenLargestAccounts
+// -----------------------------------------------------------------------------
 
-    const top = holders.slice(0, isNaN(limit) ? 50 : limit);
+app.get(apiRoutes.whaleTracker.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.whaleTracker, req, res);
+  if (!input) return;
+  // excludeInfrastructure=1 laat pool vaults, exchanges en burn weg
+  const { mint, minPct, limit, excludeInfrastructure, fresh } = input.query;
+  const mintKey = new PublicKey(mint);
+  const rpc = createRpcContext(input.query.commitment);
 
-    function pctOfSupply(count: number): number {
-      if (!supply || supply <= 0) return 0;
-      const slice = holders.slice(0, count);
-      const sum = slice.reduce((acc, h) => acc + h.uiAmount, 0);
-      return (sum / supply) * 100;
+  try {
+    const cachedLookup = await cachedMint(rpc, mintKey, fresh);
+    const lookup = cachedLookup.value;
+    if (!lookup.ok) {
+      return res.status(lookup.status).json({ error: lookup.error, mint });
     }
 
-    const concentration = {
-      top1: pctOfSupply(1),
-      top5: pctOfSupply(5),
-      top10: pctOfSupply(10),
-    };
+    const { program, decimals, supplyRaw, supply, supplyString } =
+      lookup.mint;
+
+    const cachedLargest = await cachedLargestHolders(
+      rpc,
+      mintKey,
+      decimals,
+      supplyRaw,
+      fresh
+    );
+
+    const labeled = await labelHolders(
+      rpc,
+      cachedLargest.value.holders.slice(0, 50), // safety
+      fresh
+    );
+    const whales = labeled.filter((h) => h.percentageOfSupply >= minPct);
+
+    const report = concentrationReport(whales, supplyRaw);
+    const listed = excludeInfrastructure
+      ? whales.filter((h) => !h.label?.infrastructure)
+      : whales;
+
+    const limitedWhales = listed.slice(0, limit);
 
     return res.json({
       mint,
-      rpcUrl: RPC_URL,
+      rpc: rpcMeta(rpc),
+      cache: responseCache.meta([cachedLookup, cachedLargest]),
+      program,
       decimals,
       supplyRaw,
       supply,
-      // Dit is het aantal grootste accounts dat de RPC teruggeeft,
-      // niet het echte totale aantal unieke holders.
-      totalHolders: rawList.length,
-      filteredCount: top.length,
-      topCount: top.length,
-      concentration,
-      holders: top,
+      supplyString,
+      minPct,
+      excludeInfrastructure,
+      concentration: report.raw,
+      concentrationExcludingInfrastructure: report.excludingInfrastructure,
+      infrastructurePct: report.infrastructurePct,
+      whales: limitedWhales,
       note:
-        "Top holder distribution based on getTokenLargestAccounts (largest token accounts on-chain). For very large tokens this is an approximation of total holders.",
-    });
+        "Whales are derived from the largest token accounts for this mint and filtered by percentage of total supply.",
+    } satisfies WhaleTrackerResponse);
   } catch (e: any) {
-    console.error("holder-info error:", e);
+    console.error("whale-tracker error:", e);
     return res.status(500).json({
-      error: "Failed to fetch holder info",
+      error: "Failed to fetch whale data",
       message: e?.message || String(e),
     });
   }
 });
 
 // -----------------------------------------------------------------------------
-// /api/whale-tracker  -> top largest accounts via getTokenLargestAccounts
+// /api/whale-tracker/snapshot + /changes  -> whales over tijd (file store)
 // -----------------------------------------------------------------------------
 
-app.get("/api/whale-tracker", async (req: Request, res: Response) => {
-  const mint = (req.query.mint as string | undefined)?.trim();
-  const minPctStr = (req.query.minPct as string | undefined)?.trim();
-  const limitStr = (req.query.limit as string | undefined)?.trim();
+const snapshotStore = createSnapshotStore();
 
-  if (!mint) {
-    return res.status(400).json({ error: "Missing mint query param" });
+// Mints die periodiek gesnapshot worden, bv. WHALE_SNAPSHOT_MINTS=mint1,mint2
+const WHALE_SNAPSHOT_MINTS = (process.env.WHALE_SNAPSHOT_MINTS || "")
+  .split(",")
+  .map((s) => s.trim())
+  .filter(Boolean);
+const WHALE_SNAPSHOT_INTERVAL_MS = Number(
+  process.env.WHALE_SNAPSHOT_INTERVAL_MS || 60 * 60 * 1000
+);
+
+async function recordWhaleSnapshot(rpc: RpcContext, mintKey: PublicKey) {
+  const result = await takeWhaleSnapshot(rpc.connection, mintKey);
+  if (result.ok) await snapshotStore.append(result.snapshot);
+  return result;
+}
+
+async function runWhaleSnapshotSchedule() {
+  for (const mint of WHALE_SNAPSHOT_MINTS) {
+    try {
+      const result = await recordWhaleSnapshot(backgroundRpc, new PublicKey(mint));
+      if (!result.ok) {
+        console.error(`whale snapshot ${mint} skipped:`, result.error);
+      }
+    } catch (e: any) {
+      console.error(`whale snapshot ${mint} error:`, e?.message || e);
+    }
   }
+}
+
+app.post(apiRoutes.whaleSnapshot.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.whaleSnapshot, req, res);
+  if (!input) return;
+  const mint = input.body.mint ?? input.query.mint;
+  if (!mint) return badRequest(res, "mint", "body", "mint is required");
+  const mintKey = new PublicKey(mint);
+  const rpc = createRpcContext(
+    input.body.commitment ?? input.query.commitment
+  );
 
-  let mintKey: PublicKey;
   try {
-    mintKey = new PublicKey(mint);
-  } catch {
-    return res.status(400).json({ error: "Invalid mint address" });
+    const result = await recordWhaleSnapshot(rpc, mintKey);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, mint });
+    }
+
+    const snapshots = await snapshotStore.list(mint);
+    return res.json({
+      mint,
+      rpc: rpcMeta(rpc),
+      takenAt: new Date(result.snapshot.takenAt).toISOString(),
+      holders: result.snapshot.holders.length,
+      snapshots: snapshots.length,
+    });
+  } catch (e: any) {
+    console.error("whale snapshot error:", e);
+    return res.status(500).json({
+      error: "Failed to take whale snapshot",
+      message: e?.message || String(e),
+    });
   }
+});
 
-  const minPct = minPctStr ? parseFloat(minPctStr) : 1;
-  const limit = limitStr ? parseInt(limitStr, 10) : 20;
+app.get(apiRoutes.whaleChanges.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.whaleChanges, req, res);
+  if (!input) return;
+  const { mint, minPct, refresh } = input.query;
+  const since = input.query.since ?? null;
+  const mintKey = new PublicKey(mint);
+  const rpc = createRpcContext(input.query.commitment);
 
   try {
-    const parsedMint = await connection.getParsedAccountInfo(
-      mintKey,
-      "confirmed"
-    );
-    if (!parsedMint.value) {
-      return res.status(404).json({
-        error: "Mint account not found",
-        mint,
-      });
+    // refresh=1 neemt eerst een nieuwe snapshot als eindpunt
+    if (refresh) {
+      const result = await recordWhaleSnapshot(rpc, mintKey);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error, mint });
+      }
     }
 
-    const mintData = parsedMint.value.data as ParsedAccountData;
-    if (mintData.program !== "spl-token" || mintData.parsed.type !== "mint") {
-      return res.status(400).json({
-        error: "Account is not an SPL mint",
+    const snapshots = await snapshotStore.list(mint);
+    if (snapshots.length < 2) {
+      return res.status(404).json({
+        error:
+          "Not enough snapshots for this mint (need at least 2). Take one via POST /api/whale-tracker/snapshot or use refresh=1.",
         mint,
+        snapshots: snapshots.length,
       });
     }
 
-    const mInfo: any = mintData.parsed.info;
-    const decimals: number = mInfo.decimals;
-    const supplyRaw: string = mInfo.supply;
-    const supply =
-      decimals >= 0
-        ? Number(supplyRaw) / Math.pow(10, decimals)
-        : Number(supplyRaw);
+    const to = snapshots[snapshots.length - 1];
+    const earlier = snapshots.slice(0, -1);
+    const from =
+      since !== null
+        ? snapshotAtOrBefore(earlier, since)!
+        : earlier[earlier.length - 1];
 
-    const largest = await connection.getTokenLargestAccounts(
-      mintKey,
-      "confirmed"
-    );
-
-    const whalesRaw = largest.value || [];
+    const diff = diffSnapshots(from, to, minPct);
+    const changes = await labelHolders(rpc, diff.changes, false);
 
-    type Whale = {
-      owner: string;
-      uiAmount: number;
-      percentageOfSupply: number;
-    };
+    return res.json({
+      mint,
+      rpc: rpcMeta(rpc),
+      since: since !== null ? new Date(since).toISOString() : null,
+      snapshots: snapshots.length,
+      ...diff,
+      changes,
+      note:
+        "Snapshots hold the largest token accounts only; an owner missing from a snapshot is counted as 0, so exits are a lower bound.",
+    });
+  } catch (e: any) {
+    console.error("whale-tracker changes error:", e);
+    return res.status(500).json({
+      error: "Failed to compute whale changes",
+      message: e?.message || String(e),
+    });
+  }
+});
 
-    const whales: Whale[] = [];
+// -----------------------------------------------------------------------------
+// /api/rpc-status  -> gezondheid per RPC endpoint (alleen labels, geen URL's)
+// -----------------------------------------------------------------------------
 
-    if (whalesRaw.length > 0) {
-      const accountPubkeys = whalesRaw
-        .slice(0, 50) // safety
-        .map((w) => w.address);
+app.get(apiRoutes.rpcStatus.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.rpcStatus, req, res);
+  if (!input) return;
 
-      const accountInfos = await connection.getMultipleAccountsInfo(
-        accountPubkeys,
-        "confirmed"
-      );
+  try {
+    // check=1 draait meteen een health check i.p.v. de laatste te tonen
+    if (input.query.check) await rpcPool.checkHealth();
 
-      accountInfos.forEach((ai, idx) => {
-        const info = ai;
-        if (!info) return;
+    const endpoints = rpcPool.status();
+    return res.json({
+      defaultCommitment: rpcPool.defaultCommitment,
+      healthy: endpoints.filter((e) => e.healthy).length,
+      total: endpoints.length,
+      endpoints,
+    });
+  } catch (e: any) {
+    console.error("rpc-status error:", e);
+    return res.status(500).json({
+      error: "Failed to fetch RPC status",
+      message: e?.message || String(e),
+    });
+  }
+});
 
-        const data = info.data;
-        if (!data || data.length < 96) return;
+// -----------------------------------------------------------------------------
+// /api/webhooks  -> subscriptions op condities, gesigneerde POSTs
+// -----------------------------------------------------------------------------
 
-        const ownerBytes = data.slice(32, 64);
-        const owner = new PublicKey(ownerBytes).toBase58();
+const webhookStore = createWebhookStore();
+const webhookDispatcher = createWebhookDispatcher(webhookStore);
 
-        const raw = whalesRaw[idx];
-        const amountRaw = raw.amount;
-        const uiAmount =
-          decimals >= 0
-            ? Number(amountRaw) / Math.pow(10, decimals)
-            : Number(amountRaw);
+const WEBHOOK_EVAL_INTERVAL_MS = Number(
+  process.env.WEBHOOK_EVAL_INTERVAL_MS || 60_000
+);
 
-        const pct =
-          supply > 0 ? (uiAmount / supply) * 100 : 0;
+// De evaluator hergebruikt dezelfde (gecachete) bronnen als de endpoints
+const webhookObservers: WebhookObservers = {
+  async liquidityUsd(mint, dexes) {
+    const pairs = await cachedDexPairs(mint, false);
+    return buildLiquidityBreakdown(
+      pairs.value.pairs,
+      parseDexAllowlist(dexes?.join(","))
+    ).trustedLiquidityUsd;
+  },
+
+  async holderPcts(mint) {
+    const mintKey = new PublicKey(mint);
+    const lookup = await cachedMint(backgroundRpc, mintKey, false);
+    if (!lookup.value.ok) throw new Error(lookup.value.error);
+    const { decimals, supplyRaw } = lookup.value.mint;
+    const largest = await cachedLargestHolders(
+      backgroundRpc,
+      mintKey,
+      decimals,
+      supplyRaw,
+      false
+    );
 
-        if (pct >= minPct) {
-          whales.push({
-            owner,
-            uiAmount,
-            percentageOfSupply: pct,
-          });
-        }
-      });
+    // per owner optellen, zoals in de whale-tracker
+    const pcts: Record<string, number> = {};
+    for (const h of largest.value.holders) {
+      pcts[h.owner] = (pcts[h.owner] ?? 0) + h.percentageOfSupply;
     }
+    return pcts;
+  },
+
+  async authorities(mint) {
+    const lookup = await cachedMint(backgroundRpc, new PublicKey(mint), false);
+    if (!lookup.value.ok) throw new Error(lookup.value.error);
+    return {
+      mintAuthority: lookup.value.mint.mintAuthority,
+      freezeAuthority: lookup.value.mint.freezeAuthority,
+    };
+  },
+
+  async walletBalance(address, mint) {
+    const [item] = await fetchWalletInfos(connection, [address]);
+    if (!item.ok) throw new Error(item.error);
+    if (!mint) return item.result.sol;
+    return item.result.tokens
+      .filter((t) => t.mint === mint)
+      .reduce((acc, t) => acc + t.uiAmount, 0);
+  },
+};
 
-    whales.sort((a, b) => b.uiAmount - a.uiAmount);
+const webhookEvaluator = createWebhookEvaluator(
+  webhookStore,
+  webhookObservers,
+  webhookDispatcher
+);
 
-    function pctOfSupplyForWhales(count: number): number {
-      if (!supply || supply <= 0) return 0;
-      const slice = whales.slice(0, count);
-      const sum = slice.reduce((acc, w) => acc + w.uiAmount, 0);
-      return (sum / supply) * 100;
-    }
+// webhooks van andere clients bestaan voor de aanvrager niet (ook 404)
+function findWebhook(id: string, res: Response): WebhookSubscription | null {
+  const sub = webhookStore.get(id);
+  if (!sub || !canManageWebhook(sub, res.locals.client)) {
+    res.status(404).json({ error: "Webhook not found", id });
+    return null;
+  }
+  return sub;
+}
+
+app.post(apiRoutes.createWebhook.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.createWebhook, req, res);
+  if (!input) return;
+  const { url, secret, condition } = input.body;
 
-    const concentration = {
-      top1: pctOfSupplyForWhales(1),
-      top5: pctOfSupplyForWhales(5),
-      top10: pctOfSupplyForWhales(10),
+  try {
+    const blocked = await checkWebhookTarget(url);
+    if (blocked) return badRequest(res, "url", "body", blocked);
+
+    const sub: WebhookSubscription = {
+      id: crypto.randomUUID(),
+      owner: res.locals.client.id,
+      url,
+      secret: secret ?? crypto.randomBytes(32).toString("hex"),
+      condition,
+      createdAt: new Date().toISOString(),
+      state: null,
+      lastEvaluatedAt: null,
+      lastError: null,
     };
+    await webhookStore.save(sub);
+
+    // secret alleen hier teruggeven; daarna is hij niet meer op te vragen
+    return res.status(201).json({
+      ...redactSubscription(sub),
+      secret: sub.secret,
+      evaluationIntervalMs: WEBHOOK_EVAL_INTERVAL_MS,
+      signature: {
+        header: "X-Webhook-Signature",
+        scheme:
+          "sha256=HMAC_SHA256(secret, X-Webhook-Timestamp + '.' + raw body), hex",
+      },
+    });
+  } catch (e: any) {
+    console.error("webhook create error:", e);
+    return res.status(500).json({
+      error: "Failed to create webhook",
+      message: e?.message || String(e),
+    });
+  }
+});
 
-    const limitedWhales = whales.slice(0, isNaN(limit) ? 20 : limit);
+app.get(apiRoutes.listWebhooks.path, (_req: Request, res: Response) => {
+  const webhooks = webhookStore
+    .list()
+    .filter((sub) => canManageWebhook(sub, res.locals.client))
+    .map(redactSubscription);
+  return res.json({ count: webhooks.length, webhooks });
+});
 
-    return res.json({
-      mint,
-      rpcUrl: RPC_URL,
-      decimals,
-      supplyRaw,
-      supply,
-      minPct,
-      concentration,
-      whales: limitedWhales,
-      note:
-        "Whales are derived from the largest token accounts for this mint and filtered by percentage of total supply.",
-    });
+app.get(apiRoutes.getWebhook.path, (req: Request, res: Response) => {
+  const input = validate(apiRoutes.getWebhook, req, res);
+  const sub = input && findWebhook(input.params.id, res);
+  if (!sub) return;
+  return res.json(redactSubscription(sub));
+});
+
+app.delete(apiRoutes.deleteWebhook.path, async (req: Request, res: Response) => {
+  const input = validate(apiRoutes.deleteWebhook, req, res);
+  const sub = input && findWebhook(input.params.id, res);
+  if (!sub) return;
+
+  try {
+    await webhookStore.remove(sub.id);
+    return res.json({ id: sub.id, deleted: true });
   } catch (e: any) {
-    console.error("whale-tracker error:", e);
+    console.error("webhook delete error:", e);
     return res.status(500).json({
-      error: "Failed to fetch whale data",
+      error: "Failed to delete webhook",
       message: e?.message || String(e),
     });
   }
 });
 
+app.get(apiRoutes.webhookDeliveries.path, (req: Request, res: Response) => {
+  const input = validate(apiRoutes.webhookDeliveries, req, res);
+  const sub = input && findWebhook(input.params.id, res);
+  if (!sub) return;
+
+  const deliveries = webhookStore.deliveriesFor(sub.id, input.query.limit);
+  return res.json({ id: sub.id, count: deliveries.length, deliveries });
+});
+
+// stuurt een "ping" event, handig om de ontvanger + signature te testen
+app.post(apiRoutes.testWebhook.path, (req: Request, res: Response) => {
+  const input = validate(apiRoutes.testWebhook, req, res);
+  const sub = input && findWebhook(input.params.id, res);
+  if (!sub) return;
+
+  const delivery = webhookDispatcher.dispatch(sub, "ping", {
+    message: "Test delivery from solana-tools-api",
+  });
+  return res.status(202).json({
+    id: sub.id,
+    deliveryId: delivery.id,
+    status: delivery.status,
+  });
+});
+
+// -----------------------------------------------------------------------------
+// /api/stream  -> live wallet / mint updates via SSE (en WebSocket)
+// -----------------------------------------------------------------------------
+
+const streamHub = createStreamHub(connection, {
+  rpc: {
+    commitment: rpcPool.defaultCommitment,
+    endpoints: rpcPool.labels(),
+  },
+});
+
+// comment regel zodat proxies een stille verbinding niet sluiten
+const STREAM_HEARTBEAT_MS = Number(process.env.STREAM_HEARTBEAT_MS || 15_000);
+
+app.get(apiRoutes.stream.path, (req: Request, res: Response) => {
+  const input = validate(apiRoutes.stream, req, res);
+  if (!input) return;
+  const { wallets, mints } = input.query;
+
+  const total = wallets.length + mints.length;
+  if (total === 0) {
+    return badRequest(
+      res,
+      "wallets",
+      "query",
+      "Provide wallets and/or mints query params"
+    );
+  }
+  if (total > STREAM_MAX_KEYS) {
+    return badRequest(
+      res,
+      "mints",
+      "query",
+      `Too many keys (max ${STREAM_MAX_KEYS})`
+    );
+  }
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  // EventSource reconnect zelf na 3s; bij opnieuw verbinden krijgt de
+  // client meteen de laatst bekende stand, dus Last-Event-ID is niet nodig
+  res.write("retry: 3000\n\n");
+
+  const listener: StreamListener = (event) => {
+    res.write(`id: ${event.id}\n`);
+    res.write(`event: ${event.error ? "stream-error" : event.topic}\n`);
+    // data = wallet-info / token-info vorm; bij een fout het hele event
+    const payload = event.error ? event : event.data;
+    res.write(`data: ${JSON.stringify(payload)}\n\n`);
+  };
+
+  const topics: [StreamTopic, string][] = [
+    ...wallets.map((k): [StreamTopic, string] => ["wallet", k]),
+    ...mints.map((k): [StreamTopic, string] => ["mint", k]),
+  ];
+  const unsubscribes = topics.map(([topic, key]) =>
+    streamHub.subscribe(topic, key, listener)
+  );
+
+  const heartbeat = setInterval(
+    () => res.write(": keepalive\n\n"),
+    STREAM_HEARTBEAT_MS
+  );
+
+  // client weg -> upstream subscriptions vrijgeven (laatste sluit ze echt)
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    for (const unsubscribe of unsubscribes) unsubscribe();
+  });
+});
+
+// -----------------------------------------------------------------------------
+// /api/admin/usage  -> usage + limieten per API key (alleen admin keys)
+// -----------------------------------------------------------------------------
+
+app.get(apiRoutes.adminUsage.path, (_req: Request, res: Response) => {
+  const usage = usageMeter.report();
+
+  return res.json({
+    auth: API_AUTH,
+    keys: apiKeys.list().map((key) => ({
+      id: key.id,
+      name: key.name,
+      admin: key.admin,
+      ratePerMinute: key.limit.ratePerMinute,
+      burst: key.limit.burst,
+      origins: key.origins,
+      usage: usage[`key:${key.id}`] ?? null,
+    })),
+    anonymous: {
+      ...ANONYMOUS_LIMIT,
+      usage: usage[ANONYMOUS_USAGE_ID] ?? null,
+    },
+  } satisfies AdminUsageResponse);
+});
+
 // -----------------------------------------------------------------------------
 // Start server
 // -----------------------------------------------------------------------------
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(
-    `solana-tools-api listening on port ${PORT} (RPC=${RPC_URL})`
+    `solana-tools-api listening on port ${PORT} (RPC=${rpcPool.labels().join(", ")})`
+  );
+
+  rpcPool.startHealthChecks();
+  usageMeter.start();
+  setInterval(rateLimits.prune, 60_000).unref();
+
+  if (WHALE_SNAPSHOT_MINTS.length > 0) {
+    runWhaleSnapshotSchedule();
+    setInterval(runWhaleSnapshotSchedule, WHALE_SNAPSHOT_INTERVAL_MS);
+  }
+
+  if (PRICE_RECORDER_MINTS.length > 0) {
+    runPriceRecorder();
+    setInterval(runPriceRecorder, PRICE_RECORDER_INTERVAL_MS);
+  }
+
+  webhookEvaluator.start(WEBHOOK_EVAL_INTERVAL_MS);
+});
+
+// zelfde key + rate limit als /api/stream; de key via ?apiKey= of header
+attachWebSocketStream(server, streamHub, "/api/stream/ws", (req) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  const query = Object.fromEntries(url.searchParams);
+  const access = resolveClient(
+    { headers: req.headers, query },
+    req.socket.remoteAddress || "unknown",
+    false,
+    true
+  );
+  if (!access.ok) return access;
+
+  const cost = routeCost(apiRoutes.stream, { query, body: undefined });
+  const limit = chargeClient(
+    access.client,
+    "WS /api/stream/ws",
+    cost,
+    () => {}
   );
+  return limit.allowed
+    ? { ok: true }
+    : { ok: false, status: 429, error: "Rate limit exceeded" };
 });
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatUnits,
+  parseUnits,
+  pctOf,
+  pctOfScaled,
+  sumRaw,
+  toUiNumber,
+} from "../lib/amounts";
+
+const MAX_U64 = 18446744073709551615n;
+
+describe("formatUnits", () => {
+  it("formats without trailing zeros or exponent", () => {
+    assert.equal(formatUnits("1234500000", 6), "1234.5");
+    assert.equal(formatUnits(1n, 9), "0.000000001");
+    assert.equal(formatUnits(0n, 9), "0");
+    assert.equal(formatUnits(-1500n, 3), "-1.5");
+  });
+
+  it("handles 0 decimals", () => {
+    assert.equal(formatUnits("42", 0), "42");
+    assert.equal(formatUnits(-42n, 0), "-42");
+  });
+
+  it("is exact for max u64", () => {
+    assert.equal(formatUnits(MAX_U64, 0), "18446744073709551615");
+    assert.equal(formatUnits(MAX_U64, 9), "18446744073.709551615");
+  });
+});
+
+describe("parseUnits", () => {
+  it("is the inverse of formatUnits", () => {
+    assert.equal(parseUnits("1.5", 9), 1500000000n);
+    assert.equal(parseUnits(".5", 1), 5n);
+    assert.equal(parseUnits("-2", 2), -200n);
+    assert.equal(parseUnits(formatUnits(MAX_U64, 9), 9), MAX_U64);
+  });
+
+  it("handles 0 decimals", () => {
+    assert.equal(parseUnits("7", 0), 7n);
+    assert.equal(parseUnits("7.", 0), 7n);
+    assert.equal(parseUnits("7.1", 0), null);
+  });
+
+  it("rejects invalid input and excess decimals", () => {
+    assert.equal(parseUnits("", 6), null);
+    assert.equal(parseUnits(".", 6), null);
+    assert.equal(parseUnits("1e6", 6), null);
+    assert.equal(parseUnits("abc", 6), null);
+    assert.equal(parseUnits("0.0000001", 6), null);
+  });
+});
+
+describe("toUiNumber", () => {
+  it("gives the nearest double", () => {
+    assert.equal(toUiNumber("1234500000", 6), 1234.5);
+    assert.equal(toUiNumber(0n, 0), 0);
+    assert.equal(toUiNumber(MAX_U64, 0), 18446744073709552000);
+  });
+});
+
+describe("pctOfScaled / pctOf", () => {
+  it("computes exact percentages", () => {
+    assert.equal(pctOfScaled(1n, 3n), 33333333n);
+    assert.equal(pctOf(1n, 3n), 33.333333);
+    assert.equal(pctOf(MAX_U64, MAX_U64), 100);
+    assert.equal(pctOf(1n, MAX_U64, 2), 0);
+  });
+
+  it("returns 0 for zero supply", () => {
+    assert.equal(pctOfScaled(5n, 0n), 0n);
+    assert.equal(pctOf(5n, "0"), 0);
+    assert.equal(pctOf(5n, -1n), 0);
+  });
+
+  it("truncates toward zero for negative parts", () => {
+    assert.equal(pctOfScaled(-1n, 3n, 0), -33n);
+    assert.equal(pctOfScaled(-1n, 300n, 0), 0n);
+    assert.equal(pctOf(-1n, 3n), -33.333333);
+  });
+});
+
+describe("sumRaw", () => {
+  it("sums strings and bigints", () => {
+    assert.equal(sumRaw(["1", 2n, MAX_U64.toString()]), MAX_U64 + 3n);
+    assert.equal(sumRaw([]), 0n);
+  });
+});
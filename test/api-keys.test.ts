@@ -0,0 +1,22 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { apiKeyFrom } from "../lib/api-keys";
+
+describe("apiKeyFrom", () => {
+  it("reads the key from X-API-Key or a bearer token", () => {
+    assert.equal(
+      apiKeyFrom({ headers: { "x-api-key": " k1 " }, query: {} }),
+      "k1"
+    );
+    assert.equal(
+      apiKeyFrom({ headers: { authorization: "Bearer k2" }, query: {} }),
+      "k2"
+    );
+  });
+
+  it("only reads the apiKey query parameter when asked to", () => {
+    const req = { headers: {}, query: { apiKey: "k3" } };
+    assert.equal(apiKeyFrom(req), null);
+    assert.equal(apiKeyFrom(req, true), "k3");
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CACHE_TTLS_MS, createCache, createMemoryBackend } from "../lib/cache";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// upstream die bijhoudt hoe vaak hij aangeroepen wordt
+function counter<T>(value: T, delayMs = 10) {
+  const calls: unknown[] = [];
+  const fn = async (arg?: unknown) => {
+    calls.push(arg);
+    await sleep(delayMs);
+    return value;
+  };
+  return { fn, calls };
+}
+
+describe("memory backend", () => {
+  it("expires entries after their TTL", async () => {
+    const backend = createMemoryBackend();
+    await backend.set("a", { value: 1, cachedAt: Date.now() }, 20);
+    assert.equal((await backend.get<number>("a"))?.value, 1);
+    await sleep(30);
+    assert.equal(await backend.get("a"), null);
+  });
+
+  it("drops the oldest entries above maxEntries", async () => {
+    const backend = createMemoryBackend(2);
+    for (const key of ["a", "b", "c"]) {
+      await backend.set(key, { value: key, cachedAt: Date.now() }, 1000);
+    }
+    assert.equal(await backend.get("a"), null);
+    assert.equal((await backend.get<string>("c"))?.value, "c");
+  });
+});
+
+describe("cache.wrap", () => {
+  it("coalesces concurrent requests into one upstream call", async () => {
+    const cache = createCache(createMemoryBackend());
+    const upstream = counter("v");
+    const results = await Promise.all([
+      cache.wrap("mint", "k", upstream.fn),
+      cache.wrap("mint", "k", upstream.fn),
+      cache.wrap("mint", "k", upstream.fn),
+    ]);
+    assert.equal(upstream.calls.length, 1);
+    assert.deepEqual(
+      results.map((r) => r.value),
+      ["v", "v", "v"]
+    );
+
+    const again = await cache.wrap("mint", "k", upstream.fn);
+    assert.equal(again.hit, true);
+    assert.equal(upstream.calls.length, 1);
+  });
+
+  it("refetches after the TTL of the kind and with fresh", async () => {
+    const cache = createCache(createMemoryBackend(), {
+      ...CACHE_TTLS_MS,
+      mint: 20,
+    });
+    const upstream = counter("v", 0);
+    await cache.wrap("mint", "k", upstream.fn);
+    await cache.wrap("mint", "k", upstream.fn, { fresh: true });
+    assert.equal(upstream.calls.length, 2);
+    await sleep(30);
+    const expired = await cache.wrap("mint", "k", upstream.fn);
+    assert.equal(expired.hit, false);
+    assert.equal(upstream.calls.length, 3);
+  });
+
+  it("does not cache errors", async () => {
+    const cache = createCache(createMemoryBackend());
+    await assert.rejects(
+      cache.wrap("mint", "k", async () => {
+        throw new Error("rpc down");
+      })
+    );
+    const ok = await cache.wrap("mint", "k", async () => "v");
+    assert.equal(ok.value, "v");
+  });
+});
+
+describe("cache.wrapMany", () => {
+  it("only fetches missing keys and shares in-flight keys", async () => {
+    const cache = createCache(createMemoryBackend());
+    const batches: string[][] = [];
+    const fn = async (keys: string[]) => {
+      batches.push(keys);
+      await sleep(10);
+      return new Map(keys.map((k) => [k, k.toUpperCase()]));
+    };
+
+    await cache.wrapMany("owners", ["a"], fn);
+    const [first, second] = await Promise.all([
+      cache.wrapMany("owners", ["a", "b", "c"], fn),
+      cache.wrapMany("owners", ["b", "c", "d"], fn),
+    ]);
+
+    assert.deepEqual(batches, [["a"], ["b", "c"], ["d"]]);
+    assert.equal(first.get("a")?.hit, true);
+    assert.equal(first.get("b")?.value, "B");
+    assert.equal(second.get("c")?.value, "C");
+    assert.equal(second.get("d")?.value, "D");
+  });
+
+  it("leaves out keys the upstream did not return", async () => {
+    const cache = createCache(createMemoryBackend());
+    const result = await cache.wrapMany("owners", ["a", "b"], async () => {
+      return new Map([["a", 1]]);
+    });
+    assert.deepEqual(Array.from(result.keys()), ["a"]);
+  });
+});
@@ -0,0 +1,37 @@
+import fs from "fs";
+import path from "path";
+import { ParsedTransactionWithMeta } from "@solana/web3.js";
+import { PoolReserves, WSOL_MINT } from "../lib/market-data";
+
+// getParsedTransaction responses (jsonParsed), keys als strings
+export function loadTransaction(name: string): ParsedTransactionWithMeta {
+  const file = path.join(__dirname, "fixtures", "transactions", `${name}.json`);
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+export const WALLET = "9RAaVmRxev4b76Mx4iRCQystVSesZm5zdEdAepwRLWHb";
+export const RECEIVER = "GuWjWLL3NGcfKbuN3e7ccyuPyMjivHhMMFbfFKdzQiCh";
+export const TOKEN_MINT = "Ayw8E9dMWQ7mjypwcEpvZSNgY68hW1BmEdHrLCY8iLwo";
+// maakte TOKEN_MINT aan (mint-create.json) en opende de pool (pool-init.json)
+export const CREATOR = "GwJ3vK3qNhgzdVNWNQq2EytQokSNGQwGkBMbZ9qVkz7n";
+// kreeg tokens van WALLET in token-transfer.json
+export const FRESH = "8ZKuP8iyBaCjWiuuT4yvDHgza6RdoYhXGFdtJv1HXP12";
+export const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+// de Raydium AMM v4 pool uit swap-buy.json / swap-sell.json, vóór de buy:
+// 500 SOL tegen 125M TOKEN, 0.25% fee
+export const SOL_POOL: PoolReserves = {
+  kind: "raydium-amm-v4",
+  pool: "7ijnnmYJVjHx33ppS6RZLnSoHkgFJZg88xgG3qAvMBu7",
+  mintA: WSOL_MINT,
+  mintB: TOKEN_MINT,
+  vaultA: "ESB97Zv6qDe4NZugiiKT2puvyZVn9Ejh3B3JtoQ1vUMk",
+  vaultB: "DKHZAkqC6PftxFdKeaqP4WG6hegQ24uiCUQZnTwu4g7N",
+  decimalsA: 9,
+  decimalsB: 6,
+  reserveA: 500_000_000_000n,
+  reserveB: 125_000_000_000_000n,
+  lpMint: null,
+  openTime: null,
+  feeBps: 25,
+};
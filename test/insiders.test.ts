@@ -0,0 +1,245 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Connection } from "@solana/web3.js";
+import {
+  fetchLaunchBuyers,
+  insiderCandidates,
+  parseOutflow,
+} from "../lib/insiders";
+import {
+  TokenHistory,
+  buildTokenHistory,
+  parseMintEvents,
+} from "../lib/token-history";
+import {
+  CREATOR,
+  FRESH,
+  SOL_POOL,
+  TOKEN_MINT,
+  WALLET,
+  loadTransaction,
+} from "./fixtures";
+
+// creatie, pool, buy 2 slots na de pool, sell en een transfer, oudste eerst
+const TIMELINE = [
+  "mint-create",
+  "pool-init",
+  "swap-buy",
+  "swap-sell",
+  "token-transfer",
+];
+
+function history(
+  complete: boolean,
+  timeline: string[] = TIMELINE
+): TokenHistory {
+  const parsed = timeline.map((name) =>
+    parseMintEvents(loadTransaction(name), TOKEN_MINT)
+  );
+  return buildTokenHistory(parsed, 6, {
+    signatures: timeline.length,
+    parsed: timeline.length,
+    complete,
+  });
+}
+
+// pool account met de swaps na de launch, nieuwste eerst; `until` is de
+// pool transactie zelf
+function poolConnection(names: string[]) {
+  const txs = names.map(loadTransaction).reverse();
+  const calls: { before?: string; until?: string; limit: number }[] = [];
+  const connection = {
+    commitment: "confirmed",
+    async getSignaturesForAddress(
+      address: { toBase58(): string },
+      opts: { before?: string; until?: string; limit: number }
+    ) {
+      assert.equal(address.toBase58(), SOL_POOL.pool);
+      calls.push(opts);
+      const start = opts.before
+        ? txs.findIndex((t) => t.transaction.signatures[0] === opts.before) + 1
+        : 0;
+      return txs.slice(start, start + opts.limit).map((t) => ({
+        signature: t.transaction.signatures[0],
+        slot: t.slot,
+        err: t.meta?.err ?? null,
+        memo: null,
+        blockTime: t.blockTime,
+      }));
+    },
+    async getParsedTransactions(signatures: string[]) {
+      return signatures.map(
+        (sig) => txs.find((t) => t.transaction.signatures[0] === sig) ?? null
+      );
+    },
+  } as unknown as Connection;
+  return { connection, calls };
+}
+
+describe("insiderCandidates", () => {
+  it("finds the creator, mint recipients and launch snipers", () => {
+    const h = history(true);
+    assert.equal(h.created?.creator, CREATOR);
+    assert.equal(h.firstPool?.kind, "raydium-amm-v4");
+    assert.equal(h.firstPool?.pool, SOL_POOL.pool);
+    assert.equal(
+      h.firstPool?.signature,
+      loadTransaction("pool-init").transaction.signatures[0]
+    );
+
+    assert.deepEqual(insiderCandidates(h, 5), [
+      {
+        owner: CREATOR,
+        roles: ["creator", "mint-recipient"],
+        acquiredRaw: "1000000000000000",
+        firstSlot: 250000100,
+      },
+      {
+        owner: WALLET,
+        roles: ["sniper"],
+        acquiredRaw: "248878487417",
+        firstSlot: 250000200,
+      },
+    ]);
+  });
+
+  it("only counts buys within the window as snipers", () => {
+    const owners = insiderCandidates(history(true), 1).map((c) => c.owner);
+    assert.deepEqual(owners, [CREATOR]);
+  });
+
+  it("leaves out snipers when the history is incomplete", () => {
+    const owners = insiderCandidates(history(false), 5).map((c) => c.owner);
+    assert.deepEqual(owners, [CREATOR]);
+  });
+
+  it("adds buyers found through the pool account", async () => {
+    // de buy raakt de mint niet, dus ontbreekt in de mint historie
+    const h = history(true, ["mint-create", "pool-init", "token-transfer"]);
+    assert.deepEqual(
+      insiderCandidates(h, 5).map((c) => c.owner),
+      [CREATOR]
+    );
+
+    const { connection } = poolConnection(["swap-buy", "swap-sell"]);
+    const buyers = await fetchLaunchBuyers(
+      connection,
+      TOKEN_MINT,
+      h.firstPool!,
+      5
+    );
+    assert.equal(buyers.complete, true);
+
+    const sniper = insiderCandidates(h, 5, buyers.receipts).find(
+      (c) => c.owner === WALLET
+    );
+    assert.deepEqual(sniper, {
+      owner: WALLET,
+      roles: ["sniper"],
+      acquiredRaw: "248878487417",
+      firstSlot: 250000200,
+    });
+
+    // dezelfde koop via mint en pool telt één keer
+    const both = insiderCandidates(history(true), 5, buyers.receipts);
+    assert.equal(
+      both.find((c) => c.owner === WALLET)?.acquiredRaw,
+      "248878487417"
+    );
+  });
+});
+
+describe("fetchLaunchBuyers", () => {
+  const launch = () => history(true).firstPool!;
+
+  it("walks the pool signatures back to the launch", async () => {
+    const { connection, calls } = poolConnection(["swap-buy", "swap-sell"]);
+    const buyers = await fetchLaunchBuyers(
+      connection,
+      TOKEN_MINT,
+      launch(),
+      150
+    );
+
+    assert.equal(buyers.complete, true);
+    assert.equal(calls[0].until, launch().signature);
+    // de buy (WALLET) en de sell (pool vault) vallen in de window
+    assert.deepEqual(
+      buyers.receipts.map((r) => [r.slot, r.amountRaw]),
+      [
+        [250000300, "100000000000"],
+        [250000200, "248878487417"],
+      ]
+    );
+  });
+
+  it("is incomplete when the launch is beyond the signature cap", async () => {
+    // elke pagina vol, met signatures ver na de launch window
+    const connection = {
+      commitment: "confirmed",
+      async getSignaturesForAddress(
+        _address: unknown,
+        opts: { limit: number }
+      ) {
+        return Array.from({ length: opts.limit }, (_, i) => ({
+          signature: `later${i}`,
+          slot: 260000000,
+          err: null,
+          memo: null,
+          blockTime: null,
+        }));
+      },
+    } as unknown as Connection;
+    const buyers = await fetchLaunchBuyers(connection, TOKEN_MINT, launch(), 5);
+    assert.deepEqual(buyers, { receipts: [], complete: false });
+  });
+
+  it("is incomplete without a pool account", async () => {
+    const { connection, calls } = poolConnection([]);
+    const buyers = await fetchLaunchBuyers(
+      connection,
+      TOKEN_MINT,
+      { ...launch(), pool: null },
+      5
+    );
+    assert.deepEqual(buyers, { receipts: [], complete: false });
+    assert.equal(calls.length, 0);
+  });
+});
+
+describe("parseOutflow", () => {
+  it("counts a swap out of the wallet as a sale", () => {
+    const tx = loadTransaction("swap-sell");
+    assert.deepEqual(parseOutflow(tx, TOKEN_MINT, WALLET), {
+      signature: tx.transaction.signatures[0],
+      amount: 100_000_000_000n,
+      venue: "raydium-amm-v4",
+      receivers: [],
+    });
+  });
+
+  it("lists the receivers of a plain transfer", () => {
+    const tx = loadTransaction("token-transfer");
+    assert.deepEqual(parseOutflow(tx, TOKEN_MINT, WALLET), {
+      signature: tx.transaction.signatures[0],
+      amount: 50_000_000_000n,
+      venue: null,
+      receivers: [[FRESH, 50_000_000_000n]],
+    });
+  });
+
+  it("ignores inflows, failed transactions and other owners", () => {
+    assert.equal(
+      parseOutflow(loadTransaction("swap-buy"), TOKEN_MINT, WALLET),
+      null
+    );
+    assert.equal(
+      parseOutflow(loadTransaction("failed-swap"), TOKEN_MINT, WALLET),
+      null
+    );
+    assert.equal(
+      parseOutflow(loadTransaction("token-transfer"), TOKEN_MINT, CREATOR),
+      null
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  TokenMetadata,
+  attachOffChainMetadata,
+  httpJsonFetcher,
+  setOffChainFetcher,
+} from "../lib/metadata";
+
+function metadata(uri: string): TokenMetadata {
+  return {
+    source: "metaplex",
+    metadataAddress: "",
+    name: "",
+    symbol: "",
+    uri,
+    updateAuthority: null,
+    isMutable: false,
+    sellerFeeBasisPoints: null,
+    creators: [],
+  };
+}
+
+describe("httpJsonFetcher", () => {
+  let server: http.Server;
+  let hits = 0;
+  let base: string;
+
+  before(async () => {
+    server = http.createServer((_req, res) => {
+      hits++;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ secret: "internal" }));
+    });
+    await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("refuses URIs that point at non-public addresses", async () => {
+    for (const uri of [
+      `${base}/metadata.json`,
+      "http://localhost/metadata.json",
+      "http://169.254.169.254/latest/meta-data/",
+    ]) {
+      await assert.rejects(httpJsonFetcher(uri), /non-public/, uri);
+    }
+    assert.equal(hits, 0);
+  });
+
+  it("refuses schemes other than http(s)", async () => {
+    await assert.rejects(httpJsonFetcher("file:///etc/passwd"), /not http/);
+  });
+});
+
+describe("attachOffChainMetadata", () => {
+  after(() => setOffChainFetcher(httpJsonFetcher));
+
+  it("bounds the number of fetches in flight", async () => {
+    let active = 0;
+    let peak = 0;
+    setOffChainFetcher(async (uri) => {
+      peak = Math.max(peak, ++active);
+      await new Promise((r) => setTimeout(r, 5));
+      active--;
+      return { uri };
+    });
+
+    const list = Array.from({ length: 40 }, (_, i) => metadata(`u${i}`));
+    await attachOffChainMetadata(list);
+
+    assert.ok(peak <= 8, `peak ${peak}`);
+    assert.deepEqual(list[39].offChain, { uri: "u39" });
+  });
+});
@@ -0,0 +1,151 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { USDC_MINT, WSOL_MINT } from "../lib/market-data";
+import {
+  PriceSample,
+  buildCandles,
+  createPriceStore,
+  reserveSample,
+  swapSamples,
+} from "../lib/price-history";
+import { SOL_POOL, TOKEN_MINT, loadTransaction } from "./fixtures";
+
+function sample(
+  t: number,
+  price: number,
+  extra: Partial<PriceSample> = {}
+): PriceSample {
+  return {
+    t,
+    price,
+    volume: 0,
+    pool: SOL_POOL.pool,
+    quoteMint: WSOL_MINT,
+    source: "reserves",
+    ...extra,
+  };
+}
+
+describe("price samples", () => {
+  it("takes the spot price from the pool reserves", () => {
+    const s = reserveSample(SOL_POOL, TOKEN_MINT, 1000);
+    assert.equal(s.price, 500 / 125_000_000);
+    assert.equal(s.quoteMint, WSOL_MINT);
+    assert.equal(s.source, "reserves");
+  });
+
+  it("reads swaps from the vault deltas of recorded transactions", () => {
+    const txs = [
+      loadTransaction("swap-buy"),
+      loadTransaction("swap-sell"),
+      // mislukte transacties tellen niet mee
+      loadTransaction("failed-swap"),
+      // raakt de pool niet
+      loadTransaction("sol-transfer"),
+    ];
+    const samples = swapSamples(txs, SOL_POOL, TOKEN_MINT);
+
+    assert.deepEqual(samples, [
+      {
+        t: 1710000080000,
+        price: 1 / 248878.487417,
+        volume: 248878.487417,
+        pool: SOL_POOL.pool,
+        quoteMint: WSOL_MINT,
+        source: "swap",
+        signature: txs[0].transaction.signatures[0],
+      },
+      {
+        t: 1710000120000,
+        price: 0.400275539 / 100000,
+        volume: 100000,
+        pool: SOL_POOL.pool,
+        quoteMint: WSOL_MINT,
+        source: "swap",
+        signature: txs[1].transaction.signatures[0],
+      },
+    ]);
+  });
+});
+
+describe("buildCandles", () => {
+  const samples = [
+    sample(60_000, 1, { volume: 1 }),
+    sample(90_000, 3, { volume: 2 }),
+    sample(110_000, 2, { volume: 1 }),
+    // andere quote mint dan de laatste sample: telt niet mee
+    sample(120_000, 100, { quoteMint: USDC_MINT }),
+    sample(180_000, 5),
+  ];
+
+  it("aggregates OHLCV per bucket and skips empty buckets", () => {
+    assert.deepEqual(buildCandles(samples, "1m", 0, 240_000), {
+      s: "ok",
+      t: [60, 180],
+      o: [1, 5],
+      h: [3, 5],
+      l: [1, 5],
+      c: [2, 5],
+      v: [4, 0],
+    });
+  });
+
+  it("treats `to` as exclusive", () => {
+    const candles = buildCandles(samples, "1m", 0, 180_000);
+    assert.equal(candles.s, "ok");
+    assert.deepEqual(candles.s === "ok" && candles.t, [60]);
+  });
+
+  it("points to the last earlier candle when the range is empty", () => {
+    assert.deepEqual(buildCandles(samples, "1m", 200_000, 300_000), {
+      s: "no_data",
+      nextTime: 180,
+    });
+    assert.deepEqual(buildCandles([], "1h", 0, 3_600_000), { s: "no_data" });
+  });
+});
+
+describe("price store", () => {
+  const dirs: string[] = [];
+  const tmpDir = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "prices-"));
+    dirs.push(dir);
+    return dir;
+  };
+  after(() => {
+    for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true });
+  });
+  const swap = (t: number, signature: string) =>
+    sample(t, 1, { source: "swap", signature });
+
+  it("keeps every sample when writes for a mint overlap", async () => {
+    const dir = tmpDir();
+    const store = createPriceStore(dir);
+
+    // de tweede en derde schrijven het bestand opnieuw (oudere samples)
+    const added = await Promise.all([
+      store.add(TOKEN_MINT, [swap(300, "a")]),
+      store.add(TOKEN_MINT, [swap(100, "b")]),
+      store.add(TOKEN_MINT, [swap(200, "c"), swap(100, "b")]),
+    ]);
+
+    assert.deepEqual(added, [1, 1, 1]);
+    assert.deepEqual(
+      (await store.list(TOKEN_MINT)).map((s) => s.signature),
+      ["b", "c", "a"]
+    );
+    assert.deepEqual(fs.readdirSync(dir), [`${TOKEN_MINT}.jsonl`]);
+  });
+
+  it("dedupes swaps by signature but always adds reserve samples", async () => {
+    const store = createPriceStore(tmpDir());
+    await store.add(TOKEN_MINT, [swap(100, "a"), sample(100, 1)]);
+    assert.equal(await store.add(TOKEN_MINT, [swap(100, "a")]), 0);
+    assert.equal(await store.add(TOKEN_MINT, [sample(100, 1)]), 1);
+    assert.equal((await store.list(TOKEN_MINT)).length, 3);
+    assert.deepEqual(await store.list(USDC_MINT), []);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PoolReserves, USDC_MINT, WSOL_MINT } from "../lib/market-data";
+import {
+  constantProductSwap,
+  poolMintDecimals,
+  priceImpactPct,
+  quotePool,
+  quoteRoutes,
+  sellImpact,
+} from "../lib/quote";
+import { SOL_POOL, TOKEN_MINT } from "./fixtures";
+
+// ondieper en duurder dan SOL_POOL: 50M TOKEN tegen 20k USDC, 0.3% fee
+const USDC_POOL: PoolReserves = {
+  kind: "raydium-cpmm",
+  pool: "GuWjWLL3NGcfKbuN3e7ccyuPyMjivHhMMFbfFKdzQiCh",
+  mintA: TOKEN_MINT,
+  mintB: USDC_MINT,
+  vaultA: "B1rek7oaebGHJ3mTV7V8mPxss4suYFtaDCjVTYafbusc",
+  vaultB: "iMZSr4xi69ga4hX7ALNuTWakvmXcjZKUP1i1Ymvx34n",
+  decimalsA: 6,
+  decimalsB: 6,
+  reserveA: 50_000_000_000_000n,
+  reserveB: 20_000_000_000n,
+  lpMint: null,
+  openTime: null,
+  feeBps: 30,
+};
+
+describe("constantProductSwap", () => {
+  it("takes the fee from the input and rounds the output down", () => {
+    const { amountOut, feeAmount } = constantProductSwap(
+      1_000_000_000n,
+      SOL_POOL.reserveA,
+      SOL_POOL.reserveB,
+      25
+    );
+    assert.equal(feeAmount, 2_500_000n);
+    assert.equal(amountOut, 248_878_487_417n);
+  });
+
+  it("rounds the fee up", () => {
+    assert.deepEqual(constantProductSwap(1n, 10n ** 9n, 10n ** 9n, 25), {
+      amountOut: 0n,
+      feeAmount: 1n,
+    });
+  });
+
+  it("returns nothing for empty input or reserves", () => {
+    const none = { amountOut: 0n, feeAmount: 0n };
+    assert.deepEqual(constantProductSwap(0n, 10n, 10n, 25), none);
+    assert.deepEqual(constantProductSwap(5n, 0n, 10n, 25), none);
+    assert.deepEqual(constantProductSwap(5n, 10n, 0n, 25), none);
+  });
+});
+
+describe("priceImpactPct", () => {
+  it("is inAfterFee / (reserveIn + inAfterFee)", () => {
+    assert.equal(
+      priceImpactPct(1_000_000_000n, 2_500_000n, SOL_POOL.reserveA),
+      0.199102
+    );
+  });
+});
+
+describe("quotePool", () => {
+  it("quotes both directions in ui units", () => {
+    const buy = quotePool(SOL_POOL, WSOL_MINT, 1_000_000_000n);
+    assert.ok(buy);
+    assert.equal(buy.outputMint, TOKEN_MINT);
+    assert.equal(buy.amountIn, "1");
+    assert.equal(buy.amountOut, "248878.487417");
+    assert.equal(buy.feeAmount, "0.0025");
+    assert.equal(buy.spotPrice, 250_000);
+    assert.equal(buy.executionPrice, 248878.487417);
+    assert.equal(buy.priceImpactPct, 0.199102);
+
+    const sell = quotePool(SOL_POOL, TOKEN_MINT, 10_000_000_000_000n);
+    assert.ok(sell);
+    assert.equal(sell.outputMint, WSOL_MINT);
+    assert.equal(sell.reserveIn, "125000000");
+    assert.equal(sell.amountOutRaw, "36951287275");
+    assert.equal(sell.priceImpactPct, 7.390257);
+  });
+
+  it("skips pools it cannot quote", () => {
+    const amount = 1_000_000_000n;
+    assert.equal(
+      quotePool({ ...SOL_POOL, kind: "orca-whirlpool" }, WSOL_MINT, amount),
+      null
+    );
+    assert.equal(
+      quotePool({ ...SOL_POOL, feeBps: null }, WSOL_MINT, amount),
+      null
+    );
+    assert.equal(
+      quotePool({ ...SOL_POOL, openTime: 2000 }, WSOL_MINT, amount, 1000),
+      null
+    );
+    assert.equal(
+      quotePool({ ...SOL_POOL, reserveB: 0n }, WSOL_MINT, amount),
+      null
+    );
+    assert.equal(quotePool(SOL_POOL, USDC_MINT, amount), null);
+  });
+});
+
+describe("quoteRoutes", () => {
+  it("sorts by output and filters on the output mint", () => {
+    const shallow = {
+      ...SOL_POOL,
+      pool: "shallow",
+      reserveA: 50_000_000_000n,
+      reserveB: 12_500_000_000_000n,
+    };
+    const routes = quoteRoutes(
+      [shallow, USDC_POOL, SOL_POOL],
+      WSOL_MINT,
+      TOKEN_MINT,
+      1_000_000_000n
+    );
+    assert.deepEqual(
+      routes.map((r) => r.pool),
+      [SOL_POOL.pool, "shallow"]
+    );
+  });
+});
+
+describe("poolMintDecimals", () => {
+  it("reads decimals from whichever side holds the mint", () => {
+    assert.equal(poolMintDecimals([SOL_POOL], WSOL_MINT), 9);
+    assert.equal(poolMintDecimals([SOL_POOL], TOKEN_MINT), 6);
+    assert.equal(poolMintDecimals([SOL_POOL], USDC_MINT), null);
+  });
+});
+
+describe("sellImpact", () => {
+  // 1B TOKEN supply (6 decimalen)
+  const supplyRaw = 1_000_000_000_000_000n;
+
+  it("uses the pool with the lowest impact against SOL or a stable", () => {
+    const impact = sellImpact([USDC_POOL, SOL_POOL], TOKEN_MINT, supplyRaw, 1);
+    assert.deepEqual(impact, {
+      pctOfSupply: 1,
+      amountRaw: "10000000000000",
+      amount: "10000000",
+      pool: SOL_POOL.pool,
+      kind: "raydium-amm-v4",
+      outputMint: WSOL_MINT,
+      amountOut: "36.951287275",
+      priceImpactPct: 7.390257,
+    });
+
+    const usdcOnly = sellImpact([USDC_POOL], TOKEN_MINT, supplyRaw, 1);
+    assert.equal(usdcOnly?.outputMint, USDC_MINT);
+    assert.equal(usdcOnly?.amountOut, "3324.995831");
+    assert.equal(usdcOnly?.priceImpactPct, 16.624979);
+  });
+
+  it("returns null without a usable pool or amount", () => {
+    assert.equal(sellImpact([], TOKEN_MINT, supplyRaw, 1), null);
+    assert.equal(sellImpact([SOL_POOL], TOKEN_MINT, 0n, 1), null);
+    assert.equal(
+      sellImpact([{ ...SOL_POOL, feeBps: null }], TOKEN_MINT, supplyRaw, 1),
+      null
+    );
+  });
+});
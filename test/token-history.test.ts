@@ -0,0 +1,154 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Connection } from "@solana/web3.js";
+import {
+  buildTokenHistory,
+  fetchTokenHistory,
+  historyReasons,
+} from "../lib/token-history";
+import { RECEIVER, SOL_POOL, TOKEN_MINT, WALLET } from "./fixtures";
+
+type Parsed = Parameters<typeof buildTokenHistory>[0][number];
+
+const NOW = 1_710_000_000_000;
+const RAYDIUM = "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8";
+
+function events(extra: Partial<Parsed>): Parsed {
+  return {
+    created: null,
+    supply: [],
+    authority: [],
+    pool: null,
+    receipts: [],
+    ...extra,
+  };
+}
+
+function base(slot: number, secondsAgo = 3600) {
+  return { signature: `sig${slot}`, slot, blockTime: NOW / 1000 - secondsAgo };
+}
+
+function mint(slot: number, amountRaw: string) {
+  return {
+    ...base(slot),
+    type: "mint" as const,
+    amountRaw,
+    account: null,
+    owner: WALLET,
+    authority: WALLET,
+  };
+}
+
+// creatie + 1 token, pool, 0.5 extra, authority naar RECEIVER en ingetrokken
+const parsed: Parsed[] = [
+  events({
+    created: {
+      ...base(1),
+      creator: WALLET,
+      decimals: 6,
+      mintAuthority: WALLET,
+      freezeAuthority: null,
+    },
+    supply: [mint(1, "1000000")],
+  }),
+  events({
+    pool: {
+      ...base(10),
+      kind: "raydium-amm-v4",
+      programId: RAYDIUM,
+      pool: SOL_POOL.pool,
+    },
+  }),
+  events({ supply: [mint(20, "500000")] }),
+  events({
+    authority: [
+      {
+        ...base(30),
+        authorityType: "mintTokens",
+        from: WALLET,
+        to: RECEIVER,
+      },
+    ],
+  }),
+  events({
+    authority: [
+      {
+        ...base(40, 300),
+        authorityType: "mintTokens",
+        from: RECEIVER,
+        to: null,
+      },
+    ],
+  }),
+];
+
+describe("historyReasons", () => {
+  it("reports after-launch mints and authority changes", () => {
+    const history = buildTokenHistory(parsed, 6, {
+      signatures: 5,
+      parsed: 5,
+      complete: true,
+    });
+    assert.equal(history.totals.mintedAfterLaunchPct, 50);
+    assert.deepEqual(historyReasons(history, NOW), [
+      "Minted 50.00% extra supply after launch (0.5 tokens).",
+      "Mint authority revoked only 5 minutes ago.",
+      `Mint authority was transferred 1 time(s), last to ${RECEIVER}.`,
+    ]);
+  });
+
+  it("leaves out launch and revoke reasons when coverage is incomplete", () => {
+    const history = buildTokenHistory(parsed, 6, {
+      signatures: 5000,
+      parsed: 1000,
+      complete: false,
+    });
+    assert.deepEqual(historyReasons(history, NOW), [
+      "Mint authority was transferred at least 1 time(s) (history only partially covered).",
+    ]);
+  });
+});
+
+describe("fetchTokenHistory", () => {
+  // mint met `total` signatures, nieuwste eerst
+  function connection(total: number) {
+    const all = Array.from({ length: total }, (_, i) => ({
+      signature: `sig${total - i}`,
+      slot: total - i,
+      err: null,
+      memo: null,
+      blockTime: null,
+    }));
+    return {
+      commitment: "confirmed",
+      async getSignaturesForAddress(
+        _address: unknown,
+        opts: { before?: string; limit: number }
+      ) {
+        const start = opts.before
+          ? all.findIndex((s) => s.signature === opts.before) + 1
+          : 0;
+        return all.slice(start, start + opts.limit);
+      },
+      async getParsedTransactions(signatures: string[]) {
+        return signatures.map(() => null);
+      },
+    } as unknown as Connection;
+  }
+
+  it("is incomplete when the signature cap ends on a full page", async () => {
+    const history = await fetchTokenHistory(connection(800), TOKEN_MINT, 6, {
+      maxSignatures: 500,
+    });
+    assert.equal(history.coverage.signatures, 500);
+    assert.equal(history.coverage.complete, false);
+  });
+
+  it("is complete when a page comes back short", async () => {
+    const history = await fetchTokenHistory(connection(300), TOKEN_MINT, 6, {
+      maxSignatures: 500,
+    });
+    assert.equal(history.coverage.signatures, 300);
+    assert.equal(history.coverage.complete, true);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseWalletTransaction } from "../lib/wallet-history";
+import {
+  RECEIVER,
+  TOKEN_MINT,
+  USDC_MINT,
+  WALLET,
+  loadTransaction,
+} from "./fixtures";
+
+describe("parseWalletTransaction", () => {
+  it("SOL transfer: out for the sender, in for the receiver", () => {
+    const tx = loadTransaction("sol-transfer");
+
+    const sent = parseWalletTransaction(tx, WALLET);
+    assert.equal(sent.classification, "transfer-out");
+    assert.equal(sent.status, "success");
+    assert.equal(sent.feePayer, WALLET);
+    assert.equal(sent.fee, 10000);
+    // inclusief fee
+    assert.equal(sent.solDeltaLamports, -500010000);
+    assert.deepEqual(sent.tokenDeltas, []);
+    assert.deepEqual(sent.programs, [
+      "ComputeBudget111111111111111111111111111111",
+      "11111111111111111111111111111111",
+    ]);
+
+    const received = parseWalletTransaction(tx, RECEIVER);
+    assert.equal(received.classification, "transfer-in");
+    assert.equal(received.solDelta, 0.5);
+  });
+
+  it("SPL transferChecked: token deltas per owner", () => {
+    const tx = loadTransaction("spl-transfer-checked");
+
+    const sent = parseWalletTransaction(tx, WALLET);
+    assert.equal(sent.classification, "transfer-out");
+    assert.deepEqual(sent.tokenDeltas, [
+      {
+        mint: USDC_MINT,
+        decimals: 6,
+        preRaw: "250000000",
+        postRaw: "150000000",
+        deltaRaw: "-100000000",
+        uiDelta: -100,
+        uiDeltaString: "-100",
+      },
+    ]);
+
+    const received = parseWalletTransaction(tx, RECEIVER);
+    assert.equal(received.classification, "transfer-in");
+    assert.equal(received.tokenDeltas[0].uiDeltaString, "100");
+    assert.equal(received.solDeltaLamports, 0);
+  });
+
+  it("Raydium swap: SOL out (via a temporary wSOL account), token in", () => {
+    const tx = loadTransaction("swap-buy");
+    const parsed = parseWalletTransaction(tx, WALLET);
+
+    assert.equal(parsed.classification, "swap");
+    assert.equal(parsed.fee, 15000);
+    // 1 SOL in de pool, rent van het nieuwe token account en de fee
+    assert.equal(parsed.solDeltaLamports, -(1_000_000_000 + 2_039_280 + 15000));
+    assert.equal(parsed.tokenDeltas.length, 1);
+    assert.equal(parsed.tokenDeltas[0].mint, TOKEN_MINT);
+    assert.equal(parsed.tokenDeltas[0].preRaw, "0");
+    assert.equal(parsed.tokenDeltas[0].deltaRaw, "248878487417");
+    assert.equal(parsed.tokenDeltas[0].uiDeltaString, "248878.487417");
+    assert.ok(
+      parsed.programs.includes("675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8")
+    );
+  });
+
+  it("failed transaction: only the fee, classified unknown", () => {
+    const tx = loadTransaction("failed-swap");
+    const parsed = parseWalletTransaction(tx, WALLET);
+
+    assert.equal(parsed.status, "failed");
+    assert.deepEqual(parsed.error, { InstructionError: [1, { Custom: 30 }] });
+    assert.equal(parsed.classification, "unknown");
+    assert.equal(parsed.solDeltaLamports, -15000);
+    assert.deepEqual(parsed.tokenDeltas, []);
+  });
+});
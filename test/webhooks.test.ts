@@ -0,0 +1,267 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import {
+  WebhookDelivery,
+  WebhookSubscription,
+  canManageWebhook,
+  checkWebhookTarget,
+  createWebhookDispatcher,
+  createWebhookStore,
+  evaluateCondition,
+  isPrivateAddress,
+  signWebhookPayload,
+} from "../lib/webhooks";
+import { TOKEN_MINT } from "./fixtures";
+
+const dirs: string[] = [];
+const tmpDir = () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "webhooks-"));
+  dirs.push(dir);
+  return dir;
+};
+
+after(() => {
+  for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function waitFor(check: () => boolean, timeoutMs = 2000) {
+  const until = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > until) throw new Error("timed out");
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+function subscription(url: string): WebhookSubscription {
+  return {
+    id: "sub-1",
+    owner: "key:alice",
+    url,
+    secret: "0123456789abcdef0123456789abcdef",
+    condition: { type: "mint-authority-change", mint: TOKEN_MINT },
+    createdAt: new Date().toISOString(),
+    state: null,
+    lastEvaluatedAt: null,
+    lastError: null,
+  };
+}
+
+describe("webhook targets", () => {
+  it("flags loopback, private, link-local and mapped addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.100.100.200",
+      "0.0.0.0",
+      "::1",
+      "fe80::1",
+      "fd00:ec2::254",
+      "::ffff:127.0.0.1",
+      "not-an-ip",
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    assert.equal(isPrivateAddress("1.1.1.1"), false);
+    assert.equal(isPrivateAddress("2606:4700:4700::1111"), false);
+  });
+
+  it("rejects URLs that resolve to non-public addresses", async () => {
+    for (const url of [
+      "http://127.0.0.1:8080/hook",
+      "http://[::1]/hook",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://localhost:3000/",
+    ]) {
+      assert.match(
+        (await checkWebhookTarget(url, false)) ?? "",
+        /non-public/,
+        url
+      );
+    }
+    assert.equal(await checkWebhookTarget("https://1.1.1.1/hook", false), null);
+    assert.equal(await checkWebhookTarget("http://127.0.0.1/", true), null);
+  });
+});
+
+describe("canManageWebhook", () => {
+  it("allows the owner and admin keys only", () => {
+    const sub = subscription("https://example.com/hook");
+    const key = (admin: boolean) => ({ admin });
+
+    assert.equal(
+      canManageWebhook(sub, { id: "key:alice", key: key(false) }),
+      true
+    );
+    assert.equal(
+      canManageWebhook(sub, { id: "key:bob", key: key(false) }),
+      false
+    );
+    assert.equal(
+      canManageWebhook(sub, { id: "anon:1.2.3.4", key: null }),
+      false
+    );
+    assert.equal(
+      canManageWebhook(sub, { id: "key:root", key: key(true) }),
+      true
+    );
+
+    const legacy = { ...sub, owner: null };
+    assert.equal(
+      canManageWebhook(legacy, { id: "anon:1.2.3.4", key: null }),
+      false
+    );
+    assert.equal(
+      canManageWebhook(legacy, { id: "key:root", key: key(true) }),
+      true
+    );
+  });
+});
+
+describe("whale-move condition", () => {
+  const condition = {
+    type: "whale-move" as const,
+    mint: TOKEN_MINT,
+    minPctOfSupply: 1,
+  };
+  const observe = (pcts: Record<string, number>) => ({
+    liquidityUsd: async () => 0,
+    holderPcts: async () => pcts,
+    authorities: async () => ({ mintAuthority: null, freezeAuthority: null }),
+    walletBalance: async () => 0,
+  });
+
+  it("does not treat dropping out of the top list as a full exit", async () => {
+    const prev = { pcts: { a: 10, b: 2, c: 1.5 } };
+    // c valt eruit, d komt er net boven: hooguit 1.4% verschoven
+    const { event } = await evaluateCondition(
+      condition,
+      prev,
+      observe({ a: 10, b: 2, d: 1.6 })
+    );
+    assert.equal(event, null);
+  });
+
+  it("reports lower bounds for owners leaving or entering the list", async () => {
+    const prev = { pcts: { a: 10, b: 2 } };
+    const { event } = await evaluateCondition(
+      condition,
+      prev,
+      observe({ b: 2, c: 5 })
+    );
+    assert.deepEqual(event?.data.movers, [
+      {
+        owner: "a",
+        status: "left-top-list",
+        beforePct: 10,
+        afterPct: null,
+        deltaPct: -8,
+      },
+      {
+        owner: "c",
+        status: "entered-top-list",
+        beforePct: null,
+        afterPct: 5,
+        deltaPct: 3,
+      },
+    ]);
+  });
+});
+
+describe("webhook dispatcher", () => {
+  const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+  let server: http.Server;
+  let url: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (part) => (body += part));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("delivers signed payloads to a local receiver", async () => {
+    const store = createWebhookStore(tmpDir());
+    const dispatcher = createWebhookDispatcher(store, { allowPrivate: true });
+    const sub = subscription(url);
+
+    const delivery = dispatcher.dispatch(sub, "ping", { message: "hi" });
+    await waitFor(() => delivery.status !== "pending");
+
+    assert.equal(delivery.status, "delivered");
+    assert.equal(delivery.attempts[0].status, 204);
+    assert.equal(received.length, 1);
+
+    const { headers, body } = received[0];
+    assert.equal(headers["x-webhook-event"], "ping");
+    assert.equal(headers["x-webhook-id"], delivery.id);
+    const timestamp = String(headers["x-webhook-timestamp"]);
+    assert.equal(
+      headers["x-webhook-signature"],
+      `sha256=${signWebhookPayload(sub.secret, timestamp, body)}`
+    );
+    assert.deepEqual(JSON.parse(body).data, { message: "hi" });
+  });
+
+  it("refuses private targets without retrying", async () => {
+    const store = createWebhookStore(tmpDir());
+    const dispatcher = createWebhookDispatcher(store, { allowPrivate: false });
+    const before = received.length;
+
+    const delivery = dispatcher.dispatch(subscription(url), "ping", {});
+    await waitFor(() => delivery.status !== "pending");
+
+    assert.equal(delivery.status, "failed");
+    assert.equal(delivery.attempts.length, 1);
+    assert.match(delivery.attempts[0].error ?? "", /non-public/);
+    assert.equal(received.length, before);
+  });
+});
+
+describe("webhook delivery log", () => {
+  it("trims deliveries.jsonl to the last logSize entries", async () => {
+    const dir = tmpDir();
+    const store = createWebhookStore(dir, 2);
+    const deliveries: WebhookDelivery[] = [1, 2, 3, 4, 5].map((n) => ({
+      id: `d${n}`,
+      subscriptionId: "sub-1",
+      event: "ping",
+      payload: {},
+      status: "delivered",
+      attempts: [],
+      createdAt: new Date().toISOString(),
+      nextRetryAt: null,
+    }));
+    await Promise.all(deliveries.map((d) => store.finishDelivery(d)));
+
+    const lines = fs
+      .readFileSync(path.join(dir, "deliveries.jsonl"), "utf8")
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l).id);
+    assert.deepEqual(lines, ["d4", "d5"]);
+
+    const reloaded = createWebhookStore(dir, 2);
+    assert.deepEqual(
+      reloaded.deliveriesFor("sub-1").map((d) => d.id),
+      ["d5", "d4"]
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { WhaleSnapshot, createSnapshotStore } from "../lib/whale-snapshots";
+import { TOKEN_MINT } from "./fixtures";
+
+function snapshot(takenAt: number): WhaleSnapshot {
+  return {
+    mint: TOKEN_MINT,
+    takenAt,
+    decimals: 6,
+    supplyRaw: "1000000",
+    supply: 1,
+    holders: [],
+  };
+}
+
+describe("snapshot store", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "whales-"));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("trims to the newest snapshots when appends overlap", async () => {
+    const store = createSnapshotStore(dir, 2);
+
+    await Promise.all([1, 2, 3, 4, 5].map((t) => store.append(snapshot(t))));
+
+    assert.deepEqual(
+      (await store.list(TOKEN_MINT)).map((s) => s.takenAt),
+      [4, 5]
+    );
+    assert.deepEqual(fs.readdirSync(dir), [`${TOKEN_MINT}.jsonl`]);
+  });
+});